@@ -1,15 +1,39 @@
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { ChatInterface } from './components/ChatInterface';
 import { ComicSessionPanel } from './components/ComicSessionPanel';
+import { ChatConversationPanel } from './components/ChatConversationPanel';
 import { KnowledgeBase } from './components/KnowledgeBase';
 import { ComicStudio } from './components/ComicStudio';
-import { ShieldCheck, Menu, X, RefreshCw, AlertCircle, Sparkles, LayoutGrid } from 'lucide-react';
-import { Entity, SceneReference } from './types';
+import { PromptTemplateEditor } from './components/PromptTemplateEditor';
+import { ShieldCheck, Menu, X, RefreshCw, AlertCircle, Sparkles, LayoutGrid, FileText } from 'lucide-react';
+import { CharacterProfile, Entity, EntityView, KnowledgeProject, SceneReference } from './types';
 import { compressImage } from './utils';
+import { getModelProvider } from './services/modelProvider';
+import { mergeEntityViews, parseViewKey } from './services/entityViews';
+import { createKnowledgeBaseProject, KnowledgeBaseManifest, listKnowledgeBase, normalizeManifest } from './services/knowledgeBaseApi';
+import { getStyleRefKey, groupStylePacks, resolveActiveStylePack } from './services/stylePacks';
+import { setActivePromptProject } from './services/promptTemplates';
+import {
+  getStorageUsage,
+  loadEntities,
+  loadSceneReferences,
+  migrateLegacyStorage,
+  saveEntities,
+  saveSceneReferences,
+  StorageUsage
+} from './services/assetStore';
+import {
+  DEFAULT_PROJECT_ID,
+  filterEntitiesByProject,
+  getEntityKey,
+  getProjectFromAssetPath,
+  mergeProjects,
+  scopeEntitySetter
+} from './services/projects';
 
 const discoveredAssets = import.meta.glob(
-  '/KnowledgeBase/**/*.{png,jpg,jpeg,webp,gif}',
+  ['/KnowledgeBase/**/*.{png,jpg,jpeg,webp,gif}', '!/KnowledgeBase/_styles/**'],
   { eager: true, query: '?url', import: 'default' }
 ) as Record<string, string>;
 
@@ -97,19 +121,36 @@ const getNameFromPath = (path: string) => {
   return decodeURIComponent(filename.replace(/\.[^/.]+$/, ''));
 };
 
+// Extra character-sheet views are stored as `<name>__<view>.<ext>` next to the portrait.
+const splitViewName = (name: string) => {
+  const match = name.match(/^(.+)__(.+)$/);
+  if (!match || !parseViewKey(match[2])) return null;
+  return { name: match[1], viewKey: match[2] };
+};
+
 export default function App() {
   const [hasKey, setHasKey] = useState<boolean>(false);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [isScanning, setIsScanning] = useState<boolean>(false);
   const [entities, setEntities] = useState<Entity[]>([]);
+  const [projects, setProjects] = useState<KnowledgeProject[]>(mergeProjects());
+  const [activeProjectId, setActiveProjectId] = useState<string>(
+    () => localStorage.getItem('gemini_active_project') || DEFAULT_PROJECT_ID
+  );
   const [sceneReferences, setSceneReferences] = useState<SceneReference[]>([]);
   const [sceneRefsInjected, setSceneRefsInjected] = useState(false);
+  const [isHydrated, setIsHydrated] = useState(false);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [selectedStylePack, setSelectedStylePack] = useState<string | null>(
+    () => localStorage.getItem('gemini_active_style_pack')
+  );
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   const [activeTab, setActiveTab] = useState<'chat' | 'comic'>('chat');
+  const [isPromptEditorOpen, setIsPromptEditorOpen] = useState(false);
   const envApiKey = process.env.GEMINI_API_KEY || process.env.API_KEY;
 
   const checkKey = async () => {
-    if (envApiKey) {
+    if (envApiKey || !getModelProvider().requiresApiKey) {
       setHasKey(true);
       setIsLoading(false);
       return;
@@ -124,42 +165,134 @@ export default function App() {
   const scanKnowledgeBase = async () => {
     setIsScanning(true);
     try {
-      const manifestUrl = 'KnowledgeBase/index.json';
-      const response = await fetch(manifestUrl, { cache: 'no-cache' });
-
-      const manifestEntries: { name: string; path: string }[] = [];
-      if (response.ok) {
-        const manifest = await response.json();
-        console.log("[Asset Discovery] Manifest loaded:", manifest);
-
-        (manifest.characters || []).forEach((char: any) => {
-          const fullPath = char.path.startsWith('KnowledgeBase/')
-            ? char.path
-            : `KnowledgeBase/${char.path}`;
-          manifestEntries.push({ name: char.name, path: fullPath });
-        });
+      // Prefer the dev server's reconciled listing; static builds only have the raw manifest.
+      let manifest: KnowledgeBaseManifest | null = await listKnowledgeBase();
+      if (!manifest) {
+        const response = await fetch('KnowledgeBase/index.json', { cache: 'no-cache' });
+        manifest = normalizeManifest(response.ok ? await response.json() : {});
       }
+      console.log("[Asset Discovery] Manifest loaded:", manifest);
+
+      // Entries are keyed by project + name so equally named characters of different works stay apart.
+      const manifestEntries: { name: string; project?: string; path: string }[] = [];
+      const profilesByKey = new Map<string, CharacterProfile>();
+      const viewEntries: { name: string; project?: string; viewKey: string; path: string }[] = [];
+      const discoveredProjects: KnowledgeProject[] = [...manifest.projects];
+      const toFullPath = (assetPath: string) => (
+        assetPath.startsWith('KnowledgeBase/') ? assetPath : `KnowledgeBase/${assetPath}`
+      );
+      manifest.characters.forEach(char => {
+        if (char.profile) {
+          profilesByKey.set(getEntityKey(char), char.profile);
+        }
+        if (char.path) {
+          manifestEntries.push({ name: char.name, project: char.project, path: toFullPath(char.path) });
+        }
+        (char.views || []).forEach(view => {
+          viewEntries.push({ name: char.name, project: char.project, viewKey: view.view, path: toFullPath(view.path) });
+        });
+      });
 
-      const folderEntries = Object.entries(discoveredAssets).map(([assetPath, url]) => ({
-        name: getNameFromPath(assetPath),
-        path: url
+      const folderEntries: { name: string; project?: string; path: string }[] = [];
+      Object.entries(discoveredAssets).forEach(([assetPath, url]) => {
+        const name = getNameFromPath(assetPath);
+        const project = getProjectFromAssetPath(assetPath) || undefined;
+        if (project) discoveredProjects.push({ id: project, name: project });
+        const viewName = splitViewName(name);
+        if (viewName) {
+          viewEntries.push({ ...viewName, project, path: url });
+        } else {
+          folderEntries.push({ name, project, path: url });
+        }
+      });
+
+      const discoveryPromises = [...manifestEntries, ...folderEntries].map(async (entry) => ({
+        ...(await processDiscoveredEntity(entry.name, entry.path)),
+        ...(entry.project ? { project: entry.project } : {})
       }));
 
-      const discoveryPromises = [...manifestEntries, ...folderEntries].map((entry) =>
-        processDiscoveredEntity(entry.name, entry.path)
+      const viewResults = await Promise.all(
+        viewEntries.map(async entry => {
+          const loaded = await processDiscoveredEntity(`${entry.name}__${entry.viewKey}`, entry.path);
+          const parsedKey = parseViewKey(entry.viewKey);
+          if (!loaded.imagePreview || !parsedKey) return null;
+          const view: EntityView = {
+            id: loaded.id,
+            ...parsedKey,
+            imagePreview: loaded.imagePreview,
+            base64: loaded.base64,
+            mimeType: loaded.mimeType
+          };
+          return { name: entry.name, project: entry.project, view };
+        })
       );
+      const viewsByKey = new Map<string, { name: string; project?: string; views: EntityView[] }>();
+      viewResults.forEach(result => {
+        if (!result) return;
+        const key = getEntityKey(result);
+        viewsByKey.set(key, {
+          name: result.name,
+          project: result.project,
+          views: mergeEntityViews(viewsByKey.get(key)?.views, [result.view])
+        });
+      });
 
-      const results = await Promise.all(discoveryPromises);
+      const results: Entity[] = (await Promise.all(discoveryPromises)).map(item => ({
+        ...item,
+        ...(viewsByKey.has(getEntityKey(item)) ? { views: viewsByKey.get(getEntityKey(item))!.views } : {}),
+        ...(profilesByKey.has(getEntityKey(item)) ? { profile: profilesByKey.get(getEntityKey(item)) } : {})
+      }));
+      viewsByKey.forEach(({ name, project, views }, key) => {
+        if (results.some(item => getEntityKey(item) === key)) return;
+        // A sheet without a primary portrait: promote its first view so the entity stays usable.
+        results.push({
+          id: `ent_${Math.random().toString(36).substr(2, 9)}`,
+          name,
+          imagePreview: views[0].imagePreview,
+          base64: views[0].base64,
+          mimeType: views[0].mimeType,
+          views,
+          ...(project ? { project } : {}),
+          ...(profilesByKey.has(key) ? { profile: profilesByKey.get(key) } : {})
+        });
+      });
+
+      // Style references on disk replace browser copies, which may have lost their base64 to the quota.
+      const styleRefs: SceneReference[] = (await Promise.all(
+        manifest.styles.map(async style => {
+          const loaded = await processDiscoveredEntity(style.name, toFullPath(style.path));
+          return { ...loaded, pack: style.pack };
+        })
+      )).filter(ref => ref.imagePreview);
+      if (styleRefs.length > 0) {
+        setSceneReferences(prev => {
+          const merged = new Map<string, SceneReference>();
+          prev.forEach(ref => merged.set(getStyleRefKey(ref), ref));
+          styleRefs.forEach(ref => {
+            const existing = merged.get(getStyleRefKey(ref));
+            merged.set(getStyleRefKey(ref), existing?.base64 ? existing : { ...ref, id: existing?.id || ref.id });
+          });
+          return Array.from(merged.values());
+        });
+      }
 
+      setProjects(prev => mergeProjects(prev, discoveredProjects));
       setEntities(prev => {
-        const uniqueMap = new Map();
+        const uniqueMap = new Map<string, Entity>();
         // Keep existing entities first
-        prev.forEach(item => uniqueMap.set(item.name, item));
+        prev.forEach(item => uniqueMap.set(getEntityKey(item), item));
         // Merge new scanned results, prioritizing those with valid previews
         results.forEach(item => {
-          const existing = uniqueMap.get(item.name);
+          const existing = uniqueMap.get(getEntityKey(item));
           if (!existing || item.imagePreview) {
-            uniqueMap.set(item.name, item);
+            uniqueMap.set(getEntityKey(item), {
+              ...item,
+              views: mergeEntityViews(existing?.views, item.views),
+              // Keep whichever profile was edited last (local edits vs. manifest copy).
+              profile: (existing?.profile?.updatedAt || 0) >= (item.profile?.updatedAt || 0)
+                ? existing?.profile || item.profile
+                : item.profile
+            });
           }
         });
         return Array.from(uniqueMap.values());
@@ -174,109 +307,60 @@ export default function App() {
   useEffect(() => {
     const init = async () => {
       console.info('[Env] GEMINI_API_KEY injected:', Boolean(envApiKey));
+      console.info('[Env] Model provider:', getModelProvider().id);
       await checkKey();
-      const savedEntities = localStorage.getItem('gemini_knowledge_base');
-      if (savedEntities) {
-        try {
-          const parsed = JSON.parse(savedEntities);
-          const valid = parsed.map((e: Entity) => ({
-            ...e,
-            imagePreview: e.base64 ? `data:${e.mimeType};base64,${e.base64}` : ''
-          }));
-          setEntities(valid);
-        } catch (e) {
-          console.error("Failed to load cached knowledge base", e);
-        }
+      try {
+        await migrateLegacyStorage();
+        const [storedEntities, storedSceneRefs] = await Promise.all([loadEntities(), loadSceneReferences()]);
+        if (storedEntities) setEntities(storedEntities);
+        if (storedSceneRefs) setSceneReferences(storedSceneRefs);
+      } catch (e) {
+        console.error("[AssetStore] Failed to load cached assets", e);
       }
-      const savedSceneRefs = localStorage.getItem('gemini_scene_refs');
-      if (savedSceneRefs) {
+      const savedProjects = localStorage.getItem('gemini_projects');
+      if (savedProjects) {
         try {
-          const parsed = JSON.parse(savedSceneRefs);
-          const valid = parsed.map((e: SceneReference) => ({
-            ...e,
-            imagePreview: e.base64 ? `data:${e.mimeType};base64,${e.base64}` : ''
-          }));
-          setSceneReferences(valid);
+          setProjects(prev => mergeProjects(prev, JSON.parse(savedProjects)));
         } catch (e) {
-          console.error("Failed to load cached scene references", e);
+          console.error("Failed to load cached projects", e);
         }
       }
+      setIsHydrated(true);
       scanKnowledgeBase();
     };
     init();
   }, []);
 
-  useEffect(() => {
-    const persistEntities = (payload: Entity[]) => {
-      try {
-        localStorage.setItem('gemini_knowledge_base', JSON.stringify(payload));
-        return true;
-      } catch (e) {
-        console.error('[KnowledgeBase] Failed to persist entities', e);
-        return false;
-      }
-    };
-
-    if (entities.length > 0) {
-      const toSave = entities.map(e => ({ ...e, imagePreview: '' })); // Don't save blob URLs
-      if (persistEntities(toSave)) return;
+  const refreshStorageUsage = () => {
+    getStorageUsage()
+      .then(setStorageUsage)
+      .catch(e => console.error('[AssetStore] Failed to read storage usage', e));
+  };
 
-      // Fallback: drop base64 to avoid quota errors
-      const withoutBase64 = entities.map(e => ({
-        ...e,
-        base64: '',
-        imagePreview: ''
-      }));
-      if (persistEntities(withoutBase64)) return;
-
-      // Last resort: minimal metadata only
-      const minimal = entities.map(e => ({
-        id: e.id,
-        name: e.name,
-        mimeType: e.mimeType,
-        base64: '',
-        imagePreview: ''
-      }));
-      persistEntities(minimal);
-    } else {
-      localStorage.removeItem('gemini_knowledge_base');
-    }
-  }, [entities]);
+  // Persistence waits for the initial load so the empty first render never overwrites the cache.
+  useEffect(() => {
+    if (!isHydrated) return;
+    saveEntities(entities)
+      .then(refreshStorageUsage)
+      .catch(e => console.error('[KnowledgeBase] Failed to persist entities', e));
+  }, [entities, isHydrated]);
 
   useEffect(() => {
-    const persistRefs = (payload: SceneReference[]) => {
-      try {
-        localStorage.setItem('gemini_scene_refs', JSON.stringify(payload));
-        return true;
-      } catch (e) {
-        console.error('[SceneRefs] Failed to persist references', e);
-        return false;
-      }
-    };
+    if (!isHydrated) return;
+    localStorage.setItem('gemini_projects', JSON.stringify(projects.filter(project => project.id !== DEFAULT_PROJECT_ID)));
+  }, [projects, isHydrated]);
 
-    if (sceneReferences.length > 0) {
-      const toSave = sceneReferences.map(e => ({ ...e, imagePreview: '' })); // Don't save blob URLs
-      if (persistRefs(toSave)) return;
+  useEffect(() => {
+    localStorage.setItem('gemini_active_project', activeProjectId);
+    setActivePromptProject(activeProjectId);
+  }, [activeProjectId]);
 
-      const withoutBase64 = sceneReferences.map(e => ({
-        ...e,
-        base64: '',
-        imagePreview: ''
-      }));
-      if (persistRefs(withoutBase64)) return;
-
-      const minimal = sceneReferences.map(e => ({
-        id: e.id,
-        name: e.name,
-        mimeType: e.mimeType,
-        base64: '',
-        imagePreview: ''
-      }));
-      persistRefs(minimal);
-    } else {
-      localStorage.removeItem('gemini_scene_refs');
-    }
-  }, [sceneReferences]);
+  useEffect(() => {
+    if (!isHydrated) return;
+    saveSceneReferences(sceneReferences)
+      .then(refreshStorageUsage)
+      .catch(e => console.error('[SceneRefs] Failed to persist references', e));
+  }, [sceneReferences, isHydrated]);
 
   useEffect(() => {
     if (sceneReferences.length === 0 && sceneRefsInjected) {
@@ -284,6 +368,29 @@ export default function App() {
     }
   }, [sceneReferences.length, sceneRefsInjected]);
 
+  const activeStylePack = useMemo(
+    () => resolveActiveStylePack(sceneReferences, selectedStylePack),
+    [sceneReferences, selectedStylePack]
+  );
+  const stylePacks = useMemo(() => groupStylePacks(sceneReferences), [sceneReferences]);
+
+  useEffect(() => {
+    if (selectedStylePack) {
+      localStorage.setItem('gemini_active_style_pack', selectedStylePack);
+    }
+    // A different pack is a different look; let the next image request inject it afresh.
+    setSceneRefsInjected(false);
+  }, [selectedStylePack]);
+
+  const projectEntities = useMemo(() => filterEntitiesByProject(entities, activeProjectId), [entities, activeProjectId]);
+  const setProjectEntities = useMemo(() => scopeEntitySetter(setEntities, activeProjectId), [activeProjectId]);
+
+  const handleCreateProject = async (name: string) => {
+    const created = await createKnowledgeBaseProject(name);
+    setProjects(prev => mergeProjects(prev, [created || { id: name, name }]));
+    setActiveProjectId(created?.id || name);
+  };
+
   const handleSelectKey = async () => {
     if (window.aistudio) {
       try {
@@ -321,8 +428,9 @@ export default function App() {
     );
   }
 
-  const activeCount = entities.filter(e => e.imagePreview).length;
-  const missingCount = entities.length - activeCount;
+  const activeCount = projectEntities.filter(e => e.imagePreview).length;
+  // Profile-only characters have no portrait by design and are not counted as offline.
+  const missingCount = projectEntities.filter(e => !e.imagePreview && !e.profile).length;
 
   return (
     <div className="h-screen w-full bg-white flex overflow-hidden font-sans">
@@ -337,15 +445,23 @@ export default function App() {
         ${isSidebarOpen ? 'translate-x-0' : '-translate-x-full'}
         fixed md:relative md:translate-x-0 z-40 h-full w-80 bg-white border-r border-slate-100 transition-transform duration-300 ease-in-out flex-shrink-0 flex flex-col
       `}>
-        {activeTab === 'comic' && <ComicSessionPanel />}
+        {activeTab === 'chat' && <ChatConversationPanel projectId={activeProjectId} />}
+        {activeTab === 'comic' && <ComicSessionPanel projectId={activeProjectId} />}
         <div className="flex-1 min-h-0">
           <KnowledgeBase
-            entities={entities}
-            setEntities={setEntities}
+            entities={projectEntities}
+            setEntities={setProjectEntities}
             sceneReferences={sceneReferences}
             setSceneReferences={setSceneReferences}
+            activeStylePack={activeStylePack?.name || null}
+            onSelectStylePack={setSelectedStylePack}
+            storageUsage={storageUsage}
             isScanning={isScanning}
             onRescan={scanKnowledgeBase}
+            projectId={activeProjectId}
+            projects={projects}
+            onSelectProject={setActiveProjectId}
+            onCreateProject={handleCreateProject}
           />
         </div>
       </div>
@@ -376,6 +492,14 @@ export default function App() {
                 <LayoutGrid size={12} />
                 AI 漫画
               </button>
+              <button
+                onClick={() => setIsPromptEditorOpen(true)}
+                className="inline-flex items-center gap-2 px-4 py-2 rounded-full text-[11px] font-black uppercase tracking-widest transition-all bg-white border border-slate-200 text-slate-500 hover:text-indigo-600 hover:border-indigo-300"
+                title="编辑当前项目的提示词模板"
+              >
+                <FileText size={12} />
+                提示词
+              </button>
             </div>
 
             <div className="hidden md:flex items-center gap-2">
@@ -403,23 +527,32 @@ export default function App() {
           {activeTab === 'chat' ? (
             <ChatInterface
               onError={() => setHasKey(false)}
-              entities={entities}
-              sceneReferences={sceneReferences}
+              entities={projectEntities}
+              sceneReferences={activeStylePack?.references || []}
               sceneRefsInjected={sceneRefsInjected}
               setSceneRefsInjected={setSceneRefsInjected}
+              projectId={activeProjectId}
             />
           ) : (
             <ComicStudio
               onError={() => setHasKey(false)}
-              entities={entities}
-              setEntities={setEntities}
-              sceneReferences={sceneReferences}
-              sceneRefsInjected={sceneRefsInjected}
-              setSceneRefsInjected={setSceneRefsInjected}
+              entities={projectEntities}
+              setEntities={setProjectEntities}
+              sceneReferences={activeStylePack?.references || []}
+              stylePacks={stylePacks}
+              projectId={activeProjectId}
             />
           )}
         </div>
       </div>
+
+      {isPromptEditorOpen && (
+        <PromptTemplateEditor
+          projectId={activeProjectId}
+          projectName={projects.find(project => project.id === activeProjectId)?.name || activeProjectId}
+          onClose={() => setIsPromptEditorOpen(false)}
+        />
+      )}
     </div>
   );
 }
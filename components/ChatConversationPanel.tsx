@@ -0,0 +1,181 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Clock3, MessagesSquare, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { deleteConversation, listConversations, renameConversation, saveConversation } from '../services/assetStore';
+import {
+  CHAT_CONVERSATION_ACTIVATE_EVENT,
+  CHAT_CONVERSATION_ACTIVE_KEY,
+  CHAT_CONVERSATION_REFRESH_EVENT,
+  CHAT_CONVERSATION_RENAME_EVENT,
+  createConversation,
+  DEFAULT_CONVERSATION_NAME,
+  isConversationInProject,
+  pickActiveConversation
+} from '../services/chatConversations';
+import { ChatConversationMeta } from '../types';
+
+interface ChatConversationPanelProps {
+  /** Only conversations of the active knowledge-base project are listed. */
+  projectId: string;
+}
+
+export const ChatConversationPanel: React.FC<ChatConversationPanelProps> = ({ projectId }) => {
+  const [conversations, setConversations] = useState<ChatConversationMeta[]>([]);
+  const [activeId, setActiveId] = useState<string>('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const refreshConversations = async () => {
+    try {
+      const all = await listConversations();
+      const next = all.filter(conversation => isConversationInProject(conversation, projectId));
+      setConversations(next);
+      const active = pickActiveConversation(next, projectId, localStorage.getItem(CHAT_CONVERSATION_ACTIVE_KEY));
+      setActiveId(active?.id || '');
+    } catch (error) {
+      console.error('[ChatConversations] Failed to list conversations', error);
+    }
+  };
+
+  const activateConversation = (id: string) => {
+    localStorage.setItem(CHAT_CONVERSATION_ACTIVE_KEY, id);
+    setActiveId(id);
+    window.dispatchEvent(new CustomEvent(CHAT_CONVERSATION_ACTIVATE_EVENT, { detail: { conversationId: id } }));
+  };
+
+  const handleCreate = async () => {
+    const conversation = createConversation(projectId);
+    await saveConversation(conversation);
+    activateConversation(conversation.id);
+    await refreshConversations();
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteConversation(id);
+    const next = conversations.filter(conversation => conversation.id !== id);
+    setConversations(next);
+    if (activeId === id) {
+      if (next.length > 0) {
+        activateConversation(next[0].id);
+      } else {
+        await handleCreate();
+      }
+    }
+  };
+
+  const startRename = (conversation: ChatConversationMeta) => {
+    setEditingId(conversation.id);
+    setDraftName(conversation.name);
+  };
+
+  const commitRename = async () => {
+    if (!editingId) return;
+    const id = editingId;
+    const name = draftName.trim() || DEFAULT_CONVERSATION_NAME;
+    setEditingId(null);
+    await renameConversation(id, name);
+    // The open chat keeps its own copy of the name for autosave.
+    window.dispatchEvent(new CustomEvent(CHAT_CONVERSATION_RENAME_EVENT, { detail: { conversationId: id, name } }));
+    await refreshConversations();
+  };
+
+  useEffect(() => {
+    refreshConversations();
+    const handler = () => {
+      refreshConversations();
+    };
+    window.addEventListener(CHAT_CONVERSATION_REFRESH_EVENT, handler);
+    return () => window.removeEventListener(CHAT_CONVERSATION_REFRESH_EVENT, handler);
+  }, [projectId]);
+
+  return (
+    <div className="border-b border-slate-100 p-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="p-2.5 bg-indigo-600 text-white rounded-xl shadow-lg shadow-indigo-200">
+            <MessagesSquare size={18} />
+          </div>
+          <div>
+            <h2 className="text-sm font-bold text-slate-800 leading-none">对话记录</h2>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">Conversations</p>
+          </div>
+        </div>
+        <button
+          onClick={handleCreate}
+          className="inline-flex items-center gap-2 px-3 py-2 rounded-xl text-xs font-semibold bg-slate-900 text-white hover:bg-slate-800 shadow"
+        >
+          <Plus size={12} />
+          新建
+        </button>
+      </div>
+
+      <div className="mt-4 space-y-2 max-h-[280px] overflow-y-auto pr-1">
+        {conversations.length === 0 ? (
+          <div className="text-xs text-slate-400 bg-slate-50 rounded-2xl p-4 text-center border border-slate-100">
+            暂无对话，发送一条消息即可开始。
+          </div>
+        ) : (
+          conversations.map(conversation => {
+            const isActive = conversation.id === activeId;
+            const isEditing = conversation.id === editingId;
+            return (
+              <div
+                key={conversation.id}
+                onClick={() => !isEditing && activateConversation(conversation.id)}
+                className={`w-full text-left p-3 rounded-2xl border transition-all cursor-pointer ${
+                  isActive
+                    ? 'border-indigo-500 bg-indigo-50'
+                    : 'border-slate-100 bg-white hover:border-indigo-200 hover:bg-slate-50'
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0 flex-1">
+                    {isEditing ? (
+                      <input
+                        autoFocus
+                        value={draftName}
+                        onChange={event => setDraftName(event.target.value)}
+                        onClick={event => event.stopPropagation()}
+                        onKeyDown={event => {
+                          if (event.key === 'Enter') commitRename();
+                          if (event.key === 'Escape') setEditingId(null);
+                        }}
+                        className="w-full text-sm font-semibold text-slate-800 bg-white border border-indigo-200 rounded-lg px-2 py-1 outline-none focus:border-indigo-500"
+                      />
+                    ) : (
+                      <p className="text-sm font-semibold text-slate-800 truncate">{conversation.name}</p>
+                    )}
+                    <div className="flex items-center gap-2 text-[10px] text-slate-400 mt-1">
+                      <Clock3 size={10} />
+                      <span>{new Date(conversation.updatedAt).toLocaleString()}</span>
+                    </div>
+                  </div>
+                  <div className="flex items-center" onClick={event => event.stopPropagation()}>
+                    {isEditing ? (
+                      <>
+                        <button onClick={commitRename} className="p-2 text-slate-400 hover:text-emerald-600 transition-colors" title="保存名称">
+                          <Check size={14} />
+                        </button>
+                        <button onClick={() => setEditingId(null)} className="p-2 text-slate-300 hover:text-slate-600 transition-colors" title="取消">
+                          <X size={14} />
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <button onClick={() => startRename(conversation)} className="p-2 text-slate-300 hover:text-indigo-500 transition-colors" title="重命名">
+                          <Pencil size={14} />
+                        </button>
+                        <button onClick={() => handleDelete(conversation.id)} className="p-2 text-slate-300 hover:text-rose-500 transition-colors" title="删除对话">
+                          <Trash2 size={14} />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
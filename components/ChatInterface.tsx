@@ -1,9 +1,28 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { MessageList } from './MessageList';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { BranchPosition, MessageList } from './MessageList';
 import { InputArea } from './InputArea';
-import { GeminiService } from '../services/geminiService';
-import { ChatMessage, Attachment, ChatPart, LoadingStatus, Entity, SceneReference } from '../types';
+import { ChatAttachment, GeminiService, historyHasStyleReferences } from '../services/geminiService';
+import { compactHistory, estimateContentsSize, formatContextSize, resolveContextPolicy } from '../services/contextBudget';
+import { detectMentions } from '../services/mentions';
+import { describeModelError, isModelError } from '../services/modelErrors';
+import { listConversations, loadConversation, saveConversation } from '../services/assetStore';
+import {
+  CHAT_CONVERSATION_ACTIVATE_EVENT,
+  CHAT_CONVERSATION_ACTIVE_KEY,
+  CHAT_CONVERSATION_REFRESH_EVENT,
+  CHAT_CONVERSATION_RENAME_EVENT,
+  buildThreadHistory,
+  createConversation,
+  DEFAULT_CONVERSATION_NAME,
+  deriveConversationName,
+  getLatestLeaf,
+  getSiblings,
+  getThread,
+  linkLegacyMessages,
+  pickActiveConversation
+} from '../services/chatConversations';
+import { ChatMessage, Attachment, ChatPart, LoadingStatus, Entity, SceneReference, ChatConversation, ChatConversationMeta } from '../types';
 import { generateId } from '../utils';
 import { Bot, Sparkles, Cpu, Activity, X } from 'lucide-react';
 
@@ -13,6 +32,8 @@ interface ChatInterfaceProps {
   sceneReferences: SceneReference[];
   sceneRefsInjected: boolean;
   setSceneRefsInjected: React.Dispatch<React.SetStateAction<boolean>>;
+  /** Conversations belong to a knowledge-base project, like Comic Studio sessions. */
+  projectId: string;
 }
 
 export const ChatInterface: React.FC<ChatInterfaceProps> = ({
@@ -20,19 +41,140 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
   entities,
   sceneReferences,
   sceneRefsInjected,
-  setSceneRefsInjected
+  setSceneRefsInjected,
+  projectId
 }) => {
+  // Every message of the conversation tree; only the thread ending at `activeLeafId` is shown.
   const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [activeLeafId, setActiveLeafId] = useState<string | undefined>(undefined);
   const [isLoading, setIsLoading] = useState(false);
   const [loadingStatus, setLoadingStatus] = useState<LoadingStatus>('idle');
   const [showHistory, setShowHistory] = useState(false);
   const [historySnapshot, setHistorySnapshot] = useState<any[]>([]);
   const serviceRef = useRef<GeminiService | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [conversation, setConversation] = useState<ChatConversationMeta | null>(null);
+  // Set by a new turn; the conversation is saved once that turn has finished.
+  const dirtyRef = useRef(false);
+  // Bumped whenever another conversation is opened, so a late reply is not added to it.
+  const conversationTokenRef = useRef(0);
 
   useEffect(() => {
     serviceRef.current = new GeminiService();
   }, []);
 
+  const thread = useMemo(() => getThread(messages, activeLeafId), [messages, activeLeafId]);
+
+  const branches = useMemo(() => {
+    const positions: Record<string, BranchPosition> = {};
+    thread.forEach(message => {
+      const siblings = getSiblings(messages, message);
+      positions[message.id] = { index: siblings.findIndex(sibling => sibling.id === message.id), count: siblings.length };
+    });
+    return positions;
+  }, [messages, thread]);
+
+  const showConversation = (stored: ChatConversation) => {
+    const { messages: storedMessages, history, sceneRefsInjected: injected, activeLeafId: storedLeafId, ...meta } = stored;
+    const linked = linkLegacyMessages(storedMessages, history);
+    const leafId = linked.some(message => message.id === storedLeafId) ? storedLeafId : linked[linked.length - 1]?.id;
+    serviceRef.current = new GeminiService(buildThreadHistory(getThread(linked, leafId)));
+    dirtyRef.current = false;
+    setMessages(linked);
+    setActiveLeafId(leafId);
+    setConversation(meta);
+    setSceneRefsInjected(Boolean(injected));
+    setHistorySnapshot(serviceRef.current.getHistory());
+    localStorage.setItem(CHAT_CONVERSATION_ACTIVE_KEY, stored.id);
+  };
+
+  const openConversation = async (id: string) => {
+    const token = ++conversationTokenRef.current;
+    abortRef.current?.abort();
+    const stored = await loadConversation(id);
+    if (stored && token === conversationTokenRef.current) showConversation(stored);
+  };
+
+  const startConversation = async () => {
+    const token = ++conversationTokenRef.current;
+    abortRef.current?.abort();
+    const fresh = createConversation(projectId);
+    await saveConversation(fresh);
+    if (token !== conversationTokenRef.current) return;
+    showConversation(fresh);
+    window.dispatchEvent(new CustomEvent(CHAT_CONVERSATION_REFRESH_EVENT));
+  };
+
+  // Reopen the project's remembered (or latest) conversation, or start one.
+  useEffect(() => {
+    let cancelled = false;
+    const restore = async () => {
+      try {
+        const active = pickActiveConversation(await listConversations(), projectId, localStorage.getItem(CHAT_CONVERSATION_ACTIVE_KEY));
+        // A superseded run (project switched again, or the StrictMode re-run) must not create a second conversation.
+        if (cancelled) return;
+        if (active) {
+          await openConversation(active.id);
+        } else {
+          await startConversation();
+        }
+      } catch (error) {
+        console.error('[ChatConversations] Failed to restore conversation', error);
+      }
+    };
+    restore();
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  useEffect(() => {
+    const handleActivate = (event: Event) => {
+      const id = (event as CustomEvent<{ conversationId?: string }>).detail?.conversationId;
+      if (!id || id === conversation?.id) return;
+      openConversation(id).catch(error => console.error('[ChatConversations] Failed to open conversation', error));
+    };
+    const handleRename = (event: Event) => {
+      const { conversationId, name } = (event as CustomEvent<{ conversationId?: string; name?: string }>).detail || {};
+      if (!name) return;
+      setConversation(prev => (prev && prev.id === conversationId ? { ...prev, name } : prev));
+    };
+    window.addEventListener(CHAT_CONVERSATION_ACTIVATE_EVENT, handleActivate);
+    window.addEventListener(CHAT_CONVERSATION_RENAME_EVENT, handleRename);
+    return () => {
+      window.removeEventListener(CHAT_CONVERSATION_ACTIVATE_EVENT, handleActivate);
+      window.removeEventListener(CHAT_CONVERSATION_RENAME_EVENT, handleRename);
+    };
+  }, [conversation?.id]);
+
+  // Saved after each finished (or stopped) turn and branch switch, never mid-stream.
+  useEffect(() => {
+    if (isLoading || !dirtyRef.current || !conversation) return;
+    dirtyRef.current = false;
+    const updatedAt = Date.now();
+    saveConversation({
+      ...conversation,
+      updatedAt,
+      messages,
+      history: buildThreadHistory(thread),
+      sceneRefsInjected,
+      activeLeafId
+    })
+      .then(() => window.dispatchEvent(new CustomEvent(CHAT_CONVERSATION_REFRESH_EVENT)))
+      .catch(error => console.error('[ChatConversations] Failed to save conversation', error));
+  }, [messages, thread, isLoading, conversation, sceneRefsInjected, activeLeafId]);
+
+  // Outside a turn the service holds the history of the thread on screen, so switching branches
+  // changes what the next message continues from.
+  useEffect(() => {
+    if (isLoading || !serviceRef.current) return;
+    serviceRef.current.resetHistory(buildThreadHistory(thread));
+    setHistorySnapshot(serviceRef.current.getHistory());
+  }, [thread, isLoading]);
+
+  // What the next turn would send of the history, before its own parts are known.
+  const historyUsage = useMemo(() => compactHistory(historySnapshot, [], resolveContextPolicy()).usage, [historySnapshot]);
+
   const refreshHistory = () => {
     if (!serviceRef.current) return;
     setHistorySnapshot(serviceRef.current.getHistory());
@@ -44,11 +186,35 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     }
   }, [showHistory]);
 
-  const handleSendMessage = async (text: string, attachments: Attachment[]) => {
+  // Streamed replies keep their id, so each update replaces the previous snapshot.
+  const upsertMessage = (message: ChatMessage) => {
+    setMessages(prev => {
+      const index = prev.findIndex(item => item.id === message.id);
+      if (index === -1) return [...prev, message];
+      const next = [...prev];
+      next[index] = message;
+      return next;
+    });
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  /**
+   * Sends one turn. `parentId` is the message it follows: the current leaf for a new message,
+   * the parent of the edited message for an edit. A regeneration passes the existing user message
+   * instead of creating one, so the new reply becomes a sibling of the old one.
+   */
+  const runTurn = async (
+    text: string,
+    attachments: ChatAttachment[],
+    { parentId, userMessage: existingUserMessage }: { parentId?: string; userMessage?: ChatMessage }
+  ) => {
     if (!serviceRef.current) return;
 
-    // Detect character mentions for JIT injection
-    const mentions: Entity[] = entities.filter(entity => text.includes(`@${entity.name}`));
+    // Detect character mentions (names and aliases) for JIT injection; ambiguous aliases are not injected
+    const { mentions } = detectMentions(text, entities);
 
     let status: LoadingStatus = 'thinking';
     const lowerText = text.toLowerCase();
@@ -68,51 +234,104 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     });
     if (text) userParts.push({ text });
 
-    const userMessage: ChatMessage = {
+    const userMessage: ChatMessage = existingUserMessage || {
       id: generateId(),
       role: 'user',
       parts: userParts,
       timestamp: Date.now(),
+      parentId,
+    };
+    // The reply continues the thread up to the user message, whichever branch was on screen.
+    const history = buildThreadHistory(getThread(messages, userMessage.parentId));
+    serviceRef.current.resetHistory(history);
+
+    const token = conversationTokenRef.current;
+    const isCurrent = () => token === conversationTokenRef.current;
+    const showReply = (message: ChatMessage) => {
+      if (!isCurrent()) return;
+      upsertMessage({ ...message, parentId: userMessage.id });
+      setActiveLeafId(message.id);
     };
 
-    setMessages((prev) => [...prev, userMessage]);
+    dirtyRef.current = true;
+    if (conversation?.name === DEFAULT_CONVERSATION_NAME && text.trim()) {
+      setConversation(prev => (prev ? { ...prev, name: deriveConversationName(text) } : prev));
+    }
+    if (!existingUserMessage) setMessages((prev) => [...prev, userMessage]);
+    setActiveLeafId(userMessage.id);
     setIsLoading(true);
     setLoadingStatus(status);
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
-      const shouldInjectSceneRefs = isImageRequest && sceneReferences.length > 0 && !sceneRefsInjected;
+      // A branch cut before the style block needs it again, as does a newly selected style pack.
+      const shouldInjectSceneRefs = isImageRequest && sceneReferences.length > 0
+        && (!sceneRefsInjected || !historyHasStyleReferences(history));
       const responseMessage = await serviceRef.current.sendMessage(
         text,
         attachments,
         entities,
         mentions,
         sceneReferences,
-        shouldInjectSceneRefs
+        shouldInjectSceneRefs,
+        { onUpdate: showReply, signal: controller.signal }
       );
-      setMessages((prev) => [...prev, responseMessage]);
+      // The user switched conversations mid-turn; that turn was cancelled and is not kept.
+      if (!isCurrent()) return;
+      showReply(responseMessage);
       if (shouldInjectSceneRefs) {
         setSceneRefsInjected(true);
       }
       refreshHistory();
     } catch (error: any) {
       console.error("Chat Error:", error);
-      if (error.message === 'API_KEY_INVALID') {
+      if (isModelError(error, 'auth')) {
           onError();
           return;
       }
-      setMessages((prev) => [...prev, {
+      showReply({
         id: generateId(),
         role: 'model',
-        parts: [{ text: "System overload. Failed to process neural request. Please verify connection." }],
+        parts: [{ text: describeModelError(error) }],
         timestamp: Date.now(),
         isError: true,
-      }]);
+      });
     } finally {
+      if (abortRef.current === controller) abortRef.current = null;
       setIsLoading(false);
       setLoadingStatus('idle');
     }
   };
 
+  const handleSendMessage = (text: string, attachments: Attachment[]) =>
+    runTurn(text, attachments, { parentId: activeLeafId });
+
+  // Attachments of the original message are resent as they were; only the text is edited.
+  const imageAttachmentsOf = (message: ChatMessage): ChatAttachment[] =>
+    message.parts.flatMap(part => (part.inlineData ? [{ base64: part.inlineData.data, mimeType: part.inlineData.mimeType }] : []));
+
+  const textOf = (message: ChatMessage) => message.parts.map(part => part.text).filter(Boolean).join('\n');
+
+  const handleEditMessage = (message: ChatMessage, text: string) =>
+    runTurn(text, imageAttachmentsOf(message), { parentId: message.parentId });
+
+  const handleRegenerate = (message: ChatMessage) => {
+    const userMessage = messages.find(item => item.id === message.parentId);
+    if (!userMessage) return;
+    return runTurn(textOf(userMessage), imageAttachmentsOf(userMessage), { userMessage });
+  };
+
+  const handleSelectBranch = (messageId: string, offset: number) => {
+    const message = messages.find(item => item.id === messageId);
+    if (!message) return;
+    const siblings = getSiblings(messages, message);
+    const target = siblings[siblings.findIndex(sibling => sibling.id === messageId) + offset];
+    if (!target) return;
+    dirtyRef.current = true;
+    setActiveLeafId(getLatestLeaf(messages, target.id));
+  };
+
   const resolveHistoryEntry = (entry: any) => {
     if (!entry) return { role: 'model', parts: [] as any[] };
     if (entry.parts) return { role: entry.role || 'model', parts: entry.parts };
@@ -192,11 +411,15 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
       <div className="flex-1 overflow-hidden relative bg-slate-50/10">
         <div className="absolute inset-0">
              <MessageList 
-                messages={messages} 
+                messages={thread} 
                 isTyping={isLoading} 
                 loadingStatus={loadingStatus}
                 onSuggestionClick={(text) => handleSendMessage(text, [])}
                 entities={entities}
+                branches={branches}
+                onSelectBranch={handleSelectBranch}
+                onEditMessage={handleEditMessage}
+                onRegenerate={handleRegenerate}
              />
         </div>
         {showHistory && (
@@ -206,7 +429,14 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
                 <div>
                   <div className="text-xs font-bold text-slate-400 uppercase tracking-[0.2em]">Trace</div>
                   <div className="text-base font-black text-slate-900">当前上下文 History</div>
-                  <div className="text-[11px] text-slate-500 mt-1">共 {historySnapshot.length} 条记录</div>
+                  <div className="text-[11px] text-slate-500 mt-1">
+                    共 {historySnapshot.length} 条记录 · {formatContextSize(historyUsage.history)}
+                  </div>
+                  {historyUsage.omittedImages > 0 && (
+                    <div className="text-[11px] text-amber-600 mt-0.5">
+                      下一轮发送时省略 {historyUsage.omittedImages} 张旧图，{formatContextSize(historyUsage.sentHistory)}
+                    </div>
+                  )}
                 </div>
                 <button
                   onClick={() => setShowHistory(false)}
@@ -224,8 +454,11 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
                   const { role, parts } = resolveHistoryEntry(entry);
                   return (
                     <div key={`history-entry-${index}`} className="border border-slate-200 rounded-2xl p-4 bg-slate-50">
-                      <div className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-500">
-                        {role === 'user' ? 'User' : 'Model'} · #{index + 1}
+                      <div className="flex items-center justify-between gap-2 text-[10px] font-black uppercase tracking-[0.2em] text-slate-500">
+                        <span>{role === 'user' ? 'User' : 'Model'} · #{index + 1}</span>
+                        <span className="font-mono font-semibold normal-case tracking-normal text-slate-400">
+                          {formatContextSize(estimateContentsSize([{ parts }]))}
+                        </span>
                       </div>
                       <div className="mt-3 space-y-3">
                         {parts?.length ? parts.map(renderHistoryPart) : (
@@ -247,6 +480,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
           onSend={(text, attachments) => handleSendMessage(text, attachments)} 
           isLoading={isLoading} 
           entities={entities} 
+          onStop={handleStop}
         />
       </div>
     </div>
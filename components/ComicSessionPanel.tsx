@@ -1,5 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { Plus, Trash2, Clock3, Folder } from 'lucide-react';
+import { deleteWorkshopHistory } from '../services/assetStore';
+import { DEFAULT_PROJECT_ID } from '../services/projects';
 import { generateId } from '../utils';
 
 const SESSION_ACTIVE_KEY = 'comicStudioSessionActive';
@@ -9,6 +11,7 @@ const SESSION_PREFIX = 'comicStudioSession:';
 interface SessionMeta {
   id: string;
   name: string;
+  projectId?: string;
   createdAt: number;
   updatedAt: number;
 }
@@ -16,6 +19,7 @@ interface SessionMeta {
 interface ComicStudioSession {
   sessionId: string;
   name: string;
+  projectId?: string;
   createdAt: number;
   step: string;
   novelText: string;
@@ -32,14 +36,22 @@ const loadIndex = () => {
   return index.sort((a, b) => b.updatedAt - a.updatedAt);
 };
 
-export const ComicSessionPanel: React.FC = () => {
+const isInProject = (session: SessionMeta, projectId: string) => (session.projectId || DEFAULT_PROJECT_ID) === projectId;
+
+interface ComicSessionPanelProps {
+  /** Only sessions of the active knowledge-base project are listed. */
+  projectId: string;
+}
+
+export const ComicSessionPanel: React.FC<ComicSessionPanelProps> = ({ projectId }) => {
   const [sessions, setSessions] = useState<SessionMeta[]>([]);
   const [activeId, setActiveId] = useState<string>('');
 
   const refreshSessions = () => {
-    const next = loadIndex();
+    const next = loadIndex().filter(session => isInProject(session, projectId));
     setSessions(next);
-    const active = localStorage.getItem(SESSION_ACTIVE_KEY) || next[0]?.id || '';
+    const storedActive = localStorage.getItem(SESSION_ACTIVE_KEY) || '';
+    const active = next.some(session => session.id === storedActive) ? storedActive : next[0]?.id || '';
     setActiveId(active);
   };
 
@@ -56,6 +68,7 @@ export const ComicSessionPanel: React.FC = () => {
     const payload: ComicStudioSession = {
       sessionId: id,
       name,
+      projectId,
       createdAt,
       step: 'input',
       novelText: '',
@@ -67,17 +80,18 @@ export const ComicSessionPanel: React.FC = () => {
     };
     localStorage.setItem(`${SESSION_PREFIX}${id}`, JSON.stringify(payload));
     const existingIndex = loadIndex();
-    const nextIndex = [{ id, name, createdAt, updatedAt: createdAt }, ...existingIndex.filter(session => session.id !== id)];
+    const nextIndex = [{ id, name, projectId, createdAt, updatedAt: createdAt }, ...existingIndex.filter(session => session.id !== id)];
     localStorage.setItem(SESSION_INDEX_KEY, JSON.stringify(nextIndex));
     activateSession(id);
-    setSessions(nextIndex);
+    setSessions(nextIndex.filter(session => isInProject(session, projectId)));
     window.dispatchEvent(new CustomEvent('comic-session-refresh'));
   };
 
   const deleteSession = (id: string) => {
     localStorage.removeItem(`${SESSION_PREFIX}${id}`);
+    deleteWorkshopHistory(id).catch(error => console.error('[ComicStudio] Failed to delete workshop history', error));
+    localStorage.setItem(SESSION_INDEX_KEY, JSON.stringify(loadIndex().filter(session => session.id !== id)));
     const next = sessions.filter(session => session.id !== id);
-    localStorage.setItem(SESSION_INDEX_KEY, JSON.stringify(next));
     setSessions(next);
     if (activeId === id) {
       if (next.length > 0) {
@@ -94,7 +108,7 @@ export const ComicSessionPanel: React.FC = () => {
     const handler = () => refreshSessions();
     window.addEventListener('comic-session-refresh', handler);
     return () => window.removeEventListener('comic-session-refresh', handler);
-  }, []);
+  }, [projectId]);
 
   return (
     <div className="border-b border-slate-100 p-6">
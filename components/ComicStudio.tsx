@@ -1,97 +1,101 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
-import { Activity, AlertCircle, BookOpen, Camera, ChevronRight, Film, Image as ImageIcon, Loader2, RefreshCw, Sparkles, Trash2, Upload, Users, X } from 'lucide-react';
+import { Activity, AlertCircle, BookOpen, Camera, ChevronRight, Download, Film, Image as ImageIcon, Loader2, Plus, RefreshCw, Sparkles, WandSparkles, Square, Trash2, Upload, Users, X } from 'lucide-react';
 import sampleChapter from '../assets/凡人修仙传 第五卷 名震一方 第七百三十六章 破阵大战（一）.txt?raw';
 import {
   extractWorkshopEntities,
-  generateWorkshopImage,
   generateWorkshopStoryboard,
-  getWorkshopHistory,
-  resetWorkshopHistory,
+  rewriteStoryboardPages,
   WorkshopCharacter,
   WorkshopItem,
-  WorkshopScene
+  WorkshopScene,
+  WorkshopSession
 } from '../services/comicStudioService';
-import { Entity, SceneReference } from '../types';
-import { compressDataUrl, generateId } from '../utils';
+import { ART_STYLE_PRESETS, DEFAULT_ART_STYLE_ID, getArtStylePreset, resolvePresetStyleReferences } from '../services/artStyles';
+import { applyProfileToCharacter, mergeProfiles, profileFromCharacter, ROLE_LABELS } from '../services/characterProfiles';
+import { findEntityByName, resolveMention } from '../services/mentions';
+import { saveKnowledgeBaseAsset, updateKnowledgeBaseProfile } from '../services/knowledgeBaseApi';
+import { COMIC_EXPORT_FORMATS, ComicExportFormat, exportComic, exportFileName } from '../services/comicExport';
+import { burnInLettering, Lettering, placePageLettering } from '../services/lettering';
+import { findChapterHeadings, formatCoverage, splitNovel, STORYBOARD_CHUNK } from '../services/novelChunks';
+import { composePage, DEFAULT_PAGE_LAYOUT, frameAspectRatio, layoutPanels, PAGE_LAYOUTS, PageLayoutId } from '../services/pageLayouts';
+import { groupStoryboardPages, insertPage, replacePages, StoryboardEdit } from '../services/storyboardEditor';
+import { DEFAULT_PROJECT_ID } from '../services/projects';
+import { StylePack } from '../services/stylePacks';
+import {
+  deletePanelRenders,
+  deleteWorkshopHistory,
+  getPageRender,
+  getPanelRender,
+  loadWorkshopHistory,
+  remapPageRenders,
+  savePageRender,
+  savePanelRender,
+  saveWorkshopHistory
+} from '../services/assetStore';
+import { isAbortError } from '../services/modelStream';
+import { formatPromptRef, PromptTemplateRef } from '../services/promptTemplates';
+import { describeModelError, isModelError } from '../services/modelErrors';
+import { describeView, ENTITY_VIEW_LABELS, getEntityViews, getViewKey, selectEntityViews } from '../services/entityViews';
+import { CharacterProfile, Entity, EntityView, EntityViewLabel, SceneReference } from '../types';
+import { compressDataUrl, generateId, parseDataUrl } from '../utils';
+import { LetteringLayer } from './LetteringLayer';
+import { StoryboardEditor } from './StoryboardEditor';
 
 interface ComicStudioProps {
   entities: Entity[];
   onError: () => void;
   setEntities: React.Dispatch<React.SetStateAction<Entity[]>>;
   sceneReferences: SceneReference[];
-  sceneRefsInjected: boolean;
-  setSceneRefsInjected: React.Dispatch<React.SetStateAction<boolean>>;
+  /** All style packs; a session's art-style preset may bring its own. */
+  stylePacks: StylePack[];
+  /** Active knowledge-base project; `entities` are already scoped to it. */
+  projectId: string;
 }
 
 type AppStep = 'input' | 'analysis' | 'storyboard' | 'render';
 
-const parseDataUrl = (dataUrl?: string | null) => {
-  if (!dataUrl || !dataUrl.includes('base64,')) return null;
-  const [meta, data] = dataUrl.split(',');
-  const match = meta.match(/data:(.*);base64/);
-  const mimeType = match?.[1] || 'image/png';
-  return { base64: data, mimeType };
-};
-
 const ensureAtName = (name: string) => (name.startsWith('@') ? name : `@${name}`);
 const stripAtName = (name: string) => name.replace(/^@/, '');
 
-const ASSET_DB_NAME = 'comicStudioAssets';
-const ASSET_STORE = 'pageRenders';
-
-const openAssetDb = () =>
-  new Promise<IDBDatabase>((resolve, reject) => {
-    const request = indexedDB.open(ASSET_DB_NAME, 1);
-    request.onupgradeneeded = () => {
-      const db = request.result;
-      if (!db.objectStoreNames.contains(ASSET_STORE)) {
-        db.createObjectStore(ASSET_STORE);
-      }
-    };
-    request.onsuccess = () => resolve(request.result);
-    request.onerror = () => reject(request.error);
-  });
-
-const savePageRenderImage = async (sessionId: string, pageNumber: number, imageUrl: string) => {
-  if (!sessionId || !imageUrl) return;
-  const db = await openAssetDb();
-  await new Promise<void>((resolve, reject) => {
-    const tx = db.transaction(ASSET_STORE, 'readwrite');
-    tx.objectStore(ASSET_STORE).put({ imageUrl, updatedAt: Date.now() }, `${sessionId}:${pageNumber}`);
-    tx.oncomplete = () => resolve();
-    tx.onerror = () => reject(tx.error);
-  });
+const SHEET_VIEW_PROMPTS: Record<Exclude<EntityViewLabel, 'front' | 'outfit'>, string> = {
+  profile: 'Side profile portrait, head and shoulders, neutral background',
+  back: 'Back view, full body from behind, neutral background',
+  fullBody: 'Full-body character sheet, standing pose, head to toe, neutral background',
+  expressions: 'Expression sheet: four close-up faces (calm, angry, smiling, shocked) in a 2x2 grid'
 };
 
-const deletePageRenderImage = async (sessionId: string, pageNumber: number) => {
-  if (!sessionId) return;
-  const db = await openAssetDb();
-  await new Promise<void>((resolve, reject) => {
-    const tx = db.transaction(ASSET_STORE, 'readwrite');
-    tx.objectStore(ASSET_STORE).delete(`${sessionId}:${pageNumber}`);
-    tx.oncomplete = () => resolve();
-    tx.onerror = () => reject(tx.error);
-  });
-};
-
-const getPageRenderImage = async (sessionId: string, pageNumber: number) => {
-  if (!sessionId) return '';
-  const db = await openAssetDb();
-  return await new Promise<string>((resolve, reject) => {
-    const tx = db.transaction(ASSET_STORE, 'readonly');
-    const req = tx.objectStore(ASSET_STORE).get(`${sessionId}:${pageNumber}`);
-    req.onsuccess = () => resolve(req.result?.imageUrl || '');
-    req.onerror = () => reject(req.error);
-  });
-};
+// Dialogue is lettered as a vector layer, so the model only leaves room for it.
+const NO_LETTERING_PROMPT = 'Do not draw any text, captions or speech balloons; the dialogue is lettered separately, so leave some calm space for it.';
 
 const SESSION_ACTIVE_KEY = 'comicStudioSessionActive';
 const SESSION_INDEX_KEY = 'comicStudioSessionIndex';
 const SESSION_PREFIX = 'comicStudioSession:';
 
+/** How far into the novel text (in characters) each stage has got. */
+interface TextCoverage {
+  extraction?: number;
+  storyboard?: number;
+}
+
+type RenderedImage = { imageUrl: string; lastUsedPrompt?: string };
+
+/** 'page' renders each page as one image; 'panels' renders panels one by one and composes the page. */
+type RenderMode = 'page' | 'panels';
+
+// Moves page-keyed state to the new page numbers after a storyboard edit; removed pages drop out.
+const remapByPage = <T,>(byPage: Record<number, T>, pageMap: Record<number, number>) => {
+  const next: Record<number, T> = {};
+  Object.entries(byPage).forEach(([key, value]) => {
+    const pageNumber = pageMap[Number(key)];
+    if (pageNumber) next[pageNumber] = value;
+  });
+  return next;
+};
+
 interface ComicStudioSession {
   sessionId: string;
   name: string;
+  projectId?: string;
   createdAt: number;
   step: AppStep;
   novelText: string;
@@ -99,6 +103,13 @@ interface ComicStudioSession {
   items: WorkshopItem[];
   storyboard: WorkshopScene[];
   pageRenders: Record<number, { imageUrl: string; lastUsedPrompt?: string }>;
+  promptTemplates?: PromptTemplateRef[]; // Template versions behind the current analysis and storyboard
+  artStyleId?: string; // Art-style preset; older sessions use the default
+  coverage?: TextCoverage;
+  renderMode?: RenderMode; // Older sessions render whole pages
+  pageLayouts?: Record<number, PageLayoutId>;
+  panelRenders?: Record<string, RenderedImage>; // By panel id; the images themselves live in IndexedDB
+  lettering?: Record<number, Lettering[]>; // Balloons and captions per page, burned in only on download
   updatedAt: number;
 }
 
@@ -107,8 +118,8 @@ export const ComicStudio: React.FC<ComicStudioProps> = ({
   onError,
   setEntities,
   sceneReferences,
-  sceneRefsInjected,
-  setSceneRefsInjected
+  stylePacks,
+  projectId
 }) => {
   const [step, setStep] = useState<AppStep>('input');
   const [novelText, setNovelText] = useState('');
@@ -116,38 +127,117 @@ export const ComicStudio: React.FC<ComicStudioProps> = ({
   const [items, setItems] = useState<WorkshopItem[]>([]);
   const [storyboard, setStoryboard] = useState<WorkshopScene[]>([]);
   const [pageRenders, setPageRenders] = useState<Record<number, { imageUrl: string; lastUsedPrompt?: string }>>({});
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplateRef[]>([]);
+  const [artStyleId, setArtStyleId] = useState(DEFAULT_ART_STYLE_ID);
+  const [coverage, setCoverage] = useState<TextCoverage>({});
+  const [renderMode, setRenderMode] = useState<RenderMode>('page');
+  const [pageLayouts, setPageLayouts] = useState<Record<number, PageLayoutId>>({});
+  const [panelRenders, setPanelRenders] = useState<Record<string, RenderedImage>>({});
+  const [lettering, setLettering] = useState<Record<number, Lettering[]>>({});
+  const [exportFormat, setExportFormat] = useState<ComicExportFormat>('cbz');
+  const [pageRewrite, setPageRewrite] = useState<{ fromPage: number; toPage: number; instruction: string } | null>(null);
   const [sessionId, setSessionId] = useState<string>('');
   const [sessionName, setSessionName] = useState<string>('');
+  const [sessionProjectId, setSessionProjectId] = useState<string>(projectId);
   const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
   const [loading, setLoading] = useState(false);
   const [loadingMsg, setLoadingMsg] = useState('');
   const [errorMessage, setErrorMessage] = useState('');
-  const [showPromptId, setShowPromptId] = useState<string | null>(null);
   const [showHistory, setShowHistory] = useState(false);
   const [historySnapshot, setHistorySnapshot] = useState<any[]>([]);
   const [historyClearedAt, setHistoryClearedAt] = useState<number | null>(null);
   const renderRequestIdRef = useRef<Record<number, string>>({});
+  const abortRef = useRef<AbortController | null>(null);
+  // Image-generation context of the open session; replaced whenever another session is opened.
+  const workshopRef = useRef(new WorkshopSession());
+  const sessionIdRef = useRef('');
+
+  const renderTemplateRef = (id: PromptTemplateRef['id']) => {
+    const ref = promptTemplates.find(item => item.id === id);
+    return ref ? <p className="text-[10px] font-mono text-slate-500">提示词模板 {formatPromptRef(ref)}</p> : null;
+  };
+
+  const novelChunks = useMemo(() => splitNovel(novelText, STORYBOARD_CHUNK), [novelText]);
+  const storyboardRemaining = storyboard.length > 0 && (coverage.storyboard ?? novelText.length) < novelText.length;
+
+  // One segment per storyboard chunk, lit once the stage has got past it.
+  const renderCoverage = (label: string, covered?: number) => {
+    if (covered === undefined || !novelText) return null;
+    return (
+      <div className="space-y-1">
+        <div className="flex gap-0.5 h-1.5 max-w-xs">
+          {novelChunks.map(chunk => (
+            <div
+              key={chunk.index}
+              title={`第 ${chunk.index + 1} 段${chunk.heading ? ` · ${chunk.heading}` : ''}（${chunk.start + 1}–${chunk.end} 字）`}
+              className={`flex-1 rounded-full ${chunk.end <= covered ? 'bg-emerald-400' : 'bg-slate-700'}`}
+            />
+          ))}
+        </div>
+        <p className="text-[10px] text-slate-500">{label}{formatCoverage(covered, novelText.length)}</p>
+      </div>
+    );
+  };
 
   const existingEntityCount = useMemo(() => entities.length, [entities]);
+  // Session characters read their text from the knowledge-base profile, so sidebar edits apply here too.
+  const resolvedCharacters = useMemo(
+    () => characters.map(char => {
+      const profile = findEntityByName(entities, char.name)?.profile;
+      return profile ? applyProfileToCharacter(char, profile) : char;
+    }),
+    [characters, entities]
+  );
+
+  // Storyboard names may use an alias (e.g. @韩老魔); match them against the character and the alias table.
+  const refersToCharacter = (sceneName: string, char: WorkshopCharacter) => {
+    const target = stripAtName(sceneName);
+    if (target === stripAtName(char.name) || (char.aliases || []).some(alias => stripAtName(alias) === target)) {
+      return true;
+    }
+    const resolved = resolveMention(entities, target).entity;
+    return Boolean(resolved && resolved.name === stripAtName(char.name));
+  };
+
+  const canonicalSceneName = (sceneName: string) => {
+    const char = resolvedCharacters.find(c => refersToCharacter(sceneName, c));
+    if (char) return ensureAtName(char.name);
+    const resolved = resolveMention(entities, sceneName).entity;
+    return ensureAtName(resolved ? resolved.name : stripAtName(sceneName));
+  };
   const hasStoryboard = storyboard.length > 0;
   const hasRenderedImage = Object.values(pageRenders).some(page => Boolean(page.imageUrl));
 
-  const storyboardPages = useMemo(() => {
-    const pageMap = new Map<number, WorkshopScene[]>();
-    storyboard.forEach(scene => {
-      const pageNumber = scene.pageNumber || 1;
-      if (!pageMap.has(pageNumber)) {
-        pageMap.set(pageNumber, []);
-      }
-      pageMap.get(pageNumber)?.push(scene);
-    });
-    return Array.from(pageMap.entries())
-      .map(([pageNumber, panels]) => ({
-        pageNumber,
-        panels: panels.sort((a, b) => (a.panelNumber || a.sceneNumber) - (b.panelNumber || b.sceneNumber))
-      }))
-      .sort((a, b) => a.pageNumber - b.pageNumber);
-  }, [storyboard]);
+  const storyboardPages = useMemo(() => groupStoryboardPages(storyboard), [storyboard]);
+
+  // Drops the renders of panels that no longer exist, here and in the asset store.
+  const dropPanelRenders = (panelIds: string[]) => {
+    if (panelIds.length === 0) return;
+    setPanelRenders(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => !panelIds.includes(id))));
+    deletePanelRenders(sessionId, panelIds)
+      .catch(error => console.error('[ComicStudio] Failed to delete panel renders', error));
+  };
+
+  // Edits renumber pages; renders and layouts follow their page, and a deleted page's render goes with it.
+  // Panel renders are keyed by panel id, so only those of deleted panels go.
+  const applyStoryboardEdit = ({ scenes, pageMap }: StoryboardEdit) => {
+    setStoryboard(scenes);
+    const panelIds = new Set(scenes.map(scene => scene.id));
+    dropPanelRenders(Object.keys(panelRenders).filter(id => !panelIds.has(id)));
+    setPageLayouts(prev => remapByPage(prev, pageMap));
+    setLettering(prev => remapByPage(prev, pageMap));
+    const pageNumbers = Object.keys(pageRenders).map(Number);
+    if (pageNumbers.every(pageNumber => pageMap[pageNumber] === pageNumber)) return;
+    setPageRenders(prev => remapByPage(prev, pageMap));
+    remapPageRenders(sessionId, pageNumbers, pageMap)
+      .catch(error => console.error('[ComicStudio] Failed to move page renders', error));
+  };
+
+  const getMentionWarning = (name: string) => {
+    const { candidates } = resolveMention(entities, name);
+    const isAmbiguous = candidates.length > 1 && !resolvedCharacters.some(c => refersToCharacter(name, c));
+    return isAmbiguous ? `别名冲突：${candidates.map(entity => entity.name).join(' / ')}` : undefined;
+  };
 
   const navItems = [
     { id: 'input', label: '1. 小说导入', icon: BookOpen },
@@ -156,27 +246,66 @@ export const ComicStudio: React.FC<ComicStudioProps> = ({
     { id: 'render', label: '4. 漫画预览', icon: ImageIcon }
   ];
 
-  const withLoading = async (msg: string, fn: () => Promise<void>) => {
+  // Each operation gets its own signal; Stop, a session switch or unmounting aborts it.
+  const withLoading = async (msg: string, fn: (signal: AbortSignal) => Promise<void>) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
     setLoading(true);
     setLoadingMsg(msg);
     setErrorMessage('');
     try {
-      await fn();
+      await fn(controller.signal);
     } catch (error: any) {
+      if (controller.signal.aborted || isAbortError(error)) return;
       console.error(error);
-      if (error?.message?.includes('Requested entity was not found') || error?.status === 404) {
+      if (isModelError(error, 'auth')) {
         onError();
         return;
       }
-      setErrorMessage('操作失败，请稍后重试。');
+      setErrorMessage(describeModelError(error));
     } finally {
+      if (abortRef.current === controller) abortRef.current = null;
       setLoading(false);
       setLoadingMsg('');
     }
   };
 
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
   const refreshHistory = () => {
-    setHistorySnapshot(getWorkshopHistory());
+    setHistorySnapshot(workshopRef.current.getHistory());
+  };
+
+  const artStyle = getArtStylePreset(artStyleId);
+
+  // The session decides whether the style pack still has to be sent, so every render offers it.
+  const styleRefImages = useMemo(
+    () => resolvePresetStyleReferences(artStyle, stylePacks, sceneReferences)
+      .filter(ref => ref.base64)
+      .map(ref => ({ data: ref.base64, mimeType: ref.mimeType, name: ref.name })),
+    [artStyle, stylePacks, sceneReferences]
+  );
+
+  // Every render of the open session uses its preset, including after the preset is switched.
+  const currentWorkshop = () => {
+    workshopRef.current.setArtStyle(artStyle.prompt);
+    return workshopRef.current;
+  };
+
+  const openWorkshop = (id: string, history: Array<{ role: string; parts: any[] }> = []) => {
+    workshopRef.current = new WorkshopSession(history);
+    sessionIdRef.current = id;
+    refreshHistory();
+  };
+
+  // Saved after each finished render; a workshop that was replaced meanwhile belongs to no open session.
+  const persistWorkshop = (workshop: WorkshopSession, id: string) => {
+    if (workshop !== workshopRef.current || !id) return;
+    saveWorkshopHistory(id, workshop.getHistory()).catch(error =>
+      console.error('[ComicStudio] Failed to persist workshop history', error)
+    );
   };
 
   const hydratePageRenders = async (sessionKey: string, renders: Record<number, { imageUrl: string; lastUsedPrompt?: string }>) => {
@@ -184,7 +313,7 @@ export const ComicStudio: React.FC<ComicStudioProps> = ({
     const entries = await Promise.all(
       Object.keys(renders).map(async key => {
         const pageNumber = Number(key);
-        const imageUrl = await getPageRenderImage(sessionKey, pageNumber);
+        const imageUrl = await getPageRender(sessionKey, pageNumber);
         return { pageNumber, imageUrl };
       })
     );
@@ -202,9 +331,25 @@ export const ComicStudio: React.FC<ComicStudioProps> = ({
     });
   };
 
+  const hydratePanelRenders = async (sessionKey: string, renders: Record<string, RenderedImage>) => {
+    if (!sessionKey) return;
+    const entries = await Promise.all(
+      Object.keys(renders).map(async panelId => ({ panelId, imageUrl: await getPanelRender(sessionKey, panelId) }))
+    );
+    setPanelRenders(prev => {
+      const next = { ...prev };
+      entries.forEach(({ panelId, imageUrl }) => {
+        if (imageUrl && next[panelId] && !next[panelId].imageUrl) next[panelId] = { ...next[panelId], imageUrl };
+      });
+      return next;
+    });
+  };
+
   const handleClearHistory = () => {
-    resetWorkshopHistory();
-    setSceneRefsInjected(false);
+    workshopRef.current.resetHistory();
+    if (sessionId) {
+      deleteWorkshopHistory(sessionId).catch(error => console.error('[ComicStudio] Failed to clear workshop history', error));
+    }
     setHistorySnapshot([]);
     setHistoryClearedAt(Date.now());
     refreshHistory();
@@ -227,78 +372,187 @@ export const ComicStudio: React.FC<ComicStudioProps> = ({
     setStep('input');
   };
 
-  const persistToLocalKnowledgeBase = async (name: string, base64: string, mimeType: string) => {
-    try {
-      await fetch('/api/knowledge-base/save', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ name, base64, mimeType })
-      });
-    } catch (error) {
-      console.error('[KnowledgeBase Sync] Failed to persist asset to disk', error);
-    }
-  };
+  const toRef = (name: string) => ({ name, project: projectId });
 
   const pushToKnowledgeBase = async (name: string, imageUrl: string) => {
     const compressed = await compressDataUrl(imageUrl);
     const normalizedUrl = compressed?.dataUrl || imageUrl;
     const parsed = parseDataUrl(normalizedUrl);
     if (!parsed) return;
+    const sourceCharacter = characters.find(c => stripAtName(c.name) === name);
+    const existingEntity = entities.find(entity => entity.name === name);
+    const profile = existingEntity?.profile || (sourceCharacter ? profileFromCharacter(sourceCharacter) : undefined);
     setEntities(prev => {
       const existing = prev.find(entity => entity.name === name);
       const updated: Entity = {
+        ...existing,
         id: existing?.id || generateId(),
         name,
         base64: parsed.base64,
         mimeType: parsed.mimeType,
-        imagePreview: normalizedUrl
+        imagePreview: normalizedUrl,
+        ...(existing?.profile || profile ? { profile: existing?.profile || profile } : {})
       };
       if (existing) {
         return prev.map(entity => (entity.name === name ? updated : entity));
       }
       return [updated, ...prev];
     });
-    await persistToLocalKnowledgeBase(name, parsed.base64, parsed.mimeType);
+    await saveKnowledgeBaseAsset(toRef(name), parsed.base64, parsed.mimeType, undefined, profile);
+    return normalizedUrl;
+  };
+
+  /**
+   * Writes a curated profile back to the knowledge base. Characters without a
+   * portrait yet become profile-only entities so the text survives re-analysis.
+   */
+  const upsertEntityProfiles = (profiles: { name: string; profile: CharacterProfile }[]) => {
+    if (profiles.length === 0) return;
+    setEntities(prev => {
+      let next = [...prev];
+      profiles.forEach(({ name, profile }) => {
+        const existing = findEntityByName(next, name);
+        if (existing) {
+          next = next.map(entity => (entity.id === existing.id ? { ...entity, profile } : entity));
+          return;
+        }
+        next = [
+          { id: generateId(), name: stripAtName(name), imagePreview: '', base64: '', mimeType: '', profile },
+          ...next
+        ];
+      });
+      return next;
+    });
+    profiles.forEach(({ name, profile }) => {
+      updateKnowledgeBaseProfile(toRef(findEntityByName(entities, name)?.name || stripAtName(name)), profile);
+    });
+  };
+
+  const updateCharacterProfile = (charId: string, patch: Partial<CharacterProfile>) => {
+    const char = resolvedCharacters.find(c => c.id === charId);
+    if (!char) return;
+    const existing = findEntityByName(entities, char.name)?.profile;
+    const profile: CharacterProfile = { ...(existing || profileFromCharacter(char)), ...patch, updatedAt: Date.now() };
+    setCharacters(prev => prev.map(c => (c.id === charId ? applyProfileToCharacter(c, profile) : c)));
+    upsertEntityProfiles([{ name: char.name, profile }]);
+  };
+
+  const pushViewToKnowledgeBase = async (name: string, label: EntityViewLabel, imageUrl: string) => {
+    const compressed = await compressDataUrl(imageUrl);
+    const normalizedUrl = compressed?.dataUrl || imageUrl;
+    const parsed = parseDataUrl(normalizedUrl);
+    if (!parsed) return;
+    const view: EntityView = {
+      id: generateId(),
+      label,
+      base64: parsed.base64,
+      mimeType: parsed.mimeType,
+      imagePreview: normalizedUrl
+    };
+    setEntities(prev => {
+      const existing = prev.find(entity => entity.name === name);
+      if (!existing) return prev;
+      const views = (existing.views || []).filter(item => getViewKey(item) !== getViewKey(view));
+      return prev.map(entity => (entity.name === name ? { ...entity, views: [...views, view] } : entity));
+    });
+    await saveKnowledgeBaseAsset(toRef(name), parsed.base64, parsed.mimeType, getViewKey(view));
     return normalizedUrl;
   };
 
   const handleTextAnalysis = () =>
-    withLoading('正在深度解析小说文本...', async () => {
+    withLoading('正在深度解析小说文本...', async signal => {
       if (!novelText.trim()) return;
-      const { characters: chars, items: its } = await extractWorkshopEntities(novelText);
-      setCharacters(chars.map(char => ({ ...char, name: ensureAtName(char.name) })));
+      const { characters: chars, items: its, template } = await extractWorkshopEntities(novelText, {
+        signal,
+        onChunk: ({ chunk, total }) => {
+          if (total > 1) setLoadingMsg(`正在深度解析小说文本（第 ${chunk.index + 1}/${total} 段）...`);
+        }
+      });
+      // Curated knowledge-base profiles take precedence over the fresh extraction.
+      const profiles: { name: string; profile: CharacterProfile }[] = [];
+      const merged = chars.map(char => {
+        const named = { ...char, name: ensureAtName(char.name) };
+        const entity = findEntityByName(entities, named.name);
+        const profile = mergeProfiles(entity?.profile, profileFromCharacter(named));
+        profiles.push({ name: entity?.name || named.name, profile });
+        return applyProfileToCharacter(entity ? { ...named, name: ensureAtName(entity.name) } : named, profile);
+      });
+      setCharacters(merged);
+      upsertEntityProfiles(profiles);
       setItems(its);
       setStoryboard([]);
       setPageRenders({});
+      setPageLayouts({});
+      setLettering({});
+      dropPanelRenders(Object.keys(panelRenders));
+      setPromptTemplates([template]);
+      setCoverage({ extraction: novelText.length });
       setStep('analysis');
     });
 
-  const handleGenerateStoryboard = () =>
-    withLoading('正在构思漫画分镜脚本...', async () => {
-      const scenes = await generateWorkshopStoryboard(novelText, characters);
-      setStoryboard(scenes);
-      setPageRenders({});
-      setStep('storyboard');
+  // Scenes arrive chunk by chunk and are kept as they come, so a stopped run can be continued
+  // from `coverage.storyboard` instead of starting over.
+  const handleGenerateStoryboard = (resume = false) =>
+    withLoading(resume ? '正在继续生成剩余分镜...' : '正在构思漫画分镜脚本...', async signal => {
+      const from = resume ? coverage.storyboard || 0 : 0;
+      let scenesSoFar = resume ? storyboard : [];
+      await generateWorkshopStoryboard(novelText, resolvedCharacters, {
+        signal,
+        from,
+        previousScenes: scenesSoFar,
+        onChunk: ({ chunk, total, scenes, template }) => {
+          if (signal.aborted) return;
+          scenesSoFar = [
+            ...scenesSoFar,
+            ...scenes.map(scene => ({
+              ...scene,
+              charactersInScene: Array.from(new Set((scene.charactersInScene || []).map(canonicalSceneName)))
+            }))
+          ];
+          setStoryboard(scenesSoFar);
+          if (!resume && chunk.index === 0) {
+            setPageRenders({});
+            setPageLayouts({});
+            setLettering({});
+            dropPanelRenders(Object.keys(panelRenders));
+          }
+          setCoverage(prev => ({ ...prev, storyboard: chunk.end }));
+          setPromptTemplates(prev => [...prev.filter(ref => ref.id !== template.id), template]);
+          setStep('storyboard');
+          if (chunk.index + 1 < total) setLoadingMsg(`正在构思漫画分镜脚本（已完成 ${chunk.index + 1}/${total} 段）...`);
+        }
+      });
+    });
+
+  // Only the chosen pages are replaced; the other pages keep their panels and their renders.
+  const handleRewritePages = ({ fromPage, toPage, instruction }: { fromPage: number; toPage: number; instruction: string }) =>
+    withLoading(fromPage === toPage ? `正在重写第 ${fromPage} 页分镜...` : `正在重写第 ${fromPage}-${toPage} 页分镜...`, async signal => {
+      const { scenes, template } = await rewriteStoryboardPages(novelText, resolvedCharacters, storyboard, fromPage, toPage, {
+        signal,
+        instruction
+      });
+      if (signal.aborted) return;
+      applyStoryboardEdit(replacePages(storyboard, fromPage, toPage, scenes.map(scene => ({
+        ...scene,
+        charactersInScene: Array.from(new Set((scene.charactersInScene || []).map(canonicalSceneName)))
+      }))));
+      setPromptTemplates(prev => [...prev.filter(ref => ref.id !== template.id), template]);
+      setPageRewrite(null);
     });
 
   const handleGenerateCharacterImage = (charId: string) =>
-    withLoading('正在绘制角色形象设定图...', async () => {
-      const char = characters.find(c => c.id === charId);
+    withLoading('正在绘制角色形象设定图...', async signal => {
+      const char = resolvedCharacters.find(c => c.id === charId);
       if (!char) return;
-      const matchedEntity = entities.find(entity => entity.name === stripAtName(char.name) && entity.base64 && entity.mimeType);
+      const candidate = findEntityByName(entities, char.name);
+      const matchedEntity = candidate?.base64 && candidate.mimeType ? candidate : undefined;
       const refImages = matchedEntity
         ? [{ data: matchedEntity.base64 as string, mimeType: matchedEntity.mimeType as string, name: char.name }]
         : [];
       const prompt = `${char.name} character concept art: ${char.appearance}. Half-body portrait`;
-      const styleRefsToInject = !sceneRefsInjected && sceneReferences.length > 0
-        ? sceneReferences
-            .filter(ref => ref.base64)
-            .map(ref => ({ data: ref.base64, mimeType: ref.mimeType, name: ref.name }))
-        : [];
-      const { imageUrl, trace } = await generateWorkshopImage(prompt, refImages, '1:1', styleRefsToInject);
-      if (styleRefsToInject.length > 0) {
-        setSceneRefsInjected(true);
-      }
+      const workshop = currentWorkshop();
+      const { imageUrl, trace } = await workshop.generateImage(prompt, refImages, '1:1', styleRefImages, undefined, { signal });
+      persistWorkshop(workshop, sessionId);
       const displayPrompt = `PROMPT:\n${prompt}\n\n注入参考: ${refImages.length} 张\n\nTRACE:\n${trace}`;
       const normalizedUrl = await pushToKnowledgeBase(stripAtName(char.name), imageUrl);
       setCharacters(prev =>
@@ -311,6 +565,22 @@ export const ComicStudio: React.FC<ComicStudioProps> = ({
       refreshHistory();
     });
 
+  const handleGenerateCharacterView = (charId: string, label: Exclude<EntityViewLabel, 'front' | 'outfit'>) =>
+    withLoading(`正在绘制${ENTITY_VIEW_LABELS[label]}设定图...`, async signal => {
+      const char = resolvedCharacters.find(c => c.id === charId);
+      if (!char) return;
+      const parsed = parseDataUrl(char.imageUrl);
+      if (!parsed) return;
+      const prompt = `${char.name} character sheet: ${char.appearance}. ${SHEET_VIEW_PROMPTS[label]}. Keep the exact same face, hairstyle and outfit as the reference.`;
+      const refImages = [{ data: parsed.base64, mimeType: parsed.mimeType, name: `${char.name} · ${ENTITY_VIEW_LABELS.front}` }];
+      const aspectRatio = label === 'fullBody' || label === 'back' ? '9:16' : '1:1';
+      const workshop = currentWorkshop();
+      const { imageUrl } = await workshop.generateImage(prompt, refImages, aspectRatio, [], undefined, { signal });
+      persistWorkshop(workshop, sessionId);
+      await pushViewToKnowledgeBase(stripAtName(char.name), label, imageUrl);
+      refreshHistory();
+    });
+
   const handleUploadCharacterImage = (charId: string, file?: File | null) => {
     if (!file) return;
     const reader = new FileReader();
@@ -329,10 +599,137 @@ export const ComicStudio: React.FC<ComicStudioProps> = ({
     reader.readAsDataURL(file);
   };
 
+  // Balloons for a page from its panels' dialogue, laid over the frames the page was drawn with:
+  // the layout in panel mode, rows stacked top to bottom (as the whole-page prompt asks) otherwise.
+  const placeLettering = (pageNumber: number) => {
+    const pagePanels = storyboardPages.find(page => page.pageNumber === pageNumber)?.panels || [];
+    const layout = renderMode === 'panels' ? pageLayouts[pageNumber] || DEFAULT_PAGE_LAYOUT : 'stacked';
+    return placePageLettering(pagePanels, layoutPanels(layout, pagePanels.length));
+  };
+
+  // A page's first render gets lettering from the dialogue; later renders keep what was adjusted.
+  const ensureLettering = (pageNumber: number) => {
+    const placed = placeLettering(pageNumber);
+    setLettering(prev => (prev[pageNumber] ? prev : { ...prev, [pageNumber]: placed }));
+  };
+
+  const handleDownloadPage = async (pageNumber: number) => {
+    const pageRender = pageRenders[pageNumber];
+    if (!pageRender?.imageUrl) return;
+    try {
+      const link = document.createElement('a');
+      link.href = (await burnInLettering(pageRender.imageUrl, lettering[pageNumber] || [])).dataUrl;
+      link.download = `page-${pageNumber}.png`;
+      link.click();
+    } catch (error) {
+      console.error('[ComicStudio] Failed to letter page', error);
+      setErrorMessage('页面导出失败，请重试。');
+    }
+  };
+
+  // Rendered pages in reading order, lettering burned in; pages without a render are left out.
+  const handleExport = () =>
+    withLoading('正在导出...', async signal => {
+      const pages = storyboardPages
+        .filter(page => pageRenders[page.pageNumber]?.imageUrl)
+        .map(page => ({ pageNumber: page.pageNumber, imageUrl: pageRenders[page.pageNumber].imageUrl, lettering: lettering[page.pageNumber] || [] }));
+      if (pages.length === 0) return;
+      const title = sessionName || '未命名会话';
+      let blob: Blob;
+      try {
+        blob = await exportComic(
+          pages,
+          exportFormat,
+          {
+            title,
+            summary: findChapterHeadings(novelText).map(heading => heading.title).join(' / ') || undefined,
+            languageISO: 'zh',
+            ...(artStyle.id === 'manga' ? { blackAndWhite: true } : {})
+          },
+          { signal, onPage: (done, total) => setLoadingMsg(`正在导出（${done}/${total} 页）...`) }
+        );
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.error('[ComicStudio] Export failed', error);
+        setErrorMessage('导出失败，请重试。');
+        return;
+      }
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = exportFileName(title, exportFormat);
+      link.click();
+      // The download has started by the time the click returns; the URL is only needed until then.
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    });
+
+  // Reference images and the character brief for the characters appearing in `pagePanels`.
+  const collectCharacterRefs = (pagePanels: WorkshopScene[]) => {
+    const pageCharacters = resolvedCharacters.filter(c =>
+      pagePanels.some(panel =>
+        panel.charactersInScene.some(name => refersToCharacter(name, c))
+      )
+    );
+    // Each character contributes the views that fit its panels (e.g. full body for action shots).
+    const refsByCharacter = new Map<string, { data: string; mimeType: string; name?: string }[]>();
+    pageCharacters.forEach(c => {
+      const panelHint = pagePanels
+        .filter(panel => panel.charactersInScene.some(name => refersToCharacter(name, c)))
+        .map(panel => `${panel.description}\n${panel.visualPrompt}`)
+        .join('\n');
+      const matchedEntity = findEntityByName(entities, c.name);
+      const views = matchedEntity && getEntityViews(matchedEntity).length > 1
+        ? selectEntityViews(matchedEntity, panelHint)
+        : [];
+      if (views.length > 0) {
+        refsByCharacter.set(c.name, views.map(view => ({
+          data: view.base64,
+          mimeType: view.mimeType,
+          name: `${c.name} · ${describeView(view)}`
+        })));
+        return;
+      }
+      const parsed = parseDataUrl(c.imageUrl);
+      if (parsed) {
+        refsByCharacter.set(c.name, [{ data: parsed.base64, mimeType: parsed.mimeType, name: c.name }]);
+      }
+    });
+    const charRefs = Array.from(refsByCharacter.values()).flat();
+
+    const charDetails =
+      pageCharacters.map(c => `${c.name} (${c.appearance})`).join(', ') ||
+      '关键角色未提供，保持画风统一';
+    const focusLine = `\n## 人物形象\n${pageCharacters.length > 0
+      ? pageCharacters
+          .map(c => (
+            refsByCharacter.has(c.name)
+              ? `- @${c.name}：参考图为 ${refsByCharacter.get(c.name)!.map(ref => `[Character Reference: ${ref.name}]`).join(' ')}`
+              : `- @${c.name}：${c.appearance || '如果没有图片就导入人物库的语义描述'}`
+          ))
+          .join('\n')
+      : '- 无明确角色'
+    }`;
+    return { pageCharacters, charRefs, focusLine };
+  };
+
   const handleGeneratePageImage = (pageNumber: number) =>
-    withLoading('正在执行整页渲染...', async () => {
+    withLoading('正在执行整页渲染...', async signal => {
       const requestId = generateId();
       renderRequestIdRef.current[pageNumber] = requestId;
+      // The stored render stays until the new one is saved, so a stopped or failed render can fall back to it.
+      const previousRender = pageRenders[pageNumber];
+      const restorePreviousRender = () => {
+        if (renderRequestIdRef.current[pageNumber] !== requestId) return;
+        setPageRenders(prev => {
+          const next = { ...prev };
+          if (previousRender) {
+            next[pageNumber] = previousRender;
+          } else {
+            delete next[pageNumber];
+          }
+          return next;
+        });
+      };
       setPageRenders(prev => ({
         ...prev,
         [pageNumber]: {
@@ -340,64 +737,37 @@ export const ComicStudio: React.FC<ComicStudioProps> = ({
           lastUsedPrompt: '正在生成新版本...'
         }
       }));
-      await deletePageRenderImage(sessionId, pageNumber);
       const pagePanels = storyboardPages.find(page => page.pageNumber === pageNumber)?.panels || [];
       if (pagePanels.length === 0) return;
-
-      const pageCharacters = characters.filter(c =>
-        pagePanels.some(panel =>
-          panel.charactersInScene.some(name => stripAtName(name) === stripAtName(c.name))
-        )
-      );
-      const refCharacters = pageCharacters.filter(c => c.imageUrl);
-      const charRefs = refCharacters
-        .map(c => {
-          const parsed = parseDataUrl(c.imageUrl);
-          return parsed ? { data: parsed.base64, mimeType: parsed.mimeType, name: c.name } : null;
-        })
-        .filter(Boolean) as { data: string; mimeType: string; name?: string }[];
-
-      const charDetails =
-        pageCharacters.map(c => `${c.name} (${c.appearance})`).join(', ') ||
-        '关键角色未提供，保持画风统一';
-      const charRefNames = new Set(charRefs.map(ref => ref.name).filter(Boolean));
-      const focusLine = `\n## 人物形象\n${pageCharacters.length > 0
-        ? pageCharacters
-            .map(c => (
-              charRefNames.has(c.name)
-                ? `- @${c.name}：参考图为 [Character Reference: @${c.name}]`
-                : `- @${c.name}：${c.appearance || '如果没有图片就导入人物库的语义描述'}`
-            ))
-            .join('\n')
-        : '- 无明确角色'
-      }`;
+      const { pageCharacters, charRefs, focusLine } = collectCharacterRefs(pagePanels);
 
       const panelLines = pagePanels
         .map((panel, index) => {
           const panelIndex = panel.panelNumber || index + 1;
-          return `Panel ${panelIndex}: ${panel.description}. Dialogue: ${panel.dialogue}. Visual: ${panel.visualPrompt}.`;
+          return `Panel ${panelIndex}: ${panel.description}. Dialogue (for acting only): ${panel.dialogue}. Visual: ${panel.visualPrompt}.`;
         })
         .join('\n');
 
       const variationSeed = pageRenders[pageNumber]?.imageUrl ? `\nVariation Seed: ${requestId}` : '';
-      const drawingPrompt = `Create a single manga page with multiple horizontal panels stacked vertically. Each panel is a full-width row. Page ${pageNumber} panels:\n${panelLines}${focusLine} Keep consistent styling across panels and prior pages.${variationSeed}`;
-      const styleRefsToInject = !sceneRefsInjected && sceneReferences.length > 0
-        ? sceneReferences
-            .filter(ref => ref.base64)
-            .map(ref => ({ data: ref.base64, mimeType: ref.mimeType, name: ref.name }))
-        : [];
+      const drawingPrompt = `Create a single manga page with multiple horizontal panels stacked vertically. Each panel is a full-width row. Page ${pageNumber} panels:\n${panelLines}${focusLine} ${NO_LETTERING_PROMPT} Keep consistent styling across panels and prior pages.${variationSeed}`;
       const aspectRatio = '9:16';
       const resolution = '1K';
-      const { imageUrl, trace } = await generateWorkshopImage(drawingPrompt, charRefs, aspectRatio, styleRefsToInject, resolution);
+      const workshop = currentWorkshop();
+      let rendered: { imageUrl: string; trace: string };
+      try {
+        rendered = await workshop.generateImage(drawingPrompt, charRefs, aspectRatio, styleRefImages, resolution, { signal });
+      } catch (error) {
+        restorePreviousRender();
+        throw error;
+      }
+      const { imageUrl, trace } = rendered;
       if (renderRequestIdRef.current[pageNumber] !== requestId) {
         return;
       }
       const compressedPage = await compressDataUrl(imageUrl);
       const normalizedUrl = compressedPage?.dataUrl || imageUrl;
-      await savePageRenderImage(sessionId, pageNumber, normalizedUrl);
-      if (styleRefsToInject.length > 0) {
-        setSceneRefsInjected(true);
-      }
+      await savePageRender(sessionId, pageNumber, normalizedUrl);
+      persistWorkshop(workshop, sessionId);
 
       const displayPrompt = `【整页渲染】\n- 注入角色库: ${charRefs.length} 张参考\n- 关注角色: ${pageCharacters.map(c => c.name).join('、') || '未指定'}\n- 发送指令: ${drawingPrompt}\n\nTRACE:\n${trace}`;
 
@@ -408,9 +778,83 @@ export const ComicStudio: React.FC<ComicStudioProps> = ({
           lastUsedPrompt: displayPrompt
         }
       }));
+      ensureLettering(pageNumber);
       refreshHistory();
     });
 
+  // Draws a page's panel renders into its layout and stores the result as the page render.
+  // Pages with a panel not yet rendered are left alone.
+  const composeRenderedPage = async (
+    pageNumber: number,
+    renders: Record<string, RenderedImage> = panelRenders,
+    layout: PageLayoutId = pageLayouts[pageNumber] || DEFAULT_PAGE_LAYOUT
+  ) => {
+    const pagePanels = storyboardPages.find(page => page.pageNumber === pageNumber)?.panels || [];
+    if (pagePanels.length === 0 || pagePanels.some(panel => !renders[panel.id]?.imageUrl)) return;
+    const imageUrl = await composePage(layoutPanels(layout, pagePanels.length), pagePanels.map(panel => renders[panel.id].imageUrl));
+    await savePageRender(sessionId, pageNumber, imageUrl);
+    const layoutLabel = PAGE_LAYOUTS.find(item => item.id === layout)?.label || layout;
+    setPageRenders(prev => ({
+      ...prev,
+      [pageNumber]: {
+        imageUrl,
+        lastUsedPrompt: `【逐格合成】\n- 布局: ${layoutLabel}\n- 共 ${pagePanels.length} 格，各格单独渲染，单格的指令与 TRACE 见分镜页`
+      }
+    }));
+    ensureLettering(pageNumber);
+  };
+
+  const handleChangePageLayout = (pageNumber: number, layout: PageLayoutId) => {
+    setPageLayouts(prev => ({ ...prev, [pageNumber]: layout }));
+    composeRenderedPage(pageNumber, panelRenders, layout).catch(error => {
+      console.error('[ComicStudio] Failed to compose page', error);
+      setErrorMessage('整页合成失败，请重试。');
+    });
+  };
+
+  // Renders the given panels of a page (by default those without a render) in the aspect ratio of
+  // their layout frame, then composes the page once every panel has a render.
+  const handleRenderPanels = (pageNumber: number, panelIds?: string[]) =>
+    withLoading('正在逐格渲染...', async signal => {
+      const pagePanels = storyboardPages.find(page => page.pageNumber === pageNumber)?.panels || [];
+      if (pagePanels.length === 0) return;
+      const layout = pageLayouts[pageNumber] || DEFAULT_PAGE_LAYOUT;
+      const frames = layoutPanels(layout, pagePanels.length);
+      const targets = pagePanels.filter(panel => (panelIds ? panelIds.includes(panel.id) : !panelRenders[panel.id]?.imageUrl));
+      const workshop = currentWorkshop();
+      // Switching sessions opens another workshop; the abort only reaches the next generateImage call.
+      const isStale = () => workshop !== workshopRef.current || signal.aborted;
+      let renders = panelRenders;
+
+      for (const [done, panel] of targets.entries()) {
+        const index = pagePanels.indexOf(panel);
+        setLoadingMsg(`正在渲染第 ${pageNumber} 页 Panel ${index + 1}（${done + 1}/${targets.length}）...`);
+        const { pageCharacters, charRefs, focusLine } = collectCharacterRefs([panel]);
+        const aspectRatio = frameAspectRatio(frames[index]);
+        const variationSeed = renders[panel.id]?.imageUrl ? `\nVariation Seed: ${generateId()}` : '';
+        const drawingPrompt = `Create a single manga panel: panel ${index + 1} of ${pagePanels.length} on page ${pageNumber}. Draw only this panel, filling the whole frame, without panel borders or a page layout. Panel: ${panel.description}. Dialogue (for acting only): ${panel.dialogue}. Visual: ${panel.visualPrompt}.${focusLine} ${NO_LETTERING_PROMPT} Keep consistent styling with the other panels and prior pages.${variationSeed}`;
+        const { imageUrl, trace } = await workshop.generateImage(drawingPrompt, charRefs, aspectRatio, styleRefImages, '1K', { signal });
+        const compressedPanel = await compressDataUrl(imageUrl);
+        const normalizedUrl = compressedPanel?.dataUrl || imageUrl;
+        await savePanelRender(sessionId, panel.id, normalizedUrl);
+        if (isStale()) return;
+        persistWorkshop(workshop, sessionId);
+
+        const render = {
+          imageUrl: normalizedUrl,
+          lastUsedPrompt: `【单格渲染】\n- 画幅: ${aspectRatio}\n- 注入角色库: ${charRefs.length} 张参考\n- 关注角色: ${pageCharacters.map(c => c.name).join('、') || '未指定'}\n- 发送指令: ${drawingPrompt}\n\nTRACE:\n${trace}`
+        };
+        renders = { ...renders, [panel.id]: render };
+        setPanelRenders(prev => ({ ...prev, [panel.id]: render }));
+        refreshHistory();
+      }
+      if (isStale()) return;
+      await composeRenderedPage(pageNumber, renders, layout);
+    });
+
+  const handleRenderPage = (pageNumber: number) =>
+    renderMode === 'panels' ? handleRenderPanels(pageNumber) : handleGeneratePageImage(pageNumber);
+
   const handleJumpToRender = () => {
     if (hasRenderedImage) {
       setStep('render');
@@ -430,7 +874,8 @@ export const ComicStudio: React.FC<ComicStudioProps> = ({
       let updated = false;
       const next = prev.map(char => {
         if (char.imageUrl) return char;
-        const match = entities.find(e => e.name === stripAtName(char.name) && e.base64);
+        const candidate = findEntityByName(entities, char.name);
+        const match = candidate?.base64 ? candidate : undefined;
         if (!match) return char;
         updated = true;
         return {
@@ -450,6 +895,14 @@ export const ComicStudio: React.FC<ComicStudioProps> = ({
     setItems([]);
     setStoryboard([]);
     setPageRenders({});
+    setPromptTemplates([]);
+    setArtStyleId(DEFAULT_ART_STYLE_ID);
+    setCoverage({});
+    setRenderMode('page');
+    setPageLayouts({});
+    setPanelRenders({});
+    setLettering({});
+    setPageRewrite(null);
   };
 
   const loadSession = (id: string) => {
@@ -459,13 +912,36 @@ export const ComicStudio: React.FC<ComicStudioProps> = ({
       const data = JSON.parse(raw) as ComicStudioSession;
       setSessionId(data.sessionId);
       setSessionName(data.name || '未命名会话');
+      setSessionProjectId(data.projectId || DEFAULT_PROJECT_ID);
       setStep(data.step || 'input');
       setNovelText(data.novelText || '');
       setCharacters((data.characters || []).map(char => ({ ...char, name: ensureAtName(char.name) })));
       setItems(data.items || []);
       setStoryboard(data.storyboard || []);
       setPageRenders(data.pageRenders || {});
+      setPromptTemplates(data.promptTemplates || []);
+      setArtStyleId(getArtStylePreset(data.artStyleId).id);
+      setCoverage(data.coverage || {});
+      setRenderMode(data.renderMode || 'page');
+      setPageLayouts(data.pageLayouts || {});
+      setPanelRenders(data.panelRenders || {});
+      setLettering(data.lettering || {});
+      setPageRewrite(null);
       hydratePageRenders(data.sessionId, data.pageRenders || {});
+      hydratePanelRenders(data.sessionId, data.panelRenders || {});
+      openWorkshop(data.sessionId);
+      const workshop = workshopRef.current;
+      loadWorkshopHistory(data.sessionId)
+        .then(history => {
+          // Switching (or reopening) the session meanwhile opened another workshop; this history is stale.
+          if (workshop !== workshopRef.current) return;
+          const rendersMeanwhile = workshop.getHistory().length > 0;
+          workshop.restoreHistory(history);
+          refreshHistory();
+          // Renders that finished first saved only their own turns; save the merged history over them.
+          if (rendersMeanwhile) persistWorkshop(workshop, data.sessionId);
+        })
+        .catch(error => console.error('[ComicStudio] Failed to restore workshop history', error));
       setLastSavedAt(data.updatedAt || null);
       localStorage.setItem(SESSION_ACTIVE_KEY, data.sessionId);
     } catch (error) {
@@ -483,23 +959,28 @@ export const ComicStudio: React.FC<ComicStudioProps> = ({
     const name = `Session ${new Date(createdAt).toLocaleString()}`;
     setSessionId(id);
     setSessionName(name);
+    setSessionProjectId(projectId);
     setLastSavedAt(null);
     resetSessionState();
+    openWorkshop(id);
     localStorage.setItem(SESSION_ACTIVE_KEY, id);
     dispatchSessionRefresh();
   };
 
+  // Sessions belong to a project: restore the active one if it matches, else the project's latest.
   useEffect(() => {
+    if (sessionId && sessionProjectId === projectId) return;
     try {
+      const indexRaw = localStorage.getItem(SESSION_INDEX_KEY);
+      const index = indexRaw ? (JSON.parse(indexRaw) as { id: string; projectId?: string }[]) : [];
+      const projectSessions = index.filter(session => (session.projectId || DEFAULT_PROJECT_ID) === projectId);
       const activeId = localStorage.getItem(SESSION_ACTIVE_KEY);
-      if (activeId) {
+      if (activeId && projectSessions.some(session => session.id === activeId)) {
         loadSession(activeId);
         return;
       }
-      const indexRaw = localStorage.getItem(SESSION_INDEX_KEY);
-      const index = indexRaw ? (JSON.parse(indexRaw) as { id: string }[]) : [];
-      if (index.length > 0) {
-        loadSession(index[0].id);
+      if (projectSessions.length > 0) {
+        loadSession(projectSessions[0].id);
         return;
       }
       createSession();
@@ -507,7 +988,7 @@ export const ComicStudio: React.FC<ComicStudioProps> = ({
       console.error('[ComicStudio] Failed to restore session index', error);
       createSession();
     }
-  }, []);
+  }, [projectId]);
 
   useEffect(() => {
     if (!sessionId) return;
@@ -519,9 +1000,13 @@ export const ComicStudio: React.FC<ComicStudioProps> = ({
           { ...value, imageUrl: '' }
         ])
       ) as Record<number, { imageUrl: string; lastUsedPrompt?: string }>;
+      const compactPanelRenders = Object.fromEntries(
+        Object.entries(panelRenders).map(([key, value]) => [key, { ...value, imageUrl: '' }])
+      );
       const payload: ComicStudioSession = {
         sessionId,
         name: sessionName || '未命名会话',
+        projectId: sessionProjectId,
         createdAt: now,
         step,
         novelText,
@@ -529,17 +1014,27 @@ export const ComicStudio: React.FC<ComicStudioProps> = ({
         items,
         storyboard,
         pageRenders: compactPageRenders,
+        promptTemplates,
+        artStyleId,
+        coverage,
+        renderMode,
+        pageLayouts,
+        panelRenders: compactPanelRenders,
+        lettering,
         updatedAt: now
       };
       localStorage.setItem(`${SESSION_PREFIX}${sessionId}`, JSON.stringify(payload));
       const indexRaw = localStorage.getItem(SESSION_INDEX_KEY);
-      const index = indexRaw ? (JSON.parse(indexRaw) as { id: string; name: string; createdAt: number; updatedAt: number }[]) : [];
+      const index = indexRaw
+        ? (JSON.parse(indexRaw) as { id: string; name: string; projectId?: string; createdAt: number; updatedAt: number }[])
+        : [];
       const existing = index.find(item => item.id === sessionId);
       const createdAt = existing?.createdAt || now;
       const nextIndex = [
         {
           id: sessionId,
           name: payload.name,
+          projectId: sessionProjectId,
           createdAt,
           updatedAt: now
         },
@@ -552,7 +1047,10 @@ export const ComicStudio: React.FC<ComicStudioProps> = ({
     } catch (error) {
       console.error('[ComicStudio] Failed to persist session', error);
     }
-  }, [sessionId, sessionName, step, novelText, characters, items, storyboard, pageRenders]);
+  }, [sessionId, sessionName, sessionProjectId, step, novelText, characters, items, storyboard, pageRenders, promptTemplates, artStyleId, coverage, renderMode, pageLayouts, panelRenders, lettering]);
+
+  // Switching sessions or leaving the studio cancels whatever is still running for the old session.
+  useEffect(() => () => abortRef.current?.abort(), [sessionId]);
 
   useEffect(() => {
     const handler = (event: Event) => {
@@ -624,6 +1122,19 @@ export const ComicStudio: React.FC<ComicStudioProps> = ({
             </div>
           </div>
           <div className="flex items-center gap-2">
+            <select
+              value={artStyle.id}
+              onChange={event => setArtStyleId(event.target.value)}
+              disabled={loading}
+              className="px-3 py-2 rounded-full text-xs font-semibold bg-slate-900 text-slate-300 border border-slate-800 hover:border-indigo-400 focus:outline-none disabled:opacity-60"
+              title={`画风：${artStyle.description}${artStyle.stylePack ? `（画风包「${artStyle.stylePack}」存在时使用其参考图）` : ''}`}
+            >
+              {ART_STYLE_PRESETS.map(preset => (
+                <option key={preset.id} value={preset.id}>
+                  画风 · {preset.label}
+                </option>
+              ))}
+            </select>
             <button
               onClick={() => setShowHistory(prev => !prev)}
               className="flex items-center gap-2 px-4 py-2 rounded-full text-xs font-semibold bg-slate-900 text-slate-300 border border-slate-800 hover:text-white hover:border-indigo-400 transition-all"
@@ -651,6 +1162,14 @@ export const ComicStudio: React.FC<ComicStudioProps> = ({
             <div className="flex items-center gap-2 text-indigo-300">
               <Loader2 className="animate-spin" size={18} />
               <span className="text-xs">{loadingMsg}</span>
+              <button
+                onClick={handleStop}
+                className="flex items-center gap-1 px-3 py-1 rounded-full text-[11px] font-semibold bg-slate-900 border border-slate-700 text-slate-300 hover:text-white hover:border-rose-500 transition-colors"
+                title="停止当前请求"
+              >
+                <Square size={10} fill="currentColor" />
+                停止
+              </button>
             </div>
           )}
         </div>
@@ -660,7 +1179,7 @@ export const ComicStudio: React.FC<ComicStudioProps> = ({
         {errorMessage && (
           <div className="flex items-center gap-2 bg-rose-950/60 border border-rose-800 text-rose-100 px-4 py-3 rounded-xl">
             <AlertCircle size={16} />
-            <span className="text-sm">{errorMessage}</span>
+            <span className="text-sm whitespace-pre-line">{errorMessage}</span>
           </div>
         )}
 
@@ -692,6 +1211,17 @@ export const ComicStudio: React.FC<ComicStudioProps> = ({
               onChange={(e) => setNovelText(e.target.value)}
             />
 
+            {novelText && (
+              <div className="flex flex-wrap items-start gap-6">
+                <p className="text-[11px] text-slate-500">
+                  共 {novelText.length.toLocaleString('en-US')} 字
+                  {novelChunks.length > 1 && `，将按章节分为 ${novelChunks.length} 段依次解析和生成分镜`}
+                </p>
+                {renderCoverage('解析：', coverage.extraction)}
+                {renderCoverage('分镜：', coverage.storyboard)}
+              </div>
+            )}
+
             <div className="flex flex-wrap gap-3">
               <label className="cursor-pointer inline-flex items-center gap-2 px-4 py-2 bg-slate-800 rounded-lg text-xs border border-slate-700 hover:border-slate-500 transition-all">
                 <Upload size={14} />
@@ -710,6 +1240,10 @@ export const ComicStudio: React.FC<ComicStudioProps> = ({
                         setItems([]);
                         setStoryboard([]);
                         setPageRenders({});
+                        setPageLayouts({});
+                        setLettering({});
+                        dropPanelRenders(Object.keys(panelRenders));
+                        setCoverage({});
                       };
                       reader.readAsText(file);
                     }
@@ -758,10 +1292,11 @@ export const ComicStudio: React.FC<ComicStudioProps> = ({
                   <div>
                     <h3 className="text-lg font-bold">角色资产库</h3>
                     <p className="text-xs text-slate-400">含身份设定、外貌细节，可生成或上传形象参考</p>
+                    {renderTemplateRef('extraction')}
                   </div>
                 </div>
                 <button
-                  onClick={handleGenerateStoryboard}
+                  onClick={() => handleGenerateStoryboard()}
                   disabled={characters.length === 0 || loading}
                   className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-xs font-semibold bg-slate-100 text-slate-900 hover:bg-white shadow disabled:opacity-60 disabled:cursor-not-allowed"
                 >
@@ -774,7 +1309,7 @@ export const ComicStudio: React.FC<ComicStudioProps> = ({
                 ? renderEmptyState(<Users className="text-slate-600" />, '尚未有角色，请返回“导入”步骤执行 AI 解析。')
                 : (
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    {characters.map((char) => (
+                    {resolvedCharacters.map((char) => (
                       <div key={char.id} className="rounded-xl border border-slate-800 bg-slate-950/40 p-4 space-y-3">
                         <div className="flex items-center justify-between">
                           <div className="flex items-center gap-3">
@@ -787,7 +1322,7 @@ export const ComicStudio: React.FC<ComicStudioProps> = ({
                             </div>
                             <div>
                               <p className="font-semibold text-white">{char.name}</p>
-                              <p className="text-[10px] text-slate-400 uppercase tracking-[0.2em]">{char.role}</p>
+                              <p className="text-[10px] text-slate-400 uppercase tracking-[0.2em]">{ROLE_LABELS[char.role] || char.role}</p>
                             </div>
                           </div>
                           <div className="flex gap-2">
@@ -809,8 +1344,76 @@ export const ComicStudio: React.FC<ComicStudioProps> = ({
                             </label>
                           </div>
                         </div>
-                        <p className="text-sm text-slate-200 leading-relaxed">{char.description}</p>
-                        <p className="text-sm text-slate-400 leading-relaxed">外貌：{char.appearance}</p>
+                        <textarea
+                          defaultValue={char.description}
+                          key={`description-${char.id}-${char.description}`}
+                          onBlur={(e) => updateCharacterProfile(char.id, { description: e.target.value })}
+                          rows={2}
+                          className="w-full rounded-lg bg-transparent border border-transparent hover:border-slate-800 focus:border-indigo-500 outline-none text-sm text-slate-200 leading-relaxed resize-none p-1 -m-1"
+                        />
+                        <label className="block text-sm text-slate-400 leading-relaxed">
+                          外貌：
+                          <textarea
+                            defaultValue={char.appearance}
+                            key={`appearance-${char.id}-${char.appearance}`}
+                            onBlur={(e) => updateCharacterProfile(char.id, { appearance: e.target.value })}
+                            rows={3}
+                            className="mt-1 w-full rounded-lg bg-slate-950/60 border border-slate-800 focus:border-indigo-500 outline-none text-sm text-slate-300 leading-relaxed p-2"
+                          />
+                        </label>
+                        <div className="grid grid-cols-2 gap-2 text-xs">
+                          <input
+                            defaultValue={(char.aliases || []).join('、')}
+                            key={`aliases-${char.id}-${(char.aliases || []).join('|')}`}
+                            onBlur={(e) => updateCharacterProfile(char.id, { aliases: e.target.value.split(/[,，、]/).map(a => a.trim()).filter(Boolean) })}
+                            placeholder="别名（用、分隔）"
+                            className="rounded-lg bg-slate-950/60 border border-slate-800 focus:border-indigo-500 outline-none px-2 py-1.5 text-slate-300"
+                          />
+                          <input
+                            defaultValue={char.faction || ''}
+                            key={`faction-${char.id}-${char.faction || ''}`}
+                            onBlur={(e) => updateCharacterProfile(char.id, { faction: e.target.value.trim() || undefined })}
+                            placeholder="阵营 / 门派"
+                            className="rounded-lg bg-slate-950/60 border border-slate-800 focus:border-indigo-500 outline-none px-2 py-1.5 text-slate-300"
+                          />
+                        </div>
+                        {(char.relationships || []).length > 0 && (
+                          <p className="text-xs text-slate-500">
+                            关系：{(char.relationships || []).map(rel => `${rel.target}（${rel.relation}）`).join('、')}
+                          </p>
+                        )}
+                        {(() => {
+                          const sheetEntity = findEntityByName(entities, char.name);
+                          const sheetViews = sheetEntity ? getEntityViews(sheetEntity) : [];
+                          return (
+                            <div className="space-y-2">
+                              {sheetViews.length > 0 && (
+                                <div className="flex flex-wrap gap-2">
+                                  {sheetViews.map(view => (
+                                    <div key={view.id} className="w-12 text-center">
+                                      <img src={view.imagePreview || `data:${view.mimeType};base64,${view.base64}`} alt={describeView(view)} className="w-12 h-12 rounded-lg object-cover border border-slate-800" />
+                                      <p className="text-[9px] text-slate-500 mt-1 truncate">{describeView(view)}</p>
+                                    </div>
+                                  ))}
+                                </div>
+                              )}
+                              <div className="flex flex-wrap items-center gap-2 text-[10px]">
+                                <span className="text-slate-500 uppercase tracking-[0.2em]">补充视图</span>
+                                {(Object.keys(SHEET_VIEW_PROMPTS) as Array<keyof typeof SHEET_VIEW_PROMPTS>).map(label => (
+                                  <button
+                                    key={label}
+                                    onClick={() => handleGenerateCharacterView(char.id, label)}
+                                    disabled={loading || !char.imageUrl || !sheetEntity}
+                                    title={!char.imageUrl ? '请先生成或上传正面形象' : `生成${ENTITY_VIEW_LABELS[label]}视图`}
+                                    className="px-2 py-1 rounded-md border border-slate-700 text-slate-300 hover:border-indigo-400 hover:text-white transition-all disabled:opacity-40"
+                                  >
+                                    {ENTITY_VIEW_LABELS[label]}
+                                  </button>
+                                ))}
+                              </div>
+                            </div>
+                          );
+                        })()}
                         {char.lastUsedPrompt && (
                           <details className="text-xs text-slate-500 bg-slate-900/70 border border-slate-800 rounded-lg p-3">
                             <summary className="cursor-pointer text-slate-300">查看提示词</summary>
@@ -861,11 +1464,39 @@ export const ComicStudio: React.FC<ComicStudioProps> = ({
                   <div>
                     <h3 className="text-lg font-bold">分镜脚本</h3>
                     <p className="text-xs text-slate-400">中文对白 + 英文视觉提示词，自动保证故事连贯</p>
+                    {renderTemplateRef('storyboard')}
+                    {renderTemplateRef('storyboardPage')}
+                    {renderCoverage('分镜：', coverage.storyboard)}
                   </div>
                 </div>
                 <div className="flex items-center gap-2">
+                  <div className="inline-flex rounded-lg border border-slate-700 p-0.5 text-xs" title="逐格出图时每格单独渲染，再按版式合成整页">
+                    {([['page', '整页出图'], ['panels', '逐格出图']] as const).map(([mode, label]) => (
+                      <button
+                        key={mode}
+                        onClick={() => setRenderMode(mode)}
+                        disabled={loading}
+                        className={`px-2.5 py-1 rounded-md transition-colors ${
+                          renderMode === mode ? 'bg-slate-100 text-slate-900 font-semibold' : 'text-slate-400 hover:text-white'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  {storyboardRemaining && (
+                    <button
+                      onClick={() => handleGenerateStoryboard(true)}
+                      disabled={loading}
+                      className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-xs font-semibold bg-indigo-600 text-white hover:bg-indigo-500 shadow disabled:opacity-60"
+                      title="从已覆盖的位置继续，承接已有分镜"
+                    >
+                      <Film size={14} />
+                      继续生成剩余分镜
+                    </button>
+                  )}
                   <button
-                    onClick={handleGenerateStoryboard}
+                    onClick={() => handleGenerateStoryboard()}
                     disabled={loading}
                     className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-xs font-semibold bg-slate-100 text-slate-900 hover:bg-white shadow disabled:opacity-60"
                   >
@@ -884,70 +1515,159 @@ export const ComicStudio: React.FC<ComicStudioProps> = ({
               </div>
 
               {!hasStoryboard
-                ? renderEmptyState(<Film className="text-slate-600" />, '暂无分镜，请先生成脚本。')
+                ? (
+                  <div className="space-y-3">
+                    {renderEmptyState(<Film className="text-slate-600" />, '暂无分镜，请先生成脚本。')}
+                    <button
+                      onClick={() => applyStoryboardEdit(insertPage([], 0))}
+                      disabled={loading}
+                      className="mx-auto flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs border border-slate-700 text-slate-300 hover:text-white hover:border-indigo-400 transition-all disabled:opacity-50"
+                    >
+                      <Plus size={12} />
+                      手动添加第一页
+                    </button>
+                  </div>
+                )
                 : (
-                  <div className="space-y-4">
-                    {storyboardPages.map(page => {
-                      const pageRender = pageRenders[page.pageNumber];
+                  <StoryboardEditor
+                    storyboard={storyboard}
+                    characterNames={resolvedCharacters.map(char => ensureAtName(char.name))}
+                    disabled={loading}
+                    onEdit={applyStoryboardEdit}
+                    canonicalName={canonicalSceneName}
+                    getNameWarning={getMentionWarning}
+                    renderPageActions={pageNumber => (
+                      <>
+                        <button
+                          onClick={() => setPageRewrite(
+                            pageRewrite?.fromPage === pageNumber ? null : { fromPage: pageNumber, toPage: pageNumber, instruction: '' }
+                          )}
+                          disabled={loading}
+                          className="inline-flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-xs border border-slate-700 text-slate-300 hover:text-white hover:border-indigo-400 transition-all disabled:opacity-50"
+                          title="结合前后页与原文，只重写这一页（或连续几页）"
+                        >
+                          <WandSparkles size={12} />
+                          重写
+                        </button>
+                        {renderMode === 'panels' && (
+                          <select
+                            value={pageLayouts[pageNumber] || DEFAULT_PAGE_LAYOUT}
+                            onChange={event => handleChangePageLayout(pageNumber, event.target.value as PageLayoutId)}
+                            disabled={loading}
+                            className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 outline-none focus:border-indigo-500"
+                            title={PAGE_LAYOUTS.find(layout => layout.id === (pageLayouts[pageNumber] || DEFAULT_PAGE_LAYOUT))?.description}
+                          >
+                            {PAGE_LAYOUTS.map(layout => (
+                              <option key={layout.id} value={layout.id}>{layout.label}</option>
+                            ))}
+                          </select>
+                        )}
+                        <button
+                          onClick={() => handleRenderPage(pageNumber)}
+                          disabled={loading}
+                          className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-semibold bg-indigo-600 hover:bg-indigo-500 text-white transition-all disabled:opacity-50"
+                        >
+                          {loading ? <Loader2 className="animate-spin" size={14} /> : <ImageIcon size={14} />}
+                          {renderMode === 'panels' ? '逐格生成' : '生成整页'}
+                        </button>
+                      </>
+                    )}
+                    renderPageToolbar={pageNumber => {
+                      if (pageRewrite?.fromPage !== pageNumber) return null;
+                      const laterPages = storyboardPages.filter(page => page.pageNumber >= pageNumber);
                       return (
-                        <div key={`page-${page.pageNumber}`} className="p-5 rounded-xl border border-slate-800 bg-slate-950/60 space-y-4">
-                          <div className="flex items-center justify-between">
-                            <div className="flex items-center gap-3">
-                              <div className="px-3 py-1 rounded-full bg-slate-800 text-xs text-slate-200 border border-slate-700">
-                                第 {page.pageNumber} 页
-                              </div>
-                              <p className="text-sm text-slate-300">共 {page.panels.length} 个 panel</p>
+                        <div className="flex flex-wrap items-center gap-2 p-3 rounded-lg border border-indigo-500/40 bg-indigo-500/5 text-xs text-slate-300">
+                          <span>重写第 {pageNumber} 页到</span>
+                          <select
+                            value={pageRewrite.toPage}
+                            onChange={event => setPageRewrite({ ...pageRewrite, toPage: Number(event.target.value) })}
+                            disabled={loading}
+                            className="bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-slate-200 outline-none focus:border-indigo-500"
+                          >
+                            {laterPages.map(page => (
+                              <option key={page.pageNumber} value={page.pageNumber}>第 {page.pageNumber} 页</option>
+                            ))}
+                          </select>
+                          <input
+                            value={pageRewrite.instruction}
+                            onChange={event => setPageRewrite({ ...pageRewrite, instruction: event.target.value })}
+                            onKeyDown={event => {
+                              if (event.key === 'Enter') handleRewritePages(pageRewrite);
+                            }}
+                            disabled={loading}
+                            placeholder="修改要求（可选），如：这一页的动作戏更激烈一些"
+                            className="flex-1 min-w-[200px] bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-slate-200 outline-none focus:border-indigo-500 placeholder:text-slate-600"
+                          />
+                          <button
+                            onClick={() => handleRewritePages(pageRewrite)}
+                            disabled={loading}
+                            className="inline-flex items-center gap-1 px-3 py-1 rounded-md font-semibold bg-indigo-600 hover:bg-indigo-500 text-white transition-all disabled:opacity-50"
+                          >
+                            {loading ? <Loader2 className="animate-spin" size={12} /> : <WandSparkles size={12} />}
+                            重写
+                          </button>
+                          <button
+                            onClick={() => setPageRewrite(null)}
+                            disabled={loading}
+                            className="p-1 rounded-md text-slate-500 hover:text-white hover:bg-slate-800 transition-colors"
+                            title="取消"
+                          >
+                            <X size={12} />
+                          </button>
+                          <p className="w-full text-[11px] text-slate-500">
+                            其他页面及其已生成的画面保持不变；被重写的页面需要重新生成画面。
+                          </p>
+                        </div>
+                      );
+                    }}
+                    renderPanelFooter={panel => {
+                      const panelRender = panelRenders[panel.id];
+                      if (renderMode !== 'panels' && !panelRender?.imageUrl) return null;
+                      return (
+                        <div className="flex items-start gap-3">
+                          {panelRender?.imageUrl && (
+                            <div className="relative group w-40 shrink-0">
+                              <img src={panelRender.imageUrl} alt={`panel-${panel.id}`} className="w-full rounded-lg border border-slate-800" />
+                              {panelRender.lastUsedPrompt && (
+                                <div className="absolute inset-0 bg-black/70 opacity-0 group-hover:opacity-100 transition-all p-2 overflow-y-auto text-[10px] text-slate-200 rounded-lg">
+                                  <p className="whitespace-pre-wrap">{panelRender.lastUsedPrompt}</p>
+                                </div>
+                              )}
                             </div>
+                          )}
+                          {renderMode === 'panels' && (
                             <button
-                              onClick={() => handleGeneratePageImage(page.pageNumber)}
+                              onClick={() => handleRenderPanels(panel.pageNumber || 1, [panel.id])}
                               disabled={loading}
-                              className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-semibold bg-indigo-600 hover:bg-indigo-500 text-white transition-all disabled:opacity-50"
+                              className="inline-flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-xs border border-slate-700 text-slate-300 hover:text-white hover:border-indigo-400 transition-all disabled:opacity-50"
+                              title="只重绘这一格，再重新合成整页"
                             >
-                              {loading ? <Loader2 className="animate-spin" size={14} /> : <ImageIcon size={14} />}
-                              生成整页
+                              {panelRender?.imageUrl ? <RefreshCw size={12} /> : <ImageIcon size={12} />}
+                              {panelRender?.imageUrl ? '重绘此格' : '生成此格'}
                             </button>
-                          </div>
-                          <div className="space-y-3">
-                            {page.panels.map(panel => (
-                              <div key={panel.id} className="rounded-lg border border-slate-800 bg-slate-950/70 p-3 space-y-2">
-                                <div className="flex items-center gap-3 text-xs text-slate-300">
-                                  <span className="px-2 py-0.5 rounded-full bg-slate-800 border border-slate-700">
-                                    Panel {panel.panelNumber || panel.sceneNumber}
-                                  </span>
-                                  <span>{panel.location}</span>
-                                </div>
-                                <p className="text-sm text-slate-200 leading-relaxed">分镜：{panel.description}</p>
-                                <p className="text-sm text-slate-300 leading-relaxed">对白：{panel.dialogue}</p>
-                                <p className="text-xs text-slate-400">角色：{panel.charactersInScene.join('、 ') || '无明确角色'}</p>
-                                <details
-                                  className="text-xs text-slate-400 bg-slate-900/70 border border-slate-800 rounded-lg p-3"
-                                  open={showPromptId === panel.id}
-                                  onToggle={(e) => setShowPromptId(e.currentTarget.open ? panel.id : null)}
-                                >
-                                  <summary className="cursor-pointer text-slate-300">视觉提示词 (英文)</summary>
-                                  <p className="mt-2 whitespace-pre-wrap">{panel.visualPrompt}</p>
-                                </details>
-                              </div>
-                            ))}
-                          </div>
-                          {pageRender?.imageUrl && (
-                            <div className="relative group">
-                              <img
-                                src={pageRender.imageUrl}
-                                alt={`page-${page.pageNumber}`}
-                                className="w-full rounded-xl border border-slate-800 shadow-lg"
-                              />
-                              {pageRender.lastUsedPrompt && (
-                                <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-all p-4 overflow-y-auto text-xs text-slate-200 rounded-xl">
-                                  <p className="whitespace-pre-wrap">{pageRender.lastUsedPrompt}</p>
-                                </div>
-                              )}
-                            </div>
                           )}
                         </div>
                       );
-                    })}
-                  </div>
+                    }}
+                    renderPageFooter={pageNumber => {
+                      const pageRender = pageRenders[pageNumber];
+                      if (!pageRender?.imageUrl) return null;
+                      return (
+                        <LetteringLayer
+                          imageUrl={pageRender.imageUrl}
+                          alt={`page-${pageNumber}`}
+                          items={lettering[pageNumber] || []}
+                          className="rounded-xl border border-slate-800 shadow-lg overflow-hidden"
+                        >
+                          {pageRender.lastUsedPrompt && (
+                            <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-all p-4 overflow-y-auto text-xs text-slate-200">
+                              <p className="whitespace-pre-wrap">{pageRender.lastUsedPrompt}</p>
+                            </div>
+                          )}
+                        </LetteringLayer>
+                      );
+                    }}
+                  />
                 )}
             </div>
           </section>
@@ -964,6 +1684,25 @@ export const ComicStudio: React.FC<ComicStudioProps> = ({
                 <p className="text-xs text-slate-400">已结合上一镜画风和角色形象，确保时序一致</p>
               </div>
               <div className="ml-auto flex items-center gap-2">
+                <select
+                  value={exportFormat}
+                  onChange={event => setExportFormat(event.target.value as ComicExportFormat)}
+                  disabled={loading}
+                  className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 outline-none focus:border-indigo-500"
+                >
+                  {COMIC_EXPORT_FORMATS.map(format => (
+                    <option key={format.id} value={format.id}>{format.label}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleExport}
+                  disabled={loading || !hasRenderedImage}
+                  className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-semibold bg-indigo-600 hover:bg-indigo-500 text-white transition-all disabled:opacity-50"
+                  title="按页码顺序导出已渲染的页面，文字图层合成到图片中"
+                >
+                  {loading ? <Loader2 className="animate-spin" size={14} /> : <Download size={14} />}
+                  导出
+                </button>
                 <button
                   onClick={() => setStep('storyboard')}
                   className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs border border-slate-700 text-slate-200 hover:border-indigo-400 transition-all"
@@ -988,15 +1727,23 @@ export const ComicStudio: React.FC<ComicStudioProps> = ({
                               <Film size={14} />
                               <span>第 {page.pageNumber} 页 · {page.panels.length} panels</span>
                             </div>
-                            <a
-                              href={pageRender?.imageUrl}
-                              download={`page-${page.pageNumber}.png`}
+                            <button
+                              onClick={() => handleDownloadPage(page.pageNumber)}
                               className="px-3 py-1.5 rounded-lg text-xs border border-slate-700 text-slate-200 hover:border-indigo-400 transition-all"
+                              title="下载合成了文字图层的页面"
                             >
                               下载
-                            </a>
+                            </button>
                           </div>
-                          <img src={pageRender?.imageUrl} alt={`render-page-${page.pageNumber}`} className="w-full border-t border-slate-800" />
+                          <LetteringLayer
+                            imageUrl={pageRender.imageUrl}
+                            alt={`render-page-${page.pageNumber}`}
+                            items={lettering[page.pageNumber] || []}
+                            onChange={items => setLettering(prev => ({ ...prev, [page.pageNumber]: items }))}
+                            onAutoPlace={() => setLettering(prev => ({ ...prev, [page.pageNumber]: placeLettering(page.pageNumber) }))}
+                            className="border-t border-slate-800 pb-4"
+                            controlsClassName="px-4"
+                          />
                           {pageRender?.lastUsedPrompt && (
                             <div className="p-4 text-xs text-slate-400 whitespace-pre-wrap border-t border-slate-800">
                               {pageRender.lastUsedPrompt}
@@ -1025,12 +1772,12 @@ export const ComicStudio: React.FC<ComicStudioProps> = ({
                       <div key={`render-queue-${page.pageNumber}`} className="flex items-center justify-between p-3 rounded-xl border border-slate-800 bg-slate-950/60">
                         <div className="text-sm text-slate-300">第 {page.pageNumber} 页 · {page.panels.length} panels</div>
                         <button
-                          onClick={() => handleGeneratePageImage(page.pageNumber)}
+                          onClick={() => handleRenderPage(page.pageNumber)}
                           disabled={loading}
                           className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-semibold bg-indigo-600 hover:bg-indigo-500 text-white transition-all disabled:opacity-50"
                         >
                           {loading ? <Loader2 className="animate-spin" size={14} /> : <ImageIcon size={14} />}
-                          生成整页
+                          {renderMode === 'panels' ? '逐格生成' : '生成整页'}
                         </button>
                       </div>
                     ))}
@@ -1,5 +1,6 @@
-import React, { useRef, useState, KeyboardEvent, useEffect } from 'react';
-import { Paperclip, Send, X, Loader2, AtSign, Users, Sparkles, Image as ImageIcon } from 'lucide-react';
+import React, { useMemo, useRef, useState, KeyboardEvent, useEffect } from 'react';
+import { Paperclip, Send, Square, X, Loader2, AtSign, Users, Sparkles, Image as ImageIcon, AlertTriangle } from 'lucide-react';
+import { detectMentions, findMentionConflicts, stripAt } from '../services/mentions';
 import { Attachment, Entity } from '../types';
 import { compressImage } from '../utils';
 
@@ -7,9 +8,11 @@ interface InputAreaProps {
   onSend: (text: string, attachments: Attachment[], mentions: Entity[]) => void;
   isLoading: boolean;
   entities: Entity[];
+  /** Shown as a stop button in place of send while a reply is in flight. */
+  onStop?: () => void;
 }
 
-export const InputArea: React.FC<InputAreaProps> = ({ onSend, isLoading, entities }) => {
+export const InputArea: React.FC<InputAreaProps> = ({ onSend, isLoading, entities, onStop }) => {
   const [text, setText] = useState('');
   const [attachments, setAttachments] = useState<Attachment[]>([]);
   const [selectedMentions, setSelectedMentions] = useState<Entity[]>([]);
@@ -141,9 +144,23 @@ export const InputArea: React.FC<InputAreaProps> = ({ onSend, isLoading, entitie
     e.target.style.height = `${e.target.scrollHeight}px`;
   };
 
-  const filteredEntities = entities.filter(e => 
-    e.name.toLowerCase().includes(mentionFilter.toLowerCase())
+  const filter = mentionFilter.toLowerCase();
+  const filteredEntities = entities.filter(e =>
+    e.name.toLowerCase().includes(filter) ||
+    (e.profile?.aliases || []).some(alias => stripAt(alias).toLowerCase().includes(filter))
   );
+  const matchedAlias = (entity: Entity) => (
+    filter && !entity.name.toLowerCase().includes(filter)
+      ? (entity.profile?.aliases || []).find(alias => stripAt(alias).toLowerCase().includes(filter))
+      : undefined
+  );
+
+  const conflicts = useMemo(() => findMentionConflicts(entities), [entities]);
+  const conflictedIds = useMemo(
+    () => new Set(conflicts.flatMap(conflict => conflict.entities.map(entity => entity.id))),
+    [conflicts]
+  );
+  const ambiguousMentions = useMemo(() => detectMentions(text, entities).ambiguous, [text, entities]);
 
   // Function to render text with highlighted mentions (for UI only)
   const renderHighlightedText = () => {
@@ -188,8 +205,15 @@ export const InputArea: React.FC<InputAreaProps> = ({ onSend, isLoading, entitie
                   <img src={entity.imagePreview} className="w-10 h-10 rounded-lg object-cover border border-slate-100" />
                   <div className="flex-1">
                     <p className="text-sm font-bold text-slate-800 group-hover:text-indigo-600">{entity.name}</p>
-                    <p className="text-[10px] text-slate-400">已学习的人物</p>
+                    <p className="text-[10px] text-slate-400">
+                      {matchedAlias(entity) ? `别名：${stripAt(matchedAlias(entity) as string)}` : '已学习的人物'}
+                    </p>
                   </div>
+                  {conflictedIds.has(entity.id) && (
+                    <span title="存在与其他人物重复的别名" className="text-amber-500">
+                      <AlertTriangle size={14} />
+                    </span>
+                  )}
                 </button>
               ))
             )}
@@ -197,6 +221,16 @@ export const InputArea: React.FC<InputAreaProps> = ({ onSend, isLoading, entitie
         </div>
       )}
 
+      {ambiguousMentions.length > 0 && (
+        <div className="mb-3 px-3 py-2 rounded-2xl border border-amber-200 bg-amber-50 text-[11px] font-semibold text-amber-700 flex items-start gap-2">
+          <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />
+          <span>
+            {ambiguousMentions.map(item => `${item.token} 可能指 ${item.entities.map(entity => entity.name).join(' / ')}`).join('；')}
+            ，请改用人物全名，否则不会注入参考图。
+          </span>
+        </div>
+      )}
+
       {/* Attachments UI */}
       {attachments.length > 0 && (
         <div className="flex flex-wrap gap-2 mb-3 items-center">
@@ -254,17 +288,27 @@ export const InputArea: React.FC<InputAreaProps> = ({ onSend, isLoading, entitie
             disabled={isLoading || isProcessing}
           />
 
-          <button
-            onClick={handleSend}
-            disabled={(!text.trim() && attachments.length === 0) || isLoading || isProcessing}
-            className={`p-2.5 rounded-2xl flex-shrink-0 transition-all mb-1 ${
-              (!text.trim() && attachments.length === 0) || isLoading || isProcessing
-                ? 'bg-slate-100 text-slate-300'
-                : 'bg-indigo-600 text-white hover:bg-indigo-700 shadow-lg shadow-indigo-200 active:scale-95'
-            }`}
-          >
-            <Send size={18} />
-          </button>
+          {isLoading && onStop ? (
+            <button
+              onClick={onStop}
+              className="p-2.5 rounded-2xl flex-shrink-0 transition-all mb-1 bg-slate-900 text-white hover:bg-red-600 shadow-lg shadow-slate-200 active:scale-95"
+              title="停止生成"
+            >
+              <Square size={18} fill="currentColor" />
+            </button>
+          ) : (
+            <button
+              onClick={handleSend}
+              disabled={(!text.trim() && attachments.length === 0) || isLoading || isProcessing}
+              className={`p-2.5 rounded-2xl flex-shrink-0 transition-all mb-1 ${
+                (!text.trim() && attachments.length === 0) || isLoading || isProcessing
+                  ? 'bg-slate-100 text-slate-300'
+                  : 'bg-indigo-600 text-white hover:bg-indigo-700 shadow-lg shadow-indigo-200 active:scale-95'
+              }`}
+            >
+              <Send size={18} />
+            </button>
+          )}
         </div>
       </div>
       
@@ -1,8 +1,27 @@
-import React, { useEffect, useRef, useState } from 'react';
-import { Trash2, BookOpen, Plus, Image as ImageIcon, Loader2, RotateCcw, Search, Database, AlertCircle, Folder, Image } from 'lucide-react';
-import { Entity, SceneReference } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Trash2, BookOpen, Plus, Image as ImageIcon, Loader2, RotateCcw, Search, Database, AlertCircle, Folder, Image, Layers, X } from 'lucide-react';
+import { createEmptyProfile, ROLE_LABELS } from '../services/characterProfiles';
+import { describeView, ENTITY_VIEW_LABELS, getViewKey } from '../services/entityViews';
+import { findMentionConflicts } from '../services/mentions';
+import {
+  deleteKnowledgeBaseEntry,
+  deleteStyleReference,
+  renameKnowledgeBaseEntry,
+  saveKnowledgeBaseAsset,
+  saveStyleReference,
+  updateKnowledgeBaseProfile
+} from '../services/knowledgeBaseApi';
+import type { StorageUsage } from '../services/assetStore';
+import { DEFAULT_STYLE_PACK, getStylePack, getStyleRefKey, groupStylePacks } from '../services/stylePacks';
+import { CharacterProfile, CharacterRole, Entity, EntityView, EntityViewLabel, KnowledgeProject, SceneReference } from '../types';
 import { compressImage, generateId } from '../utils';
 
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+
 const getNameFromPath = (path: string) => {
   const filename = path.split('/').pop() || '';
   return decodeURIComponent(filename.replace(/\.[^/.]+$/, ''));
@@ -13,8 +32,17 @@ interface KnowledgeBaseProps {
   setEntities: React.Dispatch<React.SetStateAction<Entity[]>>;
   sceneReferences: SceneReference[];
   setSceneReferences: React.Dispatch<React.SetStateAction<SceneReference[]>>;
+  /** Pack whose references are injected as the global style; null when there are none. */
+  activeStylePack: string | null;
+  onSelectStylePack: (pack: string) => void;
+  storageUsage?: StorageUsage | null;
   isScanning?: boolean;
   onRescan?: () => void;
+  /** `entities`/`setEntities` are scoped to this project by the caller. */
+  projectId: string;
+  projects: KnowledgeProject[];
+  onSelectProject: (projectId: string) => void;
+  onCreateProject: (name: string) => void;
 }
 
 export const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({
@@ -22,8 +50,15 @@ export const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({
   setEntities,
   sceneReferences,
   setSceneReferences,
+  activeStylePack,
+  onSelectStylePack,
+  storageUsage,
   isScanning,
-  onRescan
+  onRescan,
+  projectId,
+  projects,
+  onSelectProject,
+  onCreateProject
 }) => {
   const [isAdding, setIsAdding] = useState(false);
   const [name, setName] = useState('');
@@ -33,6 +68,24 @@ export const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({
   const fileInputRef = useRef<HTMLInputElement>(null);
   const folderInputRef = useRef<HTMLInputElement>(null);
   const [tempImage, setTempImage] = useState<{ base64: string, preview: string, mimeType: string } | null>(null);
+  const viewInputRef = useRef<HTMLInputElement>(null);
+  const [expandedEntityId, setExpandedEntityId] = useState<string | null>(null);
+  const [pendingView, setPendingView] = useState<{ entityId: string; label: EntityViewLabel } | null>(null);
+  const [outfitCaption, setOutfitCaption] = useState('');
+  const [renameError, setRenameError] = useState<string | null>(null);
+  const [isCreatingProject, setIsCreatingProject] = useState(false);
+  const [projectName, setProjectName] = useState('');
+  const [expandedPack, setExpandedPack] = useState<string | null>(null);
+
+  const toRef = (entityName: string) => ({ name: entityName, project: projectId });
+
+  const submitProject = () => {
+    // Project ids double as folder names under KnowledgeBase/.
+    const trimmed = projectName.trim().replace(/[\\/:*?"<>|]/g, '_');
+    if (trimmed) onCreateProject(trimmed);
+    setProjectName('');
+    setIsCreatingProject(false);
+  };
 
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
@@ -63,6 +116,7 @@ export const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({
       mimeType: tempImage.mimeType
     };
     setEntities(prev => [newEntity, ...prev]);
+    saveKnowledgeBaseAsset(toRef(newEntity.name), newEntity.base64, newEntity.mimeType);
     resetForm();
   };
 
@@ -73,11 +127,111 @@ export const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({
   };
 
   const deleteEntity = (id: string) => {
+    const target = entities.find(e => e.id === id);
     setEntities(prev => prev.filter(e => e.id !== id));
+    if (target) deleteKnowledgeBaseEntry(toRef(target.name));
+  };
+
+  /** Renames an entity in the browser and on disk; relationships pointing at the old name follow. */
+  const renameEntity = async (entity: Entity, value: string) => {
+    const nextName = value.trim().replace(/^@/, '');
+    setRenameError(null);
+    if (!nextName || nextName === entity.name) return;
+    if (entities.some(item => item.id !== entity.id && item.name === nextName)) {
+      setRenameError(`已存在名为「${nextName}」的人物`);
+      return;
+    }
+    setEntities(prev => prev.map(item => {
+      if (item.id === entity.id) return { ...item, name: nextName };
+      if (!item.profile?.relationships.some(rel => rel.target === entity.name)) return item;
+      return {
+        ...item,
+        profile: {
+          ...item.profile,
+          relationships: item.profile.relationships.map(rel => (
+            rel.target === entity.name ? { ...rel, target: nextName } : rel
+          ))
+        }
+      };
+    }));
+    await renameKnowledgeBaseEntry(toRef(entity.name), nextName);
+  };
+
+  const requestViewUpload = (entityId: string, label: EntityViewLabel) => {
+    if (label === 'outfit' && !outfitCaption.trim()) return;
+    setPendingView({ entityId, label });
+    viewInputRef.current?.click();
+  };
+
+  const handleViewSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const target = pendingView;
+    if (!file || !target) return;
+    setIsProcessing(true);
+    try {
+      const { base64, mimeType } = await compressImage(file);
+      const view: EntityView = {
+        id: generateId(),
+        label: target.label,
+        ...(target.label === 'outfit' ? { caption: outfitCaption.trim() } : {}),
+        base64,
+        mimeType,
+        imagePreview: URL.createObjectURL(file)
+      };
+      setEntities(prev => prev.map(entity => {
+        if (entity.id !== target.entityId) return entity;
+        const views = (entity.views || []).filter(item => getViewKey(item) !== getViewKey(view));
+        return { ...entity, views: [...views, view] };
+      }));
+      const owner = entities.find(entity => entity.id === target.entityId);
+      if (owner) saveKnowledgeBaseAsset(toRef(owner.name), base64, mimeType, getViewKey(view));
+      if (target.label === 'outfit') setOutfitCaption('');
+    } catch (err) {
+      console.error(err);
+    } finally {
+      setIsProcessing(false);
+      setPendingView(null);
+      if (viewInputRef.current) viewInputRef.current.value = '';
+    }
+  };
+
+  const updateEntityProfile = (entityId: string, patch: Partial<CharacterProfile>) => {
+    const target = entities.find(entity => entity.id === entityId);
+    if (!target) return;
+    const profile: CharacterProfile = { ...(target.profile || createEmptyProfile()), ...patch, updatedAt: Date.now() };
+    setEntities(prev => prev.map(entity => (entity.id === entityId ? { ...entity, profile } : entity)));
+    updateKnowledgeBaseProfile(toRef(target.name), profile);
+  };
+
+  const splitList = (value: string) => value.split(/[,，、\n]/).map(item => item.trim()).filter(Boolean);
+
+  const parseRelationships = (value: string) =>
+    value
+      .split('\n')
+      .map(line => line.split(/[:：]/))
+      .filter(([target, relation]) => target?.trim() && relation?.trim())
+      .map(([target, relation]) => ({ target: target.trim().replace(/^@/, ''), relation: relation.trim() }));
+
+  const deleteEntityView = (entityId: string, viewId: string) => {
+    const owner = entities.find(entity => entity.id === entityId);
+    const view = owner?.views?.find(item => item.id === viewId);
+    setEntities(prev => prev.map(entity => (
+      entity.id === entityId
+        ? { ...entity, views: (entity.views || []).filter(view => view.id !== viewId) }
+        : entity
+    )));
+    if (owner && view) deleteKnowledgeBaseEntry(toRef(owner.name), getViewKey(view));
   };
 
   const deleteSceneReference = (id: string) => {
+    const target = sceneReferences.find(e => e.id === id);
     setSceneReferences(prev => prev.filter(e => e.id !== id));
+    if (target) deleteStyleReference(getStylePack(target), target.name);
+  };
+
+  const deleteStylePack = (pack: string) => {
+    setSceneReferences(prev => prev.filter(e => getStylePack(e) !== pack));
+    deleteStyleReference(pack);
   };
 
   useEffect(() => {
@@ -94,14 +248,16 @@ export const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({
     setIsBatchImporting(true);
     setBatchProgress({ total: imageFiles.length, processed: 0 });
     try {
-      const existingNames = new Set(sceneReferences.map(scene => scene.name));
+      const existingKeys = new Set(sceneReferences.map(getStyleRefKey));
       const imported: SceneReference[] = [];
       let processed = 0;
 
       for (const file of imageFiles) {
-        const relativePath = (file as any).webkitRelativePath || file.name;
+        const relativePath: string = (file as any).webkitRelativePath || file.name;
         const frameName = getNameFromPath(relativePath);
-        if (existingNames.has(frameName)) {
+        // The selected folder names the style pack.
+        const pack = relativePath.includes('/') ? relativePath.split('/')[0] : DEFAULT_STYLE_PACK;
+        if (existingKeys.has(getStyleRefKey({ pack, name: frameName }))) {
           processed += 1;
           if (processed % 20 === 0) {
             setBatchProgress({ total: imageFiles.length, processed });
@@ -113,11 +269,13 @@ export const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({
         imported.push({
           id: generateId(),
           name: frameName,
+          pack,
           base64,
           mimeType,
           imagePreview: URL.createObjectURL(file)
         });
-        existingNames.add(frameName);
+        await saveStyleReference(pack, frameName, base64, mimeType);
+        existingKeys.add(getStyleRefKey({ pack, name: frameName }));
         processed += 1;
 
         if (processed % 20 === 0) {
@@ -139,9 +297,12 @@ export const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({
     }
   };
 
+  const mentionConflicts = useMemo(() => findMentionConflicts(entities), [entities]);
+  const stylePacks = useMemo(() => groupStylePacks(sceneReferences), [sceneReferences]);
+
   return (
     <div className="flex flex-col h-full p-6">
-      <div className="flex items-center justify-between mb-8">
+      <div className="flex items-center justify-between mb-6">
         <div className="flex items-center gap-3">
             <div className="p-2.5 bg-indigo-600 text-white rounded-xl shadow-lg shadow-indigo-100">
                 <BookOpen size={20} />
@@ -161,6 +322,51 @@ export const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({
         </button>
       </div>
 
+      <div className="flex items-center gap-2 mb-4">
+        {isCreatingProject ? (
+          <>
+            <input
+              autoFocus
+              type="text"
+              placeholder="项目名称（小说名）"
+              value={projectName}
+              onChange={e => setProjectName(e.target.value)}
+              onKeyDown={e => {
+                if (e.key === 'Enter') submitProject();
+                if (e.key === 'Escape') setIsCreatingProject(false);
+              }}
+              className="flex-1 min-w-0 px-3 py-2 text-xs bg-white border border-slate-200 rounded-xl outline-none focus:border-indigo-400"
+            />
+            <button
+              onClick={submitProject}
+              className="px-3 py-2 text-xs font-bold bg-indigo-600 text-white rounded-xl hover:bg-indigo-700"
+            >
+              创建
+            </button>
+          </>
+        ) : (
+          <>
+            <Folder size={14} className="text-slate-400 flex-shrink-0" />
+            <select
+              value={projectId}
+              onChange={e => onSelectProject(e.target.value)}
+              className="flex-1 min-w-0 px-3 py-2 text-xs font-bold text-slate-700 bg-slate-50 border border-slate-200 rounded-xl outline-none focus:border-indigo-400"
+            >
+              {projects.map(project => (
+                <option key={project.id} value={project.id}>{project.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => setIsCreatingProject(true)}
+              className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all"
+              title="新建项目"
+            >
+              <Plus size={14} />
+            </button>
+          </>
+        )}
+      </div>
+
       <div className="flex-1 overflow-y-auto space-y-4 scrollbar-thin pr-2">
         <input
           ref={folderInputRef}
@@ -168,6 +374,13 @@ export const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({
           className="hidden"
           onChange={handleFolderSelect}
         />
+        <input
+          ref={viewInputRef}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={handleViewSelect}
+        />
         {isAdding ? (
           <div className="p-4 bg-slate-50 rounded-2xl border-2 border-dashed border-slate-200 animate-in fade-in zoom-in-95 duration-200">
             <div className="space-y-4">
@@ -221,6 +434,17 @@ export const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({
           </button>
         )}
 
+        {mentionConflicts.length > 0 && (
+          <div className="p-3 rounded-2xl border border-amber-200 bg-amber-50 text-[11px] text-amber-700 space-y-1">
+            <p className="font-bold flex items-center gap-1.5"><AlertCircle size={14} /> 别名冲突，以下 @ 提及无法确定人物：</p>
+            {mentionConflicts.map(conflict => (
+              <p key={conflict.token} className="pl-5">
+                @{conflict.token} → {conflict.entities.map(entity => entity.name).join(' / ')}
+              </p>
+            ))}
+          </div>
+        )}
+
         {entities.length === 0 && !isAdding && (
           <div className="text-center py-12 px-4 bg-slate-50/50 rounded-3xl border border-slate-100">
             <Search size={32} className="mx-auto text-slate-200 mb-4" />
@@ -234,29 +458,169 @@ export const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({
 
         <div className="space-y-3 pb-8">
             {entities.map(entity => (
-              <div key={entity.id} className="group relative flex items-center gap-4 p-3 bg-white border border-slate-100 rounded-2xl shadow-sm hover:shadow-md transition-all hover:border-indigo-200 animate-in slide-in-from-right-2">
-                <div className="w-12 h-12 rounded-xl overflow-hidden flex-shrink-0 border border-slate-100 shadow-sm bg-slate-50 flex items-center justify-center">
-                  {entity.imagePreview ? (
-                    <img src={entity.imagePreview} className="w-full h-full object-cover" />
-                  ) : (
-                    <AlertCircle size={20} className="text-amber-400" />
-                  )}
-                </div>
-                <div className="flex-1 min-w-0">
-                  <p className="font-extrabold text-slate-800 text-sm truncate tracking-tight">{entity.name}</p>
-                  <div className="flex items-center gap-1.5 mt-0.5">
-                    <Database size={10} className="text-indigo-400" />
-                    <span className={`text-[9px] font-bold uppercase tracking-widest ${entity.imagePreview ? 'text-indigo-500' : 'text-amber-600'}`}>
-                      {entity.imagePreview ? '已注入上下文' : '资产缺失'}
-                    </span>
+              <div key={entity.id} className="group relative p-3 bg-white border border-slate-100 rounded-2xl shadow-sm hover:shadow-md transition-all hover:border-indigo-200 animate-in slide-in-from-right-2">
+                <div className="flex items-center gap-4">
+                  <div className="w-12 h-12 rounded-xl overflow-hidden flex-shrink-0 border border-slate-100 shadow-sm bg-slate-50 flex items-center justify-center">
+                    {entity.imagePreview ? (
+                      <img src={entity.imagePreview} className="w-full h-full object-cover" />
+                    ) : (
+                      <AlertCircle size={20} className="text-amber-400" />
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-extrabold text-slate-800 text-sm truncate tracking-tight">{entity.name}</p>
+                    <div className="flex items-center gap-1.5 mt-0.5">
+                      <Database size={10} className="text-indigo-400" />
+                      <span className={`text-[9px] font-bold uppercase tracking-widest ${entity.imagePreview ? 'text-indigo-500' : entity.profile ? 'text-slate-500' : 'text-amber-600'}`}>
+                        {entity.imagePreview ? '已注入上下文' : entity.profile ? '仅档案' : '资产缺失'}
+                      </span>
+                      {(entity.views?.length || 0) > 0 && (
+                        <span className="text-[9px] font-bold uppercase tracking-widest text-slate-400">· {entity.views!.length} 视图</span>
+                      )}
+                    </div>
                   </div>
+                  <button
+                    onClick={() => {
+                      setRenameError(null);
+                      setExpandedEntityId(prev => (prev === entity.id ? null : entity.id));
+                    }}
+                    className={`p-2 transition-opacity ${expandedEntityId === entity.id ? 'text-indigo-500' : 'text-slate-300 hover:text-indigo-500 opacity-0 group-hover:opacity-100'}`}
+                    title="人物档案与多视图"
+                  >
+                    <Layers size={16} />
+                  </button>
+                  <button 
+                    onClick={() => deleteEntity(entity.id)}
+                    className="p-2 text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                  >
+                    <Trash2 size={16} />
+                  </button>
                 </div>
-                <button 
-                  onClick={() => deleteEntity(entity.id)}
-                  className="p-2 text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
-                >
-                  <Trash2 size={16} />
-                </button>
+                {expandedEntityId === entity.id && (
+                  <div className="mt-3 pt-3 border-t border-slate-100 space-y-3">
+                    <div className="space-y-2">
+                      <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">人物档案</p>
+                      <input
+                        key={entity.name}
+                        type="text"
+                        placeholder="人物名称"
+                        defaultValue={entity.name}
+                        onBlur={e => renameEntity(entity, e.target.value)}
+                        className="w-full px-2 py-1 text-[11px] font-bold bg-white border border-slate-200 rounded-lg outline-none focus:border-indigo-400"
+                      />
+                      {renameError && (
+                        <p className="text-[10px] font-semibold text-amber-600">{renameError}</p>
+                      )}
+                      <input
+                        type="text"
+                        placeholder="别名（用、分隔）"
+                        defaultValue={(entity.profile?.aliases || []).join('、')}
+                        onBlur={e => updateEntityProfile(entity.id, { aliases: splitList(e.target.value) })}
+                        className="w-full px-2 py-1 text-[11px] bg-white border border-slate-200 rounded-lg outline-none focus:border-indigo-400"
+                      />
+                      <div className="flex gap-1.5">
+                        <select
+                          defaultValue={entity.profile?.role || ''}
+                          onChange={e => updateEntityProfile(entity.id, { role: (e.target.value || undefined) as CharacterRole | undefined })}
+                          className="w-20 px-1 py-1 text-[11px] bg-white border border-slate-200 rounded-lg outline-none focus:border-indigo-400"
+                        >
+                          <option value="">定位</option>
+                          {(Object.keys(ROLE_LABELS) as CharacterRole[]).map(role => (
+                            <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                          ))}
+                        </select>
+                        <input
+                          type="text"
+                          placeholder="阵营 / 门派"
+                          defaultValue={entity.profile?.faction || ''}
+                          onBlur={e => updateEntityProfile(entity.id, { faction: e.target.value.trim() || undefined })}
+                          className="flex-1 min-w-0 px-2 py-1 text-[11px] bg-white border border-slate-200 rounded-lg outline-none focus:border-indigo-400"
+                        />
+                      </div>
+                      <textarea
+                        placeholder="身份描述"
+                        rows={2}
+                        defaultValue={entity.profile?.description || ''}
+                        onBlur={e => updateEntityProfile(entity.id, { description: e.target.value })}
+                        className="w-full px-2 py-1 text-[11px] bg-white border border-slate-200 rounded-lg outline-none focus:border-indigo-400 resize-none"
+                      />
+                      <textarea
+                        placeholder="外貌描述（用于绘图提示词）"
+                        rows={3}
+                        defaultValue={entity.profile?.appearance || ''}
+                        onBlur={e => updateEntityProfile(entity.id, { appearance: e.target.value })}
+                        className="w-full px-2 py-1 text-[11px] bg-white border border-slate-200 rounded-lg outline-none focus:border-indigo-400 resize-none"
+                      />
+                      <textarea
+                        placeholder={'关系，每行一条，如：南宫婉：道侣'}
+                        rows={2}
+                        defaultValue={(entity.profile?.relationships || []).map(rel => `${rel.target}：${rel.relation}`).join('\n')}
+                        onBlur={e => updateEntityProfile(entity.id, { relationships: parseRelationships(e.target.value) })}
+                        className="w-full px-2 py-1 text-[11px] bg-white border border-slate-200 rounded-lg outline-none focus:border-indigo-400 resize-none"
+                      />
+                      <input
+                        type="text"
+                        placeholder="标签（用、分隔）"
+                        defaultValue={(entity.profile?.tags || []).join('、')}
+                        onBlur={e => updateEntityProfile(entity.id, { tags: splitList(e.target.value) })}
+                        className="w-full px-2 py-1 text-[11px] bg-white border border-slate-200 rounded-lg outline-none focus:border-indigo-400"
+                      />
+                    </div>
+                    <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">多视图</p>
+                    {(entity.views?.length || 0) > 0 && (
+                      <div className="flex flex-wrap gap-2">
+                        {entity.views!.map(view => (
+                          <div key={view.id} className="relative group/view w-12 text-center">
+                            {view.imagePreview ? (
+                              <img src={view.imagePreview} className="w-12 h-12 rounded-lg object-cover border border-slate-100" />
+                            ) : (
+                              <div className="w-12 h-12 rounded-lg border border-slate-100 bg-slate-50 flex items-center justify-center">
+                                <AlertCircle size={14} className="text-amber-400" />
+                              </div>
+                            )}
+                            <p className="text-[9px] font-bold text-slate-500 mt-1 truncate">{describeView(view)}</p>
+                            <button
+                              onClick={() => deleteEntityView(entity.id, view.id)}
+                              className="absolute -top-1.5 -right-1.5 bg-slate-800 text-white rounded-full p-0.5 opacity-0 group-hover/view:opacity-100 hover:bg-red-500 transition-all"
+                            >
+                              <X size={8} />
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    <div className="flex flex-wrap gap-1.5">
+                      {(Object.keys(ENTITY_VIEW_LABELS) as EntityViewLabel[])
+                        .filter(label => label !== 'outfit')
+                        .map(label => (
+                          <button
+                            key={label}
+                            onClick={() => requestViewUpload(entity.id, label)}
+                            disabled={isProcessing}
+                            className="px-2 py-1 text-[10px] font-bold text-slate-500 bg-slate-50 border border-slate-200 rounded-lg hover:text-indigo-600 hover:border-indigo-200 transition-all disabled:opacity-40"
+                          >
+                            + {ENTITY_VIEW_LABELS[label]}
+                          </button>
+                        ))}
+                    </div>
+                    <div className="flex gap-1.5">
+                      <input
+                        type="text"
+                        placeholder="服装名称，如：战甲"
+                        value={outfitCaption}
+                        onChange={e => setOutfitCaption(e.target.value)}
+                        className="flex-1 min-w-0 px-2 py-1 text-[11px] bg-white border border-slate-200 rounded-lg outline-none focus:border-indigo-400"
+                      />
+                      <button
+                        onClick={() => requestViewUpload(entity.id, 'outfit')}
+                        disabled={isProcessing || !outfitCaption.trim()}
+                        className="px-2 py-1 text-[10px] font-bold text-slate-500 bg-slate-50 border border-slate-200 rounded-lg hover:text-indigo-600 hover:border-indigo-200 transition-all disabled:opacity-40"
+                      >
+                        + {ENTITY_VIEW_LABELS.outfit}
+                      </button>
+                    </div>
+                  </div>
+                )}
               </div>
             ))}
         </div>
@@ -265,7 +629,7 @@ export const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({
           <div className="flex items-center justify-between mb-3">
             <div>
               <h3 className="text-sm font-black text-slate-800 tracking-tight">场景参考</h3>
-              <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">整体画风参考 · 注入一次</p>
+              <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">画风包 · 仅注入使用中的一组</p>
             </div>
             <button
               onClick={() => folderInputRef.current?.click()}
@@ -294,37 +658,103 @@ export const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({
           )}
 
           <div className="space-y-3 pb-6">
-            {sceneReferences.map(scene => (
-              <div key={scene.id} className="group relative flex items-center gap-4 p-3 bg-white border border-slate-100 rounded-2xl shadow-sm hover:shadow-md transition-all hover:border-indigo-200 animate-in slide-in-from-right-2">
-                <div className="w-12 h-12 rounded-xl overflow-hidden flex-shrink-0 border border-slate-100 shadow-sm bg-slate-50 flex items-center justify-center">
-                  {scene.imagePreview ? (
-                    <img src={scene.imagePreview} className="w-full h-full object-cover" />
-                  ) : (
-                    <AlertCircle size={20} className="text-amber-400" />
-                  )}
-                </div>
-                <div className="flex-1 min-w-0">
-                  <p className="font-extrabold text-slate-800 text-sm truncate tracking-tight">{scene.name}</p>
-                  <div className="flex items-center gap-1.5 mt-0.5">
-                    <Database size={10} className="text-indigo-400" />
-                    <span className={`text-[9px] font-bold uppercase tracking-widest ${scene.imagePreview ? 'text-indigo-500' : 'text-amber-600'}`}>
-                      {scene.imagePreview ? '画风参考' : '资产缺失'}
-                    </span>
+            {stylePacks.map(pack => {
+              const isActive = pack.name === activeStylePack;
+              const isExpanded = pack.name === expandedPack;
+              return (
+                <div
+                  key={pack.name}
+                  className={`p-3 rounded-2xl border transition-all ${isActive ? 'border-indigo-300 bg-indigo-50/40' : 'border-slate-100 bg-white'}`}
+                >
+                  <div className="group flex items-center gap-3">
+                    <button
+                      onClick={() => setExpandedPack(isExpanded ? null : pack.name)}
+                      className="flex -space-x-3 flex-shrink-0"
+                      title="展开画风包"
+                    >
+                      {pack.references.slice(0, 3).map(scene => (
+                        <div key={scene.id} className="w-9 h-9 rounded-lg overflow-hidden border-2 border-white shadow-sm bg-slate-50 flex items-center justify-center">
+                          {scene.imagePreview ? (
+                            <img src={scene.imagePreview} className="w-full h-full object-cover" />
+                          ) : (
+                            <AlertCircle size={14} className="text-amber-400" />
+                          )}
+                        </div>
+                      ))}
+                    </button>
+                    <div className="flex-1 min-w-0">
+                      <p className="font-extrabold text-slate-800 text-sm truncate tracking-tight">{pack.name}</p>
+                      <p className="text-[9px] font-bold uppercase tracking-widest text-slate-400 mt-0.5">
+                        {pack.references.length} 张
+                        {pack.references.some(scene => !scene.imagePreview) && <span className="text-amber-600"> · 部分缺失</span>}
+                      </p>
+                    </div>
+                    {isActive ? (
+                      <span className="text-[9px] font-black uppercase tracking-widest text-indigo-600">使用中</span>
+                    ) : (
+                      <button
+                        onClick={() => onSelectStylePack(pack.name)}
+                        className="px-2 py-1 text-[9px] font-black uppercase tracking-widest text-slate-500 border border-slate-200 rounded-lg hover:text-indigo-600 hover:border-indigo-200"
+                      >
+                        使用
+                      </button>
+                    )}
+                    <button
+                      onClick={() => deleteStylePack(pack.name)}
+                      className="p-1.5 text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="删除画风包"
+                    >
+                      <Trash2 size={14} />
+                    </button>
                   </div>
+                  {isExpanded && (
+                    <div className="mt-3 grid grid-cols-4 gap-2">
+                      {pack.references.map(scene => (
+                        <div key={scene.id} className="relative group/scene text-center">
+                          {scene.imagePreview ? (
+                            <img src={scene.imagePreview} className="w-full aspect-square rounded-lg object-cover border border-slate-100" />
+                          ) : (
+                            <div className="w-full aspect-square rounded-lg border border-slate-100 bg-slate-50 flex items-center justify-center">
+                              <AlertCircle size={14} className="text-amber-400" />
+                            </div>
+                          )}
+                          <p className="text-[9px] font-bold text-slate-500 mt-1 truncate">{scene.name}</p>
+                          <button
+                            onClick={() => deleteSceneReference(scene.id)}
+                            className="absolute -top-1.5 -right-1.5 bg-slate-800 text-white rounded-full p-0.5 opacity-0 group-hover/scene:opacity-100 hover:bg-red-500 transition-all"
+                          >
+                            <X size={8} />
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
-                <button 
-                  onClick={() => deleteSceneReference(scene.id)}
-                  className="p-2 text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
-                >
-                  <Trash2 size={16} />
-                </button>
-              </div>
-            ))}
+              );
+            })}
           </div>
         </div>
       </div>
 
       <div className="mt-auto pt-6 border-t border-slate-100">
+        {storageUsage && (
+          <div className="mb-4 space-y-1.5" title="素材按内容哈希去重存储在浏览器 IndexedDB 中">
+            <div className="flex items-center justify-between text-[9px] font-bold uppercase tracking-widest text-slate-400">
+              <span>本地素材 {storageUsage.assetCount} 个 · {formatBytes(storageUsage.assetBytes)}</span>
+              {storageUsage.quota ? (
+                <span>{formatBytes(storageUsage.usage || 0)} / {formatBytes(storageUsage.quota)}</span>
+              ) : null}
+            </div>
+            {storageUsage.quota ? (
+              <div className="h-1 rounded-full bg-slate-100 overflow-hidden">
+                <div
+                  className={`h-full rounded-full ${(storageUsage.usage || 0) / storageUsage.quota > 0.8 ? 'bg-amber-400' : 'bg-indigo-400'}`}
+                  style={{ width: `${Math.min(100, Math.max(1, ((storageUsage.usage || 0) / storageUsage.quota) * 100))}%` }}
+                />
+              </div>
+            ) : null}
+          </div>
+        )}
         <div className="flex flex-col items-center gap-2">
           <p className="text-[9px] text-slate-400 font-bold uppercase tracking-widest opacity-60">
             安全多模态追踪已开启
@@ -0,0 +1,261 @@
+import React, { useRef, useState } from 'react';
+import { Columns2, Plus, Rows2, Trash2, WandSparkles } from 'lucide-react';
+import {
+  balloonShape,
+  balloonTail,
+  createLettering,
+  layoutGlyphs,
+  Lettering,
+  LETTERING_FONT,
+  LETTERING_KINDS,
+  LetteringKind
+} from '../services/lettering';
+import { DEFAULT_PAGE_GEOMETRY } from '../services/pageLayouts';
+
+interface LetteringLayerProps {
+  imageUrl: string;
+  alt: string;
+  items: Lettering[];
+  /** Without it the layer is shown but cannot be changed. */
+  onChange?: (items: Lettering[]) => void;
+  /** Replaces the items with ones placed from the storyboard dialogue. */
+  onAutoPlace?: () => void;
+  className?: string;
+  /** Extra classes for the editing bars below the page. */
+  controlsClassName?: string;
+  /** Drawn over the image when the layer is read-only, e.g. the render trace on hover. */
+  children?: React.ReactNode;
+}
+
+// Pages are drawn in the page geometry's units; the SVG is stretched over the image.
+const page = { width: DEFAULT_PAGE_GEOMETRY.width, height: DEFAULT_PAGE_GEOMETRY.height };
+
+const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+
+const LetteringShape = ({ item, selected }: { item: Lettering; selected: boolean }) => {
+  const shape = balloonShape(item, page);
+  const tail = balloonTail(item, page);
+  const stroke = selected ? '#6366f1' : '#111111';
+  const strokeWidth = page.width * 0.003;
+  const glyphs = layoutGlyphs(item, page);
+  const fontSize = item.fontSize * page.width;
+  return (
+    <>
+      {tail?.type === 'wedge' && (
+        <polygon points={tail.points.map(point => point.join(',')).join(' ')} fill="#ffffff" stroke={stroke} strokeWidth={strokeWidth} />
+      )}
+      {tail?.type === 'bubbles' && tail.circles.map((circle, index) => (
+        <circle key={index} cx={circle.cx} cy={circle.cy} r={circle.r} fill="#ffffff" stroke={stroke} strokeWidth={strokeWidth} />
+      ))}
+      {shape?.type === 'ellipse' && (
+        <ellipse
+          cx={shape.cx}
+          cy={shape.cy}
+          rx={shape.rx}
+          ry={shape.ry}
+          fill="#ffffff"
+          stroke={stroke}
+          strokeWidth={strokeWidth}
+          strokeDasharray={item.kind === 'thought' ? `${strokeWidth * 3} ${strokeWidth * 2}` : undefined}
+        />
+      )}
+      {shape?.type === 'rect' && (
+        <rect x={shape.x} y={shape.y} width={shape.width} height={shape.height} fill="#fffdf2" stroke={stroke} strokeWidth={strokeWidth} />
+      )}
+      {glyphs.map((glyph, index) => (
+        <text
+          key={index}
+          x={glyph.x}
+          y={glyph.y}
+          textAnchor="middle"
+          dominantBaseline="central"
+          fontFamily={LETTERING_FONT}
+          fontSize={fontSize}
+          fontWeight={item.kind === 'sfx' ? 900 : 500}
+          fill={item.kind === 'sfx' && selected ? '#4f46e5' : '#111111'}
+          stroke={item.kind === 'sfx' ? '#ffffff' : undefined}
+          strokeWidth={item.kind === 'sfx' ? fontSize * 0.18 : undefined}
+          strokeLinejoin="round"
+          paintOrder="stroke"
+        >
+          {glyph.char}
+        </text>
+      ))}
+    </>
+  );
+};
+
+/**
+ * A rendered page with its lettering drawn over it as SVG. Items are dragged by their body, tails by
+ * their handle; the selected item is edited in the bar below the page.
+ */
+export const LetteringLayer: React.FC<LetteringLayerProps> = ({ imageUrl, alt, items, onChange, onAutoPlace, className, controlsClassName, children }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [drag, setDrag] = useState<{ id: string; part: 'body' | 'tail'; dx: number; dy: number } | null>(null);
+  const editable = Boolean(onChange);
+  const selected = items.find(item => item.id === selectedId);
+
+  const update = (id: string, patch: Partial<Lettering>) =>
+    onChange?.(items.map(item => (item.id === id ? { ...item, ...patch } : item)));
+
+  // Pointer position as fractions of the page.
+  const toPage = (event: React.PointerEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return { x: clamp((event.clientX - rect.left) / rect.width), y: clamp((event.clientY - rect.top) / rect.height) };
+  };
+
+  const startDrag = (event: React.PointerEvent, item: Lettering, part: 'body' | 'tail') => {
+    if (!editable) return;
+    event.stopPropagation();
+    (event.target as Element).setPointerCapture?.(event.pointerId);
+    const point = toPage(event);
+    const origin = part === 'tail' && item.tail ? item.tail : item;
+    setSelectedId(item.id);
+    setDrag({ id: item.id, part, dx: point.x - origin.x, dy: point.y - origin.y });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!drag) return;
+    const point = toPage(event);
+    const next = { x: clamp(point.x - drag.dx), y: clamp(point.y - drag.dy) };
+    const item = items.find(entry => entry.id === drag.id);
+    if (!item) return;
+    if (drag.part === 'tail') {
+      update(item.id, { tail: next });
+    } else {
+      // The tail keeps pointing at the same spot while the balloon moves.
+      update(item.id, next);
+    }
+  };
+
+  const addItem = (kind: LetteringKind) => {
+    const item = createLettering(kind, kind === 'sfx' ? '轰！' : '……');
+    onChange?.([...items, item]);
+    setSelectedId(item.id);
+  };
+
+  return (
+    <div className={`space-y-2 ${className || ''}`}>
+      <div className="relative group">
+        <img src={imageUrl} alt={alt} className="w-full block" />
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${page.width} ${page.height}`}
+          preserveAspectRatio="none"
+          className={`absolute inset-0 w-full h-full ${editable ? 'touch-none' : 'pointer-events-none'}`}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => setDrag(null)}
+          onPointerDown={() => setSelectedId(null)}
+        >
+          {items.map(item => (
+            <g
+              key={item.id}
+              onPointerDown={event => startDrag(event, item, 'body')}
+              className={editable ? 'cursor-move' : undefined}
+            >
+              <LetteringShape item={item} selected={item.id === selectedId} />
+            </g>
+          ))}
+          {selected?.tail && (selected.kind === 'speech' || selected.kind === 'thought') && (
+            <circle
+              cx={selected.tail.x * page.width}
+              cy={selected.tail.y * page.height}
+              r={page.width * 0.012}
+              fill="#6366f1"
+              stroke="#ffffff"
+              strokeWidth={page.width * 0.003}
+              className="cursor-crosshair"
+              onPointerDown={event => startDrag(event, selected, 'tail')}
+            />
+          )}
+        </svg>
+        {!editable && children}
+      </div>
+      {editable && (
+        <div className={`flex flex-wrap items-center gap-2 text-xs text-slate-300 ${controlsClassName || ''}`}>
+          {LETTERING_KINDS.map(kind => (
+            <button
+              key={kind.id}
+              onClick={() => addItem(kind.id)}
+              className="inline-flex items-center gap-1 px-2 py-1 rounded-md border border-slate-700 hover:border-indigo-400 hover:text-white transition-colors"
+            >
+              <Plus size={11} />
+              {kind.label}
+            </button>
+          ))}
+          {onAutoPlace && (
+            <button
+              onClick={() => {
+                if (items.length === 0 || window.confirm('按分镜对白重新排布本页文字？手动调整将被覆盖。')) onAutoPlace();
+              }}
+              className="inline-flex items-center gap-1 px-2 py-1 rounded-md border border-slate-700 hover:border-indigo-400 hover:text-white transition-colors"
+            >
+              <WandSparkles size={11} />
+              按对白重新排布
+            </button>
+          )}
+          <span className="text-[11px] text-slate-500">文字为矢量图层，仅在导出/下载时合成到图片中</span>
+        </div>
+      )}
+      {editable && selected && (
+        <div className={controlsClassName}>
+          <div className="flex flex-wrap items-start gap-2 p-3 rounded-lg border border-slate-800 bg-slate-900/70 text-xs text-slate-300">
+            <select
+              value={selected.kind}
+              onChange={event => {
+                const kind = event.target.value as LetteringKind;
+                const hasTail = kind === 'speech' || kind === 'thought';
+                update(selected.id, {
+                  kind,
+                  tail: hasTail ? selected.tail || { x: selected.x, y: clamp(selected.y + 0.08) } : undefined
+                });
+              }}
+              className="bg-slate-950 border border-slate-700 rounded-md px-2 py-1 text-slate-200 outline-none focus:border-indigo-500"
+            >
+              {LETTERING_KINDS.map(kind => (
+                <option key={kind.id} value={kind.id}>{kind.label}</option>
+              ))}
+            </select>
+            <textarea
+              value={selected.text}
+              onChange={event => update(selected.id, { text: event.target.value })}
+              rows={2}
+              className="flex-1 min-w-[200px] bg-slate-950 border border-slate-700 rounded-md px-2 py-1 text-slate-200 outline-none focus:border-indigo-500 resize-y"
+            />
+            <button
+              onClick={() => update(selected.id, { vertical: !selected.vertical })}
+              className="inline-flex items-center gap-1 px-2 py-1 rounded-md border border-slate-700 hover:border-indigo-400 hover:text-white transition-colors"
+              title="切换横排/竖排"
+            >
+              {selected.vertical ? <Columns2 size={12} /> : <Rows2 size={12} />}
+              {selected.vertical ? '竖排' : '横排'}
+            </button>
+            <label className="inline-flex items-center gap-1">
+              字号
+              <input
+                type="range"
+                min={0.015}
+                max={0.12}
+                step={0.002}
+                value={selected.fontSize}
+                onChange={event => update(selected.id, { fontSize: Number(event.target.value) })}
+                className="w-24 accent-indigo-500"
+              />
+            </label>
+            <button
+              onClick={() => {
+                onChange?.(items.filter(item => item.id !== selected.id));
+                setSelectedId(null);
+              }}
+              className="p-1.5 rounded-md text-slate-500 hover:text-rose-300 hover:bg-slate-800 transition-colors"
+              title="删除"
+            >
+              <Trash2 size={13} />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
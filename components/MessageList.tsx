@@ -1,7 +1,10 @@
 import React, { useEffect, useRef, useState } from 'react';
 import ReactMarkdown from 'react-markdown';
-import { Bot, User, AlertCircle, Download, Copy, Check, Globe, Image as ImageIcon, Sparkles, Search, Activity, ChevronDown, ChevronUp, UserCheck } from 'lucide-react';
-import { ChatMessage, LoadingStatus, Entity } from '../types';
+import { Bot, User, AlertCircle, Download, Copy, Check, Globe, Image as ImageIcon, Sparkles, Search, Activity, ChevronDown, ChevronUp, ChevronLeft, ChevronRight, UserCheck, Square, Pencil, RefreshCw } from 'lucide-react';
+import { formatContextSize, formatContextUsage } from '../services/contextBudget';
+import { formatPromptRef } from '../services/promptTemplates';
+import { buildMentionChunks, MentionChunk } from '../services/mentions';
+import { ChatMessage, ContextUsage, LoadingStatus, Entity } from '../types';
 
 interface MessageListProps {
   messages: ChatMessage[];
@@ -9,8 +12,35 @@ interface MessageListProps {
   loadingStatus: LoadingStatus;
   onSuggestionClick?: (text: string) => void;
   entities: Entity[];
+  /** Position among the alternatives of a message, for messages that have been edited or regenerated. */
+  branches?: Record<string, BranchPosition>;
+  onSelectBranch?: (messageId: string, offset: number) => void;
+  onEditMessage?: (message: ChatMessage, text: string) => void;
+  onRegenerate?: (message: ChatMessage) => void;
 }
 
+export interface BranchPosition {
+  index: number;
+  count: number;
+}
+
+const BranchSwitcher = ({ position, onSelect, tone }: { position: BranchPosition; onSelect: (offset: number) => void; tone: 'user' | 'model' }) => {
+  const buttonClass = tone === 'user'
+    ? 'p-1 rounded-lg text-white/70 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent transition-colors'
+    : 'p-1 rounded-lg text-slate-400 hover:text-indigo-600 hover:bg-slate-100 disabled:opacity-30 disabled:hover:bg-transparent transition-colors';
+  return (
+    <div className={`flex items-center gap-0.5 text-[10px] font-bold tabular-nums ${tone === 'user' ? 'text-white/80' : 'text-slate-400'}`}>
+      <button onClick={() => onSelect(-1)} disabled={position.index === 0} className={buttonClass} title="上一个版本">
+        <ChevronLeft size={14} />
+      </button>
+      <span>{position.index + 1} / {position.count}</span>
+      <button onClick={() => onSelect(1)} disabled={position.index === position.count - 1} className={buttonClass} title="下一个版本">
+        <ChevronRight size={14} />
+      </button>
+    </div>
+  );
+};
+
 const CopyButton = ({ text }: { text: string }) => {
   const [copied, setCopied] = useState(false);
   const handleCopy = async () => {
@@ -29,7 +59,7 @@ const CopyButton = ({ text }: { text: string }) => {
   );
 };
 
-const TraceView = ({ trace }: { trace: any[] }) => {
+const TraceView = ({ trace, usage, templates }: { trace: any[]; usage?: ContextUsage; templates?: ChatMessage['promptTemplates'] }) => {
   const [isOpen, setIsOpen] = useState(false);
 
   const renderPart = (part: any, index: number) => {
@@ -71,17 +101,34 @@ const TraceView = ({ trace }: { trace: any[] }) => {
 
   return (
     <div className="mt-4 pt-3 border-t border-slate-100/50">
-      <button 
-        onClick={() => setIsOpen(!isOpen)}
-        className="flex items-center gap-2 text-[10px] font-bold text-slate-400 hover:text-indigo-500 uppercase tracking-[0.15em] transition-all group"
-      >
-        <Activity size={12} className={`${isOpen ? 'text-indigo-500 animate-pulse' : 'group-hover:text-indigo-400'}`} />
-        <span>{isOpen ? '隐藏发送负载 (Trace)' : '查看 JIT 知识注入详情'}</span>
-        {isOpen ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
-      </button>
+      <div className="flex items-center justify-between gap-3">
+        <button 
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center gap-2 text-[10px] font-bold text-slate-400 hover:text-indigo-500 uppercase tracking-[0.15em] transition-all group"
+        >
+          <Activity size={12} className={`${isOpen ? 'text-indigo-500 animate-pulse' : 'group-hover:text-indigo-400'}`} />
+          <span>{isOpen ? '隐藏发送负载 (Trace)' : '查看 JIT 知识注入详情'}</span>
+          {isOpen ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
+        </button>
+        {usage && (
+          <span className="text-[10px] font-mono text-slate-300" title="本轮新发送内容的估算大小">
+            {formatContextSize(usage.turn)}
+          </span>
+        )}
+      </div>
       
       {isOpen && (
         <div className="mt-3 p-4 bg-slate-950 rounded-2xl border border-slate-800 shadow-inner animate-in slide-in-from-top-2 duration-300 space-y-4">
+          {usage && (
+            <div className="text-[10px] font-semibold text-slate-400 leading-relaxed border-b border-slate-800 pb-3">
+              {formatContextUsage(usage)}
+            </div>
+          )}
+          {templates && templates.length > 0 && (
+            <div className="text-[10px] font-mono text-slate-400 border-b border-slate-800 pb-3">
+              提示词模板：{templates.map(formatPromptRef).join('，')}
+            </div>
+          )}
           {trace.map(renderPart)}
         </div>
       )}
@@ -89,60 +136,24 @@ const TraceView = ({ trace }: { trace: any[] }) => {
   );
 };
 
-type MentionChunk = {
-  type: 'text' | 'mention';
-  value: string;
-  entity?: Entity;
-};
-
-const buildMentionChunks = (text: string, entities: Entity[]): MentionChunk[] => {
-  if (!text || entities.length === 0) {
-    return [{ type: 'text', value: text }];
-  }
-
-  const tokens = entities.map((entity) => ({
-    token: `@${entity.name}`,
-    entity
-  }));
-
-  const chunks: MentionChunk[] = [];
-  let cursor = 0;
-
-  while (cursor < text.length) {
-    let nextIndex = -1;
-    let nextToken: { token: string; entity: Entity } | null = null;
-
-    for (const entry of tokens) {
-      const idx = text.indexOf(entry.token, cursor);
-      if (idx === -1) continue;
-      if (nextIndex === -1 || idx < nextIndex || (idx === nextIndex && entry.token.length > (nextToken?.token.length || 0))) {
-        nextIndex = idx;
-        nextToken = entry;
-      }
-    }
-
-    if (nextIndex === -1 || !nextToken) {
-      chunks.push({ type: 'text', value: text.slice(cursor) });
-      break;
-    }
-
-    if (nextIndex > cursor) {
-      chunks.push({ type: 'text', value: text.slice(cursor, nextIndex) });
-    }
-
-    chunks.push({ type: 'mention', value: nextToken.token, entity: nextToken.entity });
-    cursor = nextIndex + nextToken.token.length;
-  }
-
-  return chunks;
-};
-
 const MentionToken = ({ chunk, variant }: { chunk: MentionChunk; variant: 'user' | 'suggestion' }) => {
   if (chunk.type !== 'mention') {
     return <span>{chunk.value}</span>;
   }
 
   const entity = chunk.entity;
+  if (!entity && chunk.candidates) {
+    return (
+      <span
+        className="inline-flex items-center gap-1 bg-amber-100 text-amber-800 font-bold px-2 py-0.5 rounded-lg border border-amber-200 mx-0.5 cursor-help"
+        title={`别名冲突，未注入参考：${chunk.candidates.map(candidate => candidate.name).join(' / ')}`}
+      >
+        <AlertCircle size={10} />
+        {chunk.value}
+      </span>
+    );
+  }
+
   const hasPreview = Boolean(entity?.imagePreview);
   const baseClasses = variant === 'user'
     ? 'inline-flex items-center gap-1 bg-white/20 text-white font-bold px-2 py-0.5 rounded-lg border border-white/30 mx-0.5 shadow-sm backdrop-blur-sm transform hover:scale-105 transition-transform cursor-default'
@@ -172,13 +183,117 @@ const MentionToken = ({ chunk, variant }: { chunk: MentionChunk; variant: 'user'
   );
 };
 
-export const MessageList: React.FC<MessageListProps> = ({ messages, isTyping, loadingStatus, onSuggestionClick, entities }) => {
+export const MessageList: React.FC<MessageListProps> = ({
+  messages,
+  isTyping,
+  loadingStatus,
+  onSuggestionClick,
+  entities,
+  branches = {},
+  onSelectBranch,
+  onEditMessage,
+  onRegenerate
+}) => {
   const bottomRef = useRef<HTMLDivElement>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  // Once the reply starts streaming it shows its own progress; the typing bubble is only for the wait before.
+  const isStreaming = messages.some(message => message.isStreaming);
 
   useEffect(() => {
     bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages, isTyping]);
 
+  const startEdit = (message: ChatMessage) => {
+    setEditingId(message.id);
+    setDraft(message.parts.map(part => part.text).filter(Boolean).join('\n'));
+  };
+
+  const submitEdit = (message: ChatMessage) => {
+    const text = draft.trim();
+    const hasImages = message.parts.some(part => part.inlineData);
+    if (!text && !hasImages) return;
+    setEditingId(null);
+    onEditMessage?.(message, text);
+  };
+
+  // Editing, regenerating and switching branches all change the thread, so they wait for the current reply.
+  const renderActions = (message: ChatMessage) => {
+    if (message.isStreaming || message.id === editingId) return null;
+    const isUser = message.role === 'user';
+    const position = branches[message.id];
+    const switcher = !isTyping && position && position.count > 1 && onSelectBranch
+      ? <BranchSwitcher position={position} onSelect={offset => onSelectBranch(message.id, offset)} tone={isUser ? 'user' : 'model'} />
+      : null;
+
+    if (isUser) {
+      if (isTyping || (!switcher && !onEditMessage)) return null;
+      return (
+        <div className="pt-2 flex items-center justify-end gap-1">
+          {switcher}
+          {onEditMessage && (
+            <button
+              onClick={() => startEdit(message)}
+              className="p-1.5 rounded-lg text-white/70 hover:text-white hover:bg-white/10 transition-colors"
+              title="编辑并重新发送"
+            >
+              <Pencil size={14} />
+            </button>
+          )}
+        </div>
+      );
+    }
+
+    return (
+      <div className="pt-2 flex items-center justify-end gap-1">
+        {switcher}
+        {!isTyping && onRegenerate && (
+          <button
+            onClick={() => onRegenerate(message)}
+            className="p-1.5 hover:bg-slate-100 rounded-lg text-slate-400 hover:text-indigo-600 transition-colors"
+            title="重新生成"
+          >
+            <RefreshCw size={14} />
+          </button>
+        )}
+        <CopyButton text={message.parts.map(p => p.text).filter(Boolean).join('\n')} />
+      </div>
+    );
+  };
+
+  const renderEditor = (message: ChatMessage) => (
+    <div className="space-y-2 min-w-[240px] md:min-w-[420px]">
+      <textarea
+        autoFocus
+        value={draft}
+        onChange={event => setDraft(event.target.value)}
+        onKeyDown={event => {
+          if (event.key === 'Enter' && !event.shiftKey && !event.nativeEvent.isComposing) {
+            event.preventDefault();
+            submitEdit(message);
+          }
+          if (event.key === 'Escape') setEditingId(null);
+        }}
+        rows={Math.min(8, Math.max(2, draft.split('\n').length))}
+        className="w-full bg-white/10 border border-white/30 rounded-2xl px-4 py-3 text-sm text-white placeholder-white/50 outline-none focus:border-white/60 resize-none"
+      />
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={() => setEditingId(null)}
+          className="px-3 py-1.5 rounded-xl text-xs font-semibold text-white/80 hover:bg-white/10 transition-colors"
+        >
+          取消
+        </button>
+        <button
+          onClick={() => submitEdit(message)}
+          className="px-3 py-1.5 rounded-xl text-xs font-semibold bg-white text-indigo-700 hover:bg-indigo-50 shadow transition-colors"
+        >
+          保存并发送
+        </button>
+      </div>
+    </div>
+  );
+
   const renderRichText = (text: string, isUser: boolean) => {
     if (!isUser) {
       return <ReactMarkdown>{text}</ReactMarkdown>;
@@ -196,10 +311,12 @@ export const MessageList: React.FC<MessageListProps> = ({ messages, isTyping, lo
   };
 
   const renderContent = (message: ChatMessage) => {
+    const isEditing = message.id === editingId;
     return (
       <div className="space-y-3">
         {message.parts.map((part, index) => {
           if (part.text) {
+            if (isEditing) return null;
             return (
               <div key={index} className="prose prose-sm prose-slate max-w-none break-words dark:prose-invert">
                 {renderRichText(part.text, message.role === 'user')}
@@ -228,6 +345,25 @@ export const MessageList: React.FC<MessageListProps> = ({ messages, isTyping, lo
           return null;
         })}
 
+        {isEditing && renderEditor(message)}
+
+        {message.isStreaming && (
+          <div className="flex items-center gap-2 text-[10px] font-bold text-indigo-400 uppercase tracking-widest">
+            <span className="w-1.5 h-4 bg-indigo-400 rounded-full animate-pulse" />
+            <span>{getLoadingText()}</span>
+          </div>
+        )}
+
+        {message.isStopped && (
+          <div className="flex items-center gap-1.5 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+            <Square size={10} fill="currentColor" />
+            <span>
+              {message.isTimedOut ? '请求超时' : '已停止生成'}
+              {message.parts.length > 0 ? '，以上为中断前收到的内容' : ''}
+            </span>
+          </div>
+        )}
+
         {message.groundingChunks && message.groundingChunks.length > 0 && (
           <div className="mt-4 pt-4 border-t border-slate-100/50">
             <div className="flex items-center gap-2 text-[10px] font-bold text-slate-400 mb-3 uppercase tracking-widest">
@@ -251,13 +387,9 @@ export const MessageList: React.FC<MessageListProps> = ({ messages, isTyping, lo
           </div>
         )}
 
-        {message.role === 'model' && message.trace && <TraceView trace={message.trace} />}
+        {message.role === 'model' && message.trace && <TraceView trace={message.trace} usage={message.contextUsage} templates={message.promptTemplates} />}
 
-        {message.role === 'model' && (
-          <div className="pt-2 flex justify-end">
-            <CopyButton text={message.parts.map(p => p.text).filter(Boolean).join('\n')} />
-          </div>
-        )}
+        {renderActions(message)}
       </div>
     );
   };
@@ -328,7 +460,7 @@ export const MessageList: React.FC<MessageListProps> = ({ messages, isTyping, lo
         </div>
       ))}
 
-      {isTyping && (
+      {isTyping && !isStreaming && (
         <div className="flex w-full justify-start animate-in fade-in slide-in-from-bottom-2 duration-300">
           <div className="flex max-w-[80%] gap-4 items-center">
              <div className="flex-shrink-0 w-11 h-11 rounded-2xl bg-white border border-slate-100 text-indigo-600 flex items-center justify-center shadow-md">
@@ -0,0 +1,203 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertCircle, FileText, History, RotateCcw, Save, X } from 'lucide-react';
+import {
+  fillTemplate,
+  findUnknownVariables,
+  getActivePromptRevision,
+  listPromptRevisions,
+  PROMPT_TEMPLATE_DEFINITIONS,
+  PROMPT_TEMPLATE_IDS,
+  PromptTemplateId,
+  savePromptRevision
+} from '../services/promptTemplates';
+
+interface PromptTemplateEditorProps {
+  projectId: string;
+  projectName: string;
+  onClose: () => void;
+}
+
+const sampleValues = (id: PromptTemplateId) =>
+  Object.fromEntries(PROMPT_TEMPLATE_DEFINITIONS[id].variables.map(variable => [variable.name, variable.sample]));
+
+export const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ projectId, projectName, onClose }) => {
+  const [selectedId, setSelectedId] = useState<PromptTemplateId>(PROMPT_TEMPLATE_IDS[0]);
+  const [draft, setDraft] = useState(() => getActivePromptRevision(PROMPT_TEMPLATE_IDS[0], projectId).text);
+  const [samples, setSamples] = useState<Record<string, string>>(() => sampleValues(PROMPT_TEMPLATE_IDS[0]));
+  // Bumped after a save so the revision list is read again.
+  const [savedAt, setSavedAt] = useState(0);
+
+  const definition = PROMPT_TEMPLATE_DEFINITIONS[selectedId];
+  const revisions = useMemo(() => listPromptRevisions(selectedId, projectId), [selectedId, projectId, savedAt]);
+  const active = revisions[revisions.length - 1];
+  const unknownVariables = useMemo(() => findUnknownVariables(selectedId, draft), [selectedId, draft]);
+  const preview = useMemo(() => fillTemplate(draft, samples), [draft, samples]);
+  const isDirty = draft !== active.text;
+
+  useEffect(() => {
+    setDraft(getActivePromptRevision(selectedId, projectId).text);
+    setSamples(sampleValues(selectedId));
+  }, [selectedId, projectId]);
+
+  const selectTemplate = (id: PromptTemplateId) => {
+    if (id === selectedId) return;
+    if (isDirty && !window.confirm('当前模板有未保存的修改，确定切换吗？')) return;
+    setSelectedId(id);
+  };
+
+  // Restoring an older text saves it as a new version, so the history stays append-only.
+  const saveText = (text: string) => {
+    const revision = savePromptRevision(selectedId, text, projectId);
+    setDraft(revision.text);
+    setSavedAt(Date.now());
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/60 backdrop-blur-sm p-4">
+      <div className="w-full max-w-6xl h-full max-h-[90vh] bg-white rounded-3xl shadow-2xl flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100">
+          <div>
+            <div className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Prompt Templates</div>
+            <div className="text-base font-black text-slate-900">提示词模板 · {projectName}</div>
+            <div className="text-[11px] text-slate-500 mt-1">修改只对当前项目生效，每次保存生成一个新版本，Trace 中会记录所用版本。</div>
+          </div>
+          <button
+            onClick={() => {
+              if (isDirty && !window.confirm('当前模板有未保存的修改，确定关闭吗？')) return;
+              onClose();
+            }}
+            className="p-2 rounded-full border border-slate-200 text-slate-400 hover:text-slate-900 hover:border-slate-400 transition-colors"
+            title="关闭"
+          >
+            <X size={14} />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 flex">
+          <div className="w-56 flex-shrink-0 border-r border-slate-100 p-3 space-y-1 overflow-y-auto">
+            {PROMPT_TEMPLATE_IDS.map(id => {
+              const version = getActivePromptRevision(id, projectId).version;
+              return (
+                <button
+                  key={id}
+                  onClick={() => selectTemplate(id)}
+                  className={`w-full text-left px-3 py-2 rounded-xl transition-colors ${
+                    id === selectedId ? 'bg-indigo-50 text-indigo-700' : 'text-slate-600 hover:bg-slate-50'
+                  }`}
+                >
+                  <div className="flex items-center gap-2 text-xs font-bold">
+                    <FileText size={12} />
+                    {PROMPT_TEMPLATE_DEFINITIONS[id].label}
+                  </div>
+                  <div className="text-[10px] font-mono text-slate-400 mt-0.5">{id} v{version}</div>
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="flex-1 min-w-0 flex flex-col p-5 gap-3 overflow-y-auto">
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <div className="text-sm font-bold text-slate-900">{definition.label}</div>
+                <div className="text-[11px] text-slate-500">{definition.description} 当前版本 v{active.version}</div>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <button
+                  onClick={() => setDraft(definition.defaultText)}
+                  className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-[11px] font-semibold border border-slate-200 text-slate-500 hover:text-slate-900 hover:border-slate-400"
+                  title="把内置模板填入编辑框，保存后生效"
+                >
+                  <RotateCcw size={12} />
+                  恢复默认
+                </button>
+                <button
+                  onClick={() => saveText(draft)}
+                  disabled={!isDirty || !draft.trim()}
+                  className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-[11px] font-semibold bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Save size={12} />
+                  保存为 v{active.version + 1}
+                </button>
+              </div>
+            </div>
+
+            <textarea
+              value={draft}
+              onChange={event => setDraft(event.target.value)}
+              spellCheck={false}
+              className="w-full min-h-[220px] flex-shrink-0 p-3 rounded-2xl border border-slate-200 text-xs font-mono leading-relaxed text-slate-800 focus:outline-none focus:border-indigo-400"
+            />
+
+            {unknownVariables.length > 0 && (
+              <div className="flex items-center gap-2 text-[11px] text-amber-700 bg-amber-50 border border-amber-100 rounded-xl px-3 py-2">
+                <AlertCircle size={12} />
+                未定义的变量不会被替换：{unknownVariables.map(name => `{{${name}}}`).join('、')}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <div className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">变量与示例输入</div>
+              {definition.variables.length === 0 && <div className="text-[11px] text-slate-400">该模板没有变量。</div>}
+              {definition.variables.map(variable => (
+                <label key={variable.name} className="block">
+                  <span className="text-[11px] text-slate-600">
+                    <code className="font-mono text-indigo-600">{`{{${variable.name}}}`}</code> {variable.description}
+                  </span>
+                  <textarea
+                    value={samples[variable.name] ?? ''}
+                    onChange={event => setSamples(prev => ({ ...prev, [variable.name]: event.target.value }))}
+                    rows={2}
+                    className="mt-1 w-full p-2 rounded-xl border border-slate-200 text-[11px] text-slate-700 focus:outline-none focus:border-indigo-400"
+                  />
+                </label>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <div className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">预览</div>
+              <pre className="whitespace-pre-wrap p-3 rounded-2xl bg-slate-950 text-[11px] font-mono text-indigo-200 leading-relaxed">
+                {preview}
+              </pre>
+            </div>
+          </div>
+
+          <div className="w-64 flex-shrink-0 border-l border-slate-100 p-3 overflow-y-auto">
+            <div className="flex items-center gap-2 text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-2">
+              <History size={12} />
+              版本历史
+            </div>
+            <div className="space-y-2">
+              {[...revisions].reverse().map(revision => (
+                <div key={revision.version} className="border border-slate-100 rounded-xl p-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-[11px] font-mono font-bold text-slate-700">v{revision.version}</span>
+                    <span className="text-[10px] text-slate-400">
+                      {revision.createdAt ? new Date(revision.createdAt).toLocaleString() : '内置'}
+                    </span>
+                  </div>
+                  <div className="text-[10px] text-slate-500 line-clamp-2 mt-1">{revision.text}</div>
+                  <div className="flex items-center gap-2 mt-1.5">
+                    <button
+                      onClick={() => setDraft(revision.text)}
+                      className="text-[10px] font-semibold text-slate-500 hover:text-indigo-600"
+                    >
+                      载入
+                    </button>
+                    {revision.version !== active.version && (
+                      <button
+                        onClick={() => saveText(revision.text)}
+                        className="text-[10px] font-semibold text-slate-500 hover:text-indigo-600"
+                      >
+                        恢复为新版本
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
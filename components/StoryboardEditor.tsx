@@ -0,0 +1,312 @@
+import React, { useMemo, useState } from 'react';
+import { Combine, FilePlus, GripVertical, Plus, Scissors, Trash2, X } from 'lucide-react';
+import { WorkshopScene } from '../services/comicStudioService';
+import {
+  deletePage,
+  deletePanel,
+  groupStoryboardPages,
+  insertPage,
+  insertPanel,
+  mergePanelWithNext,
+  movePanel,
+  PanelPatch,
+  splitPanel,
+  StoryboardEdit,
+  updatePanel
+} from '../services/storyboardEditor';
+
+interface StoryboardEditorProps {
+  storyboard: WorkshopScene[];
+  /** Session characters offered by the @ autocomplete, with their @. */
+  characterNames: string[];
+  disabled: boolean;
+  onEdit: (edit: StoryboardEdit) => void;
+  /** Maps a typed name to the session's spelling (e.g. an alias to the character). */
+  canonicalName: (name: string) => string;
+  /** A warning shown on a character chip, e.g. an ambiguous alias. */
+  getNameWarning: (name: string) => string | undefined;
+  renderPageActions: (pageNumber: number) => React.ReactNode;
+  /** Shown between a page's header and its panels. */
+  renderPageToolbar: (pageNumber: number) => React.ReactNode;
+  renderPageFooter: (pageNumber: number) => React.ReactNode;
+  /** Shown at the bottom of a panel card, e.g. the panel's own render. */
+  renderPanelFooter: (panel: WorkshopScene) => React.ReactNode;
+}
+
+const fieldClass =
+  'w-full bg-transparent border border-transparent hover:border-slate-800 focus:border-indigo-500 focus:bg-slate-950 rounded-md px-2 py-1 outline-none resize-y transition-colors';
+
+const iconButtonClass =
+  'p-1.5 rounded-md text-slate-500 hover:text-white hover:bg-slate-800 transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+const CharacterField = ({
+  names,
+  options,
+  disabled,
+  onChange,
+  canonicalName,
+  getNameWarning
+}: {
+  names: string[];
+  options: string[];
+  disabled: boolean;
+  onChange: (names: string[]) => void;
+  canonicalName: (name: string) => string;
+  getNameWarning: (name: string) => string | undefined;
+}) => {
+  const [query, setQuery] = useState('');
+  const search = query.replace(/^@/, '').trim();
+  const suggestions = query
+    ? options.filter(option => !names.includes(option) && option.replace(/^@/, '').includes(search)).slice(0, 6)
+    : [];
+
+  const add = (name: string) => {
+    const canonical = canonicalName(name);
+    if (canonical.replace(/^@/, '') && !names.includes(canonical)) onChange([...names, canonical]);
+    setQuery('');
+  };
+
+  return (
+    <div className="relative flex flex-wrap items-center gap-1.5 text-xs">
+      <span className="text-slate-400">角色：</span>
+      {names.map(name => {
+        const warning = getNameWarning(name);
+        return (
+          <span
+            key={name}
+            className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full border ${
+              warning ? 'border-amber-700 text-amber-300' : 'border-slate-700 text-slate-200'
+            } bg-slate-900`}
+            title={warning}
+          >
+            {name}{warning && ' ⚠'}
+            <button onClick={() => onChange(names.filter(item => item !== name))} disabled={disabled} className="hover:text-rose-300">
+              <X size={10} />
+            </button>
+          </span>
+        );
+      })}
+      <input
+        value={query}
+        onChange={event => setQuery(event.target.value)}
+        onKeyDown={event => {
+          if (event.key === 'Enter' && search) {
+            event.preventDefault();
+            add(suggestions[0] || `@${search}`);
+          } else if (event.key === 'Backspace' && !query && names.length > 0) {
+            onChange(names.slice(0, -1));
+          }
+        }}
+        disabled={disabled}
+        placeholder="@ 添加角色"
+        className="w-28 bg-transparent border-b border-slate-800 focus:border-indigo-500 outline-none px-1 py-0.5 text-slate-200 placeholder:text-slate-600"
+      />
+      {suggestions.length > 0 && (
+        <div className="absolute left-10 top-full mt-1 z-20 min-w-[140px] rounded-lg border border-slate-700 bg-slate-900 shadow-xl py-1">
+          {suggestions.map(option => (
+            <button
+              key={option}
+              onMouseDown={event => {
+                // Keep the input focused so a click adds the name before blur.
+                event.preventDefault();
+                add(option);
+              }}
+              className="block w-full text-left px-3 py-1 text-slate-200 hover:bg-indigo-600"
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * The storyboard as editable pages: panel text is edited in place, panels are dragged between
+ * positions and pages, and every edit renumbers pages, panels and scenes.
+ */
+export const StoryboardEditor: React.FC<StoryboardEditorProps> = ({
+  storyboard,
+  characterNames,
+  disabled,
+  onEdit,
+  canonicalName,
+  getNameWarning,
+  renderPageActions,
+  renderPageToolbar,
+  renderPageFooter,
+  renderPanelFooter
+}) => {
+  const pages = useMemo(() => groupStoryboardPages(storyboard), [storyboard]);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ pageNumber: number; index: number } | null>(null);
+
+  const patch = (id: string, value: PanelPatch) => onEdit(updatePanel(storyboard, id, value));
+
+  const handleDrop = (pageNumber: number, index: number) => {
+    if (draggedId) onEdit(movePanel(storyboard, draggedId, pageNumber, index));
+    setDraggedId(null);
+    setDropTarget(null);
+  };
+
+  const dropProps = (pageNumber: number, index: number) => ({
+    onDragOver: (event: React.DragEvent) => {
+      if (!draggedId) return;
+      event.preventDefault();
+      event.stopPropagation();
+      if (dropTarget?.pageNumber !== pageNumber || dropTarget.index !== index) setDropTarget({ pageNumber, index });
+    },
+    onDrop: (event: React.DragEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      handleDrop(pageNumber, index);
+    }
+  });
+
+  const dropIndicator = (pageNumber: number, index: number) =>
+    dropTarget?.pageNumber === pageNumber && dropTarget.index === index ? <div className="h-0.5 rounded-full bg-indigo-400" /> : null;
+
+  const insertPageButton = (afterPageNumber: number) => (
+    <button
+      onClick={() => onEdit(insertPage(storyboard, afterPageNumber))}
+      disabled={disabled}
+      className="w-full flex items-center justify-center gap-2 py-1.5 rounded-lg border border-dashed border-slate-800 text-[11px] text-slate-500 hover:text-indigo-300 hover:border-indigo-500 transition-colors disabled:opacity-40"
+    >
+      <FilePlus size={12} />
+      在此插入新页
+    </button>
+  );
+
+  return (
+    <div className="space-y-4">
+      {insertPageButton(0)}
+      {pages.map(page => (
+        <React.Fragment key={`page-${page.pageNumber}`}>
+          <div className="p-5 rounded-xl border border-slate-800 bg-slate-950/60 space-y-4" {...dropProps(page.pageNumber, page.panels.length)}>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <div className="px-3 py-1 rounded-full bg-slate-800 text-xs text-slate-200 border border-slate-700">
+                  第 {page.pageNumber} 页
+                </div>
+                <p className="text-sm text-slate-300">共 {page.panels.length} 个 panel</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => onEdit(insertPanel(storyboard, page.pageNumber))}
+                  disabled={disabled}
+                  className="inline-flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-xs border border-slate-700 text-slate-300 hover:text-white hover:border-indigo-400 transition-all disabled:opacity-50"
+                >
+                  <Plus size={12} />
+                  添加 panel
+                </button>
+                <button
+                  onClick={() => {
+                    if (window.confirm(`删除第 ${page.pageNumber} 页及其全部 panel？`)) onEdit(deletePage(storyboard, page.pageNumber));
+                  }}
+                  disabled={disabled}
+                  className={iconButtonClass}
+                  title="删除本页"
+                >
+                  <Trash2 size={14} />
+                </button>
+                {renderPageActions(page.pageNumber)}
+              </div>
+            </div>
+            {renderPageToolbar(page.pageNumber)}
+            <div className="space-y-3">
+              {page.panels.map((panel, index) => (
+                <React.Fragment key={panel.id}>
+                  {dropIndicator(page.pageNumber, index)}
+                  <div
+                    draggable={!disabled}
+                    onDragStart={event => {
+                      setDraggedId(panel.id);
+                      event.dataTransfer.effectAllowed = 'move';
+                    }}
+                    onDragEnd={() => {
+                      setDraggedId(null);
+                      setDropTarget(null);
+                    }}
+                    {...dropProps(page.pageNumber, index)}
+                    className={`rounded-lg border border-slate-800 bg-slate-950/70 p-3 space-y-2 ${draggedId === panel.id ? 'opacity-40' : ''}`}
+                  >
+                    <div className="flex items-center gap-2 text-xs text-slate-300">
+                      <GripVertical size={14} className="text-slate-600 cursor-grab" />
+                      <span className="px-2 py-0.5 rounded-full bg-slate-800 border border-slate-700 whitespace-nowrap">
+                        Panel {panel.panelNumber || panel.sceneNumber}
+                      </span>
+                      <input
+                        value={panel.location || ''}
+                        onChange={event => patch(panel.id, { location: event.target.value })}
+                        disabled={disabled}
+                        placeholder="地点"
+                        className={`${fieldClass} flex-1 min-w-0`}
+                      />
+                      <button onClick={() => onEdit(splitPanel(storyboard, panel.id))} disabled={disabled} className={iconButtonClass} title="拆分为两个 panel">
+                        <Scissors size={13} />
+                      </button>
+                      <button
+                        onClick={() => onEdit(mergePanelWithNext(storyboard, panel.id))}
+                        disabled={disabled || index === page.panels.length - 1}
+                        className={iconButtonClass}
+                        title="与下一个 panel 合并"
+                      >
+                        <Combine size={13} />
+                      </button>
+                      <button onClick={() => onEdit(deletePanel(storyboard, panel.id))} disabled={disabled} className={iconButtonClass} title="删除 panel">
+                        <Trash2 size={13} />
+                      </button>
+                    </div>
+                    <label className="flex items-start gap-1 text-sm text-slate-200 leading-relaxed">
+                      <span className="py-1 whitespace-nowrap">分镜：</span>
+                      <textarea
+                        value={panel.description || ''}
+                        onChange={event => patch(panel.id, { description: event.target.value })}
+                        disabled={disabled}
+                        rows={2}
+                        className={fieldClass}
+                      />
+                    </label>
+                    <label className="flex items-start gap-1 text-sm text-slate-300 leading-relaxed">
+                      <span className="py-1 whitespace-nowrap">对白：</span>
+                      <textarea
+                        value={panel.dialogue || ''}
+                        onChange={event => patch(panel.id, { dialogue: event.target.value })}
+                        disabled={disabled}
+                        rows={2}
+                        className={fieldClass}
+                      />
+                    </label>
+                    <CharacterField
+                      names={panel.charactersInScene}
+                      options={characterNames}
+                      disabled={disabled}
+                      onChange={names => patch(panel.id, { charactersInScene: names })}
+                      canonicalName={canonicalName}
+                      getNameWarning={getNameWarning}
+                    />
+                    <details className="text-xs text-slate-400 bg-slate-900/70 border border-slate-800 rounded-lg p-3">
+                      <summary className="cursor-pointer text-slate-300">视觉提示词 (英文)</summary>
+                      <textarea
+                        value={panel.visualPrompt || ''}
+                        onChange={event => patch(panel.id, { visualPrompt: event.target.value })}
+                        disabled={disabled}
+                        rows={4}
+                        className={`${fieldClass} mt-2`}
+                      />
+                    </details>
+                    {renderPanelFooter(panel)}
+                  </div>
+                </React.Fragment>
+              ))}
+              {dropIndicator(page.pageNumber, page.panels.length)}
+            </div>
+            {renderPageFooter(page.pageNumber)}
+          </div>
+          {insertPageButton(page.pageNumber)}
+        </React.Fragment>
+      ))}
+    </div>
+  );
+};
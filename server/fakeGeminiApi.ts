@@ -0,0 +1,170 @@
+import crypto from 'crypto';
+import { FAKE_GEMINI_PATH, FakeProvider, splitIntoStreamChunks } from '../services/fakeProvider';
+import type { ModelContent, ModelPart, ModelResponse } from '../services/modelProvider';
+import { toStreamResponse } from '../services/modelStream';
+import { readJsonBody, sendJson } from './http';
+
+const MAX_RECORDS = 200;
+const STREAM_DELAY_MS = 40;
+
+type RecordedPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; bytes: number; sha256: string } }
+  | Record<string, unknown>;
+
+export interface FakeGeminiRecord {
+  id: number;
+  receivedAt: number;
+  model: string;
+  stream: boolean;
+  systemInstruction?: string;
+  history: Array<{ role: string; parts: RecordedPart[] }>;
+  parts: RecordedPart[];
+  generationConfig?: Record<string, unknown>;
+  tools?: unknown[];
+}
+
+// Image payloads are summarised so the log stays small but still shows which reference was sent.
+const recordPart = (part: ModelPart): RecordedPart => {
+  if (part.inlineData) {
+    const data = part.inlineData.data || '';
+    return {
+      inlineData: {
+        mimeType: part.inlineData.mimeType,
+        bytes: Math.round((data.length * 3) / 4),
+        sha256: crypto.createHash('sha256').update(data).digest('hex').slice(0, 16)
+      }
+    };
+  }
+  if (typeof part.text === 'string') return { text: part.text };
+  return { ...part };
+};
+
+const stripSchema = ({ responseSchema, responseJsonSchema, ...config }: Record<string, any>) => ({
+  ...config,
+  ...(responseSchema || responseJsonSchema ? { responseSchema: '[schema]' } : {})
+});
+
+const sendApiError = (res: any, code: number, status: string, message: string) =>
+  sendJson(res, code, { error: { code, message, status } });
+
+const toApiResponse = (model: string, response: ModelResponse, finished = true) => ({
+  candidates: [
+    {
+      content: response.content || { role: 'model', parts: [] },
+      ...(finished ? { finishReason: 'STOP' } : {}),
+      index: 0
+    }
+  ],
+  usageMetadata: {
+    promptTokenCount: 0,
+    candidatesTokenCount: response.text.length,
+    totalTokenCount: response.text.length
+  },
+  modelVersion: model
+});
+
+const textResponse = (text: string): ModelResponse => ({
+  content: { role: 'model', parts: [{ text }] },
+  parts: [{ text }],
+  text
+});
+
+/**
+ * Stand-in for the Gemini REST API (`models/{model}:generateContent` and `:streamGenerateContent`),
+ * mounted at `/fake-gemini`.
+ * The real SDK talks to it through `httpOptions.baseUrl`, so prompt construction goes over the
+ * wire exactly as in production; answers come from `FakeProvider` and are deterministic.
+ * Received requests can be read (GET) or cleared (DELETE) at `/fake-gemini/__requests`.
+ */
+export const registerFakeGeminiApi = (middlewares: any) => {
+  const records: FakeGeminiRecord[] = [];
+  let nextId = 1;
+
+  const generate = async (model: string, body: any, stream: boolean) => {
+    const contents: ModelContent[] = Array.isArray(body.contents) ? body.contents : [];
+    const current = contents[contents.length - 1];
+    const history = contents.slice(0, -1);
+    const parts: ModelPart[] = current?.parts || [];
+    const config = body.generationConfig || {};
+    const systemInstruction = (body.systemInstruction?.parts || []).map((part: ModelPart) => part.text || '').join('\n');
+
+    records.push({
+      id: nextId++,
+      receivedAt: Date.now(),
+      model,
+      stream,
+      ...(systemInstruction ? { systemInstruction } : {}),
+      history: history.map(content => ({ role: content.role, parts: (content.parts || []).map(recordPart) })),
+      parts: parts.map(recordPart),
+      ...(body.generationConfig ? { generationConfig: stripSchema(config) } : {}),
+      ...(body.tools ? { tools: body.tools } : {})
+    });
+    if (records.length > MAX_RECORDS) records.splice(0, records.length - MAX_RECORDS);
+
+    // Every task maps to the requested model so the fake's replies name the model actually called.
+    const provider = new FakeProvider({ chat: model, extraction: model, storyboard: model, workshopImage: model });
+    const request = { task: 'chat' as const, contents: parts, history, systemInstruction };
+    const schema = config.responseSchema || config.responseJsonSchema;
+    if (schema) {
+      return textResponse(JSON.stringify(await provider.generateJson({ ...request, schema })));
+    }
+    if (config.imageConfig) {
+      return provider.generateImage({ ...request, imageConfig: { aspectRatio: config.imageConfig.aspectRatio } });
+    }
+    return provider.generateText(request);
+  };
+
+  middlewares.use(`${FAKE_GEMINI_PATH}/__requests`, (req: any, res: any, next: any) => {
+    if (req.method === 'GET') return sendJson(res, 200, { requests: records });
+    if (req.method === 'DELETE') {
+      records.length = 0;
+      return sendJson(res, 200, { ok: true });
+    }
+    next();
+  });
+
+  // Server-sent events as the real API sends them for `?alt=sse`; stops early when the client goes away.
+  const streamResponse = async (req: any, res: any, model: string, response: ModelResponse) => {
+    let closed = false;
+    req.on('close', () => {
+      closed = true;
+    });
+    res.statusCode = 200;
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    const chunks = splitIntoStreamChunks(response.parts);
+    for (let i = 0; i < chunks.length && !closed; i += 1) {
+      const chunk = toApiResponse(model, toStreamResponse(chunks[i]), i === chunks.length - 1);
+      res.write(`data: ${JSON.stringify(chunk)}\r\n\r\n`);
+      await new Promise(resolve => setTimeout(resolve, STREAM_DELAY_MS));
+    }
+    res.end();
+  };
+
+  middlewares.use(FAKE_GEMINI_PATH, async (req: any, res: any, next: any) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const match = decodeURIComponent(url.pathname).match(/^\/v1beta\/models\/([^/:]+):(generateContent|streamGenerateContent)$/);
+    if (!match) return next();
+    const [, model, method] = match;
+    if (req.method !== 'POST') return sendApiError(res, 405, 'INVALID_ARGUMENT', `Method ${req.method} not allowed`);
+    if (!req.headers['x-goog-api-key'] && !url.searchParams.get('key')) {
+      return sendApiError(res, 401, 'UNAUTHENTICATED', 'API key not provided');
+    }
+    let body: any;
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      return sendApiError(res, 400, 'INVALID_ARGUMENT', 'Invalid JSON payload');
+    }
+    try {
+      const stream = method === 'streamGenerateContent';
+      const response = await generate(model, body, stream);
+      if (stream) return await streamResponse(req, res, model, response);
+      sendJson(res, 200, toApiResponse(model, response));
+    } catch (error) {
+      console.error('[Fake Gemini] Failed to answer request', error);
+      sendApiError(res, 500, 'INTERNAL', 'Internal error');
+    }
+  });
+};
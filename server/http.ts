@@ -0,0 +1,26 @@
+/** Small helpers shared by the dev-server middlewares (connect-style `req`/`res`). */
+
+export const readJsonBody = (req: any): Promise<any> =>
+  new Promise((resolve, reject) => {
+    const chunks: Uint8Array[] = [];
+    req.on('data', (chunk: Uint8Array) => chunks.push(chunk));
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8') || '{}'));
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+
+export const sendJson = (res: any, statusCode: number, body: unknown) => {
+  res.setHeader('Content-Type', 'application/json');
+  res.statusCode = statusCode;
+  res.end(JSON.stringify(body));
+};
+
+export const sendError = (res: any, statusCode: number, message: string) => {
+  res.statusCode = statusCode;
+  res.end(message);
+};
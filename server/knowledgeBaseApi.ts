@@ -0,0 +1,493 @@
+import fs from 'fs';
+import path from 'path';
+import { readJsonBody, sendError, sendJson } from './http';
+
+type ManifestView = { view: string; path: string };
+type ManifestCharacter = { name: string; path: string; project?: string; views?: ManifestView[]; profile?: any };
+type ManifestProject = { id: string; name: string };
+type ManifestStyle = { pack: string; name: string; path: string };
+type Manifest = { projects?: ManifestProject[]; styles?: ManifestStyle[]; characters: ManifestCharacter[] };
+
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|webp|gif)$/i;
+
+const toSafeSegment = (value: string) => value.replace(/[\\/:*?"<>|]/g, '_');
+
+// Names taken from requests (project ids, style packs and names) must name a child entry: never empty, `.` or `..`.
+const isValidSegment = (value: string) => value !== '' && value !== '.' && value !== '..';
+
+// Characters of the root knowledge base carry no `project`; project characters live in `KnowledgeBase/<project>/`.
+const isEntry = (entry: ManifestCharacter, project: string, name: string) =>
+  entry.name === name && (entry.project || '') === project;
+
+// The root knowledge base is addressed with an empty project.
+const isValidProject = (project: string) => !project || isValidSegment(project);
+
+const assetDir = (project: string) => (project ? `KnowledgeBase/${toSafeSegment(project)}` : 'KnowledgeBase');
+
+// Style packs live in `KnowledgeBase/_styles/<pack>/`; folders starting with `_` are never projects.
+const STYLE_ROOT = 'KnowledgeBase/_styles';
+const isReservedDir = (dir: string) => dir.startsWith('_');
+const styleDir = (pack: string) => `${STYLE_ROOT}/${toSafeSegment(pack)}`;
+
+const listImages = async (dir: string) => {
+  try {
+    return (await fs.promises.readdir(dir, { withFileTypes: true }))
+      .filter(item => item.isFile() && IMAGE_EXTENSIONS.test(item.name))
+      .map(item => item.name);
+  } catch (e) {
+    return [];
+  }
+};
+
+const listDirs = async (dir: string) => {
+  try {
+    return (await fs.promises.readdir(dir, { withFileTypes: true }))
+      .filter(item => item.isDirectory())
+      .map(item => item.name);
+  } catch (e) {
+    return [];
+  }
+};
+
+const fileExists = async (filePath: string) => {
+  try {
+    await fs.promises.access(filePath);
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+const createStore = (rootDir: string) => {
+  const kbDir = path.join(rootDir, 'KnowledgeBase');
+  const manifestPath = path.join(kbDir, 'index.json');
+  const resolveAsset = (assetPath: string) => path.join(rootDir, assetPath);
+  // Resolves a path that is about to be written or removed and refuses anything outside `base`.
+  const resolveInside = (base: string, assetPath: string) => {
+    const resolved = path.resolve(rootDir, assetPath);
+    if (!resolved.startsWith(path.resolve(rootDir, base) + path.sep)) {
+      throw new Error(`Path escapes ${base}: ${assetPath}`);
+    }
+    return resolved;
+  };
+
+  const readManifest = async (): Promise<Manifest> => {
+    try {
+      const manifest = JSON.parse(await fs.promises.readFile(manifestPath, 'utf-8'));
+      return {
+        ...(Array.isArray(manifest.projects) ? { projects: manifest.projects } : {}),
+        ...(Array.isArray(manifest.styles) ? { styles: manifest.styles } : {}),
+        characters: Array.isArray(manifest.characters) ? manifest.characters : []
+      };
+    } catch (e) {
+      return { characters: [] };
+    }
+  };
+
+  const writeManifest = async (manifest: Manifest) => {
+    await fs.promises.mkdir(kbDir, { recursive: true });
+    await fs.promises.writeFile(manifestPath, JSON.stringify(manifest, null, 2));
+  };
+
+  const removeAsset = async (assetPath: string, base = 'KnowledgeBase') => {
+    if (!assetPath) return;
+    try {
+      await fs.promises.unlink(resolveInside(base, assetPath));
+    } catch (e: any) {
+      if (e?.code !== 'ENOENT') throw e;
+    }
+  };
+
+  /**
+   * Brings the manifest in line with the files in `KnowledgeBase/`: paths to missing files are
+   * dropped, entries left with no image, view or profile are removed, sub-folders become
+   * projects, and image files the manifest does not know about are added (`<name>__<view>.<ext>` as views).
+   */
+  const reconcile = async (): Promise<Manifest> => {
+    const manifest = await readManifest();
+    let changed = false;
+
+    const characters: ManifestCharacter[] = [];
+    for (const entry of manifest.characters) {
+      const next: ManifestCharacter = { ...entry, path: entry.path || '' };
+      if (next.path && !(await fileExists(resolveAsset(next.path)))) {
+        next.path = '';
+        changed = true;
+      }
+      if (next.views) {
+        const views: ManifestView[] = [];
+        for (const view of next.views) {
+          if (await fileExists(resolveAsset(view.path))) views.push(view);
+        }
+        if (views.length !== next.views.length) changed = true;
+        next.views = views.length > 0 ? views : undefined;
+      }
+      if (!next.path && !next.views && !next.profile) {
+        changed = true;
+        continue;
+      }
+      characters.push(next);
+    }
+
+    const projectDirs = (await listDirs(kbDir)).filter(dir => !isReservedDir(dir));
+    const projects: ManifestProject[] = [...(manifest.projects || [])];
+    projectDirs.forEach(dir => {
+      if (projects.some(project => toSafeSegment(project.id) === dir)) return;
+      projects.push({ id: dir, name: dir });
+      changed = true;
+    });
+
+    const known = new Set(characters.flatMap(entry => [entry.path, ...(entry.views || []).map(view => view.path)]));
+    for (const project of ['', ...projects.map(item => item.id).filter(isValidSegment)]) {
+      const files = await listImages(path.join(rootDir, assetDir(project)));
+      files.forEach(filename => {
+        const assetPath = `${assetDir(project)}/${filename}`;
+        if (known.has(assetPath)) return;
+        const base = filename.replace(/\.[^/.]+$/, '');
+        const viewMatch = base.match(/^(.+)__(.+)$/);
+        const name = viewMatch ? viewMatch[1] : base;
+        let entry = characters.find(item => (item.project || '') === project && toSafeSegment(item.name) === name);
+        if (!entry) {
+          entry = { name, path: '', ...(project ? { project } : {}) };
+          characters.push(entry);
+        }
+        if (viewMatch) {
+          entry.views = [...(entry.views || []).filter(view => view.view !== viewMatch[2]), { view: viewMatch[2], path: assetPath }];
+        } else if (!entry.path) {
+          entry.path = assetPath;
+        } else {
+          return;
+        }
+        changed = true;
+      });
+    }
+
+    const styles: ManifestStyle[] = [];
+    for (const style of manifest.styles || []) {
+      if (await fileExists(resolveAsset(style.path))) styles.push(style);
+      else changed = true;
+    }
+    const knownStyles = new Set(styles.map(style => style.path));
+    for (const pack of await listDirs(path.join(rootDir, STYLE_ROOT))) {
+      (await listImages(path.join(rootDir, STYLE_ROOT, pack))).forEach(filename => {
+        const assetPath = `${STYLE_ROOT}/${pack}/${filename}`;
+        if (knownStyles.has(assetPath)) return;
+        styles.push({ pack, name: filename.replace(/\.[^/.]+$/, ''), path: assetPath });
+        changed = true;
+      });
+    }
+
+    const reconciled: Manifest = {
+      ...(projects.length > 0 ? { projects } : {}),
+      ...(styles.length > 0 ? { styles } : {}),
+      characters
+    };
+    if (changed) await writeManifest(reconciled);
+    return reconciled;
+  };
+
+  const save = async (payload: any) => {
+    const name: string = (payload.name || '').trim();
+    const base64: string = payload.base64 || '';
+    const mimeType: string = payload.mimeType || 'image/png';
+    const view: string = (payload.view || '').trim();
+    const project: string = (payload.project || '').trim();
+    const profile = payload.profile && typeof payload.profile === 'object' ? payload.profile : undefined;
+    if (!name || !base64) return null;
+
+    const dir = assetDir(project);
+    const safeName = toSafeSegment(name);
+    const safeView = toSafeSegment(view);
+    const extension = mimeType.split('/')[1]?.split('+')[0] || 'png';
+    const filename = safeView ? `${safeName}__${safeView}.${extension}` : `${safeName}.${extension}`;
+    const assetPath = `${dir}/${filename}`;
+    const target = resolveInside('KnowledgeBase', assetPath);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await fs.promises.writeFile(target, Buffer.from(base64, 'base64'));
+
+    const manifest = await readManifest();
+    const idx = manifest.characters.findIndex(c => isEntry(c, project, name));
+    const blank: ManifestCharacter = { name, path: '', ...(project ? { project } : {}) };
+    let entry: ManifestCharacter;
+    if (safeView) {
+      // Views hang off the character entry; the primary portrait path is left untouched.
+      const existing = idx >= 0 ? manifest.characters[idx] : blank;
+      const views = (existing.views || []).filter(item => item.view !== view);
+      entry = { ...existing, views: [...views, { view, path: assetPath }] };
+    } else {
+      const existing = idx >= 0 ? manifest.characters[idx] : blank;
+      // A portrait saved under a new extension replaces the old file instead of orphaning it.
+      if (existing.path && existing.path !== assetPath) await removeAsset(existing.path);
+      entry = { ...existing, path: assetPath };
+    }
+    if (profile) {
+      entry.profile = profile;
+    }
+    if (idx >= 0) {
+      manifest.characters[idx] = entry;
+    } else {
+      manifest.characters.push(entry);
+    }
+    await writeManifest(manifest);
+    return entry;
+  };
+
+  const updateProfile = async (project: string, name: string, profile: any) => {
+    const manifest = await readManifest();
+    const idx = manifest.characters.findIndex(c => isEntry(c, project, name));
+    const blank: ManifestCharacter = { name, path: '', ...(project ? { project } : {}) };
+    const entry: ManifestCharacter = { ...(idx >= 0 ? manifest.characters[idx] : blank), profile };
+    if (idx >= 0) {
+      manifest.characters[idx] = entry;
+    } else {
+      manifest.characters.push(entry);
+    }
+    await writeManifest(manifest);
+    return entry;
+  };
+
+  /** Renames an entry and its files; relationships in other profiles follow the new name. */
+  const rename = async (project: string, from: string, to: string) => {
+    const manifest = await readManifest();
+    const idx = manifest.characters.findIndex(c => isEntry(c, project, from));
+    if (idx < 0) return { status: 404 as const };
+    if (manifest.characters.some(c => isEntry(c, project, to))) return { status: 409 as const };
+
+    const entry = manifest.characters[idx];
+    const moveAsset = async (assetPath: string, suffix: string) => {
+      if (!assetPath) return assetPath;
+      const extension = path.extname(assetPath);
+      const nextPath = `${assetDir(project)}/${toSafeSegment(to)}${suffix}${extension}`;
+      if (await fileExists(resolveAsset(assetPath))) {
+        await fs.promises.rename(resolveInside('KnowledgeBase', assetPath), resolveInside('KnowledgeBase', nextPath));
+      }
+      return nextPath;
+    };
+
+    const renamed: ManifestCharacter = {
+      ...entry,
+      name: to,
+      path: await moveAsset(entry.path, '')
+    };
+    if (entry.views) {
+      renamed.views = [];
+      for (const view of entry.views) {
+        renamed.views.push({ view: view.view, path: await moveAsset(view.path, `__${toSafeSegment(view.view)}`) });
+      }
+    }
+    manifest.characters[idx] = renamed;
+    manifest.characters.forEach(character => {
+      if ((character.project || '') !== project || !Array.isArray(character.profile?.relationships)) return;
+      character.profile.relationships = character.profile.relationships.map((rel: any) => (
+        rel.target === from ? { ...rel, target: to } : rel
+      ));
+    });
+    await writeManifest(manifest);
+    return { status: 200 as const, entry: renamed };
+  };
+
+  /** Deletes one view, or the whole entry with every file it references. */
+  const remove = async (project: string, name: string, view?: string) => {
+    const manifest = await readManifest();
+    const idx = manifest.characters.findIndex(c => isEntry(c, project, name));
+    if (idx < 0) return false;
+    const entry = manifest.characters[idx];
+
+    if (view) {
+      const target = (entry.views || []).find(item => item.view === view);
+      if (!target) return false;
+      await removeAsset(target.path);
+      const views = (entry.views || []).filter(item => item !== target);
+      manifest.characters[idx] = { ...entry, views: views.length > 0 ? views : undefined };
+    } else {
+      await removeAsset(entry.path);
+      for (const item of entry.views || []) {
+        await removeAsset(item.path);
+      }
+      manifest.characters.splice(idx, 1);
+    }
+    await writeManifest(manifest);
+    return true;
+  };
+
+  /** Registers a project and creates its folder; existing projects are returned unchanged. */
+  const createProject = async (name: string) => {
+    const manifest = await readManifest();
+    const projects = manifest.projects || [];
+    const existing = projects.find(project => project.id === name);
+    if (existing) return existing;
+    const project: ManifestProject = { id: name, name };
+    await fs.promises.mkdir(resolveInside('KnowledgeBase', assetDir(name)), { recursive: true });
+    await writeManifest({ ...manifest, projects: [...projects, project] });
+    return project;
+  };
+
+  const saveStyle = async (payload: any) => {
+    const pack: string = (payload.pack || '').trim();
+    const name: string = (payload.name || '').trim();
+    const base64: string = payload.base64 || '';
+    const mimeType: string = payload.mimeType || 'image/png';
+    if (!isValidSegment(pack) || !isValidSegment(name) || !base64) return null;
+
+    const extension = mimeType.split('/')[1]?.split('+')[0] || 'png';
+    const assetPath = `${styleDir(pack)}/${toSafeSegment(name)}.${extension}`;
+    const target = resolveInside(STYLE_ROOT, assetPath);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await fs.promises.writeFile(target, Buffer.from(base64, 'base64'));
+
+    const manifest = await readManifest();
+    const style: ManifestStyle = { pack, name, path: assetPath };
+    const styles = (manifest.styles || []).filter(item => !(item.pack === pack && item.name === name));
+    await writeManifest({ ...manifest, styles: [...styles, style] });
+    return style;
+  };
+
+  /** Deletes one style reference, or the whole pack when `name` is omitted. */
+  const removeStyle = async (pack: string, name?: string) => {
+    const manifest = await readManifest();
+    const targets = (manifest.styles || []).filter(item => item.pack === pack && (!name || item.name === name));
+    if (targets.length === 0) return false;
+    for (const target of targets) {
+      await removeAsset(target.path, STYLE_ROOT);
+    }
+    if (!name) {
+      await fs.promises.rm(resolveInside(STYLE_ROOT, styleDir(pack)), { recursive: true, force: true });
+    }
+    const styles = (manifest.styles || []).filter(item => !targets.includes(item));
+    await writeManifest({ ...manifest, styles });
+    return true;
+  };
+
+  // Every operation reads, edits and rewrites index.json; run them one at a time so batch uploads don't race.
+  let queue: Promise<unknown> = Promise.resolve();
+  const exclusive = <A extends any[], R>(task: (...args: A) => Promise<R>) => (...args: A): Promise<R> => {
+    const run = queue.then(() => task(...args));
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  return {
+    reconcile: exclusive(reconcile),
+    save: exclusive(save),
+    updateProfile: exclusive(updateProfile),
+    rename: exclusive(rename),
+    remove: exclusive(remove),
+    createProject: exclusive(createProject),
+    saveStyle: exclusive(saveStyle),
+    removeStyle: exclusive(removeStyle)
+  };
+};
+
+/**
+ * Dev/preview middleware backing `KnowledgeBase/` on disk.
+ *
+ * Character routes address the root knowledge base unless `?project=<id>` (or `project` in the
+ * save payload) names a project folder.
+ *
+ * - `POST   /api/knowledge-base/save` writes a portrait or view (`view`) and an optional `profile`
+ * - `POST   /api/knowledge-base/projects` registers a project and creates its folder (`{ name }`)
+ * - `GET    /api/knowledge-base/characters` lists the whole manifest (projects, styles, characters) after reconciling with the files
+ * - `GET    /api/knowledge-base/characters/:name` returns one entry
+ * - `PATCH  /api/knowledge-base/characters/:name` replaces the entry's `profile`
+ * - `POST   /api/knowledge-base/characters/:name/rename` renames the entry and its files (`{ name }`)
+ * - `DELETE /api/knowledge-base/characters/:name[?view=<key>]` deletes the entry or a single view
+ * - `POST   /api/knowledge-base/styles` writes one style reference (`{ pack, name, base64, mimeType }`)
+ * - `DELETE /api/knowledge-base/styles/:pack[/:name]` deletes a style pack or one reference in it
+ */
+export const registerKnowledgeBaseApi = (middlewares: any, rootDir: string) => {
+  const store = createStore(rootDir);
+
+  middlewares.use('/api/knowledge-base/save', async (req: any, res: any, next: any) => {
+    if (req.method !== 'POST') return next();
+    try {
+      const payload = await readJsonBody(req);
+      if (!isValidProject((payload.project || '').trim())) return sendError(res, 400, 'Invalid project');
+      const entry = await store.save(payload);
+      if (!entry) return sendError(res, 400, 'Missing name or base64 payload');
+      sendJson(res, 200, entry);
+    } catch (error) {
+      console.error('[KnowledgeBase Saver] Failed to persist asset', error);
+      sendError(res, 500, 'Internal Server Error');
+    }
+  });
+
+  middlewares.use('/api/knowledge-base/projects', async (req: any, res: any, next: any) => {
+    if (req.method !== 'POST') return next();
+    try {
+      const name: string = ((await readJsonBody(req)).name || '').trim();
+      if (!isValidSegment(name) || toSafeSegment(name) !== name) return sendError(res, 400, 'Invalid project name');
+      sendJson(res, 200, await store.createProject(name));
+    } catch (error) {
+      console.error('[KnowledgeBase API] Failed to create project', error);
+      sendError(res, 500, 'Internal Server Error');
+    }
+  });
+
+  middlewares.use('/api/knowledge-base/styles', async (req: any, res: any, next: any) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const [pack, name] = url.pathname.split('/').filter(Boolean).map(segment => decodeURIComponent(segment));
+    try {
+      if (!pack && req.method === 'POST') {
+        const style = await store.saveStyle(await readJsonBody(req));
+        return style ? sendJson(res, 200, style) : sendError(res, 400, 'Missing or invalid pack, name or base64 payload');
+      }
+      if (pack && req.method === 'DELETE') {
+        if (!isValidSegment(pack) || (name !== undefined && !isValidSegment(name))) {
+          return sendError(res, 400, 'Invalid style pack or name');
+        }
+        const removed = await store.removeStyle(pack, name);
+        return removed ? sendJson(res, 200, { ok: true }) : sendError(res, 404, `Unknown style reference: ${pack}/${name || ''}`);
+      }
+      next();
+    } catch (error) {
+      console.error('[KnowledgeBase API] Style request failed', error);
+      sendError(res, 500, 'Internal Server Error');
+    }
+  });
+
+  middlewares.use('/api/knowledge-base/characters', async (req: any, res: any, next: any) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const [encodedName, action] = url.pathname.split('/').filter(Boolean);
+    const name = encodedName ? decodeURIComponent(encodedName) : '';
+    const project = (url.searchParams.get('project') || '').trim();
+
+    try {
+      if (!isValidProject(project)) return sendError(res, 400, 'Invalid project');
+      if (!name) {
+        if (req.method !== 'GET') return next();
+        return sendJson(res, 200, await store.reconcile());
+      }
+
+      if (action === 'rename') {
+        if (req.method !== 'POST') return next();
+        const body = await readJsonBody(req);
+        const to: string = (body.name || '').trim();
+        if (!to) return sendError(res, 400, 'Missing new name');
+        if (to === name) return sendError(res, 400, 'New name is identical');
+        const result = await store.rename(project, name, to);
+        if (result.status === 404) return sendError(res, 404, `Unknown character: ${name}`);
+        if (result.status === 409) return sendError(res, 409, `Character already exists: ${to}`);
+        return sendJson(res, 200, result.entry);
+      }
+      if (action) return next();
+
+      if (req.method === 'GET') {
+        const entry = (await store.reconcile()).characters.find(c => isEntry(c, project, name));
+        return entry ? sendJson(res, 200, entry) : sendError(res, 404, `Unknown character: ${name}`);
+      }
+      if (req.method === 'PATCH') {
+        const body = await readJsonBody(req);
+        if (!body.profile || typeof body.profile !== 'object') return sendError(res, 400, 'Missing profile');
+        return sendJson(res, 200, await store.updateProfile(project, name, body.profile));
+      }
+      if (req.method === 'DELETE') {
+        const removed = await store.remove(project, name, url.searchParams.get('view') || undefined);
+        return removed ? sendJson(res, 200, { ok: true }) : sendError(res, 404, `Unknown character: ${name}`);
+      }
+      next();
+    } catch (error) {
+      console.error('[KnowledgeBase API] Request failed', error);
+      sendError(res, 500, 'Internal Server Error');
+    }
+  });
+};
@@ -0,0 +1,64 @@
+import { DEFAULT_ART_STYLE } from './promptTemplates';
+import { SceneReference } from '../types';
+import { StylePack } from './stylePacks';
+
+/**
+ * Art-style presets for Comic Studio. A preset's prompt fills the `{{artStyle}}` variable of the
+ * workshop system instruction, so character sheets and page renders of a session share it.
+ * A preset may also name a style pack (`KnowledgeBase/_styles/<pack>/`) whose images are sent
+ * as style references instead of the pack selected in the sidebar, when that pack exists.
+ */
+export interface ArtStylePreset {
+  id: string;
+  label: string;
+  description: string;
+  prompt: string;
+  stylePack?: string;
+}
+
+export const DEFAULT_ART_STYLE_ID = 'cg3d';
+
+export const ART_STYLE_PRESETS: ArtStylePreset[] = [
+  {
+    id: DEFAULT_ART_STYLE_ID,
+    label: '3D 写实',
+    description: '3D 游戏/CG 角色海报质感',
+    prompt: DEFAULT_ART_STYLE
+  },
+  {
+    id: 'manga',
+    label: '黑白漫画',
+    description: '日式黑白漫画，网点与排线',
+    prompt: '风格采用黑白日式漫画：纯黑白线稿，网点纸（screentone）与排线表现明暗，不使用任何彩色',
+    stylePack: '黑白漫画'
+  },
+  {
+    id: 'webtoon',
+    label: '彩色条漫',
+    description: '韩式条漫的平涂上色与柔和光影',
+    prompt: '风格采用彩色条漫（webtoon）：干净线稿，赛璐璐平涂上色，柔和渐变光影，色彩明快',
+    stylePack: '彩色条漫'
+  },
+  {
+    id: 'inkWash',
+    label: '水墨',
+    description: '中国水墨画，留白与晕染',
+    prompt: '风格采用中国水墨画：毛笔线条，墨色浓淡晕染，大面积留白，可点缀淡彩',
+    stylePack: '水墨'
+  },
+  {
+    id: 'chibi',
+    label: 'Q 版',
+    description: '大头短身的可爱 Q 版造型',
+    prompt: '风格采用 Q 版（chibi）：二至三头身，大眼睛，圆润简化的造型，明亮可爱的配色，保留角色的发型与服饰特征',
+    stylePack: 'Q版'
+  }
+];
+
+/** The preset with `id`; unknown or missing ids (older sessions) fall back to the default. */
+export const getArtStylePreset = (id?: string) =>
+  ART_STYLE_PRESETS.find(preset => preset.id === id) || ART_STYLE_PRESETS[0];
+
+/** Style references a preset renders with: its own pack if present, otherwise `fallback`. */
+export const resolvePresetStyleReferences = (preset: ArtStylePreset, packs: StylePack[], fallback: SceneReference[]) =>
+  (preset.stylePack && packs.find(pack => pack.name === preset.stylePack)?.references) || fallback;
@@ -0,0 +1,609 @@
+import { ChatConversation, ChatConversationMeta, ChatMessage, Entity, EntityView, SceneReference } from '../types';
+
+/**
+ * Browser-side asset store on IndexedDB. Image data is stored once per content hash in
+ * `assets`; entity and scene-reference lists live in `collections` with the base64 replaced
+ * by the hash, and page renders, chat conversations and Comic Studio image histories point
+ * at hashes as well.
+ */
+const ASSET_DB_NAME = 'comicStudioAssets';
+const ASSET_DB_VERSION = 4;
+const RENDER_STORE = 'pageRenders';
+const ASSET_STORE = 'assets';
+const COLLECTION_STORE = 'collections';
+const CONVERSATION_STORE = 'conversations';
+const WORKSHOP_STORE = 'workshopHistories';
+
+const LEGACY_ENTITIES_KEY = 'gemini_knowledge_base';
+const LEGACY_SCENE_REFS_KEY = 'gemini_scene_refs';
+
+type CollectionName = 'entities' | 'sceneRefs';
+
+interface StoredAsset {
+  hash: string;
+  base64: string;
+  mimeType: string;
+  size: number;
+  createdAt: number;
+}
+
+// Legacy render records (v1) carry the whole data URL in `imageUrl`.
+interface StoredRender {
+  assetHash?: string;
+  imageUrl?: string;
+  updatedAt: number;
+}
+
+type StoredView = Omit<EntityView, 'base64' | 'imagePreview'> & { assetHash: string };
+type StoredEntity = Omit<Entity, 'base64' | 'imagePreview' | 'views'> & { assetHash: string; views: StoredView[] };
+type StoredSceneReference = Omit<SceneReference, 'base64' | 'imagePreview'> & { assetHash: string };
+
+// Chat parts keep their shape; only `inlineData.data` is swapped for the asset hash.
+type StoredPart = { inlineData?: { mimeType: string; assetHash: string }; [key: string]: any };
+type StoredContent = { role: string; parts: StoredPart[] };
+type StoredMessage = Omit<ChatMessage, 'parts' | 'trace' | 'context'> & {
+  parts: StoredPart[];
+  trace?: StoredPart[];
+  context?: StoredContent[];
+};
+type StoredConversation = Omit<ChatConversation, 'messages' | 'history'> & {
+  messages: StoredMessage[];
+  history: StoredContent[];
+};
+interface StoredWorkshopHistory {
+  history: StoredContent[];
+  updatedAt: number;
+}
+
+export interface StorageUsage {
+  assetCount: number;
+  assetBytes: number;
+  usage?: number;
+  quota?: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openAssetDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(ASSET_DB_NAME, ASSET_DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(RENDER_STORE)) {
+          db.createObjectStore(RENDER_STORE);
+        }
+        if (!db.objectStoreNames.contains(ASSET_STORE)) {
+          db.createObjectStore(ASSET_STORE);
+        }
+        if (!db.objectStoreNames.contains(COLLECTION_STORE)) {
+          db.createObjectStore(COLLECTION_STORE);
+        }
+        if (!db.objectStoreNames.contains(CONVERSATION_STORE)) {
+          db.createObjectStore(CONVERSATION_STORE);
+        }
+        if (!db.objectStoreNames.contains(WORKSHOP_STORE)) {
+          db.createObjectStore(WORKSHOP_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => T
+) => {
+  const db = await openAssetDb();
+  return await new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeNames, mode);
+    const result = work(tx);
+    tx.oncomplete = () => resolve(result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const requestValue = <T>(request: IDBRequest) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+
+const readValue = async <T>(storeName: string, key: IDBValidKey) => {
+  const db = await openAssetDb();
+  return requestValue<T | undefined>(db.transaction(storeName, 'readonly').objectStore(storeName).get(key));
+};
+
+const readAll = async <T>(storeName: string) => {
+  const db = await openAssetDb();
+  const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+  const [keys, values] = await Promise.all([
+    requestValue<IDBValidKey[]>(store.getAllKeys()),
+    requestValue<T[]>(store.getAll())
+  ]);
+  return keys.map((key, index) => ({ key, value: values[index] }));
+};
+
+// FNV-1a over the data; used when SubtleCrypto is unavailable (plain-http LAN access).
+const fallbackHash = (input: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `fnv-${(hash >>> 0).toString(16)}-${input.length.toString(16)}`;
+};
+
+export const hashContent = async (base64: string) => {
+  if (!globalThis.crypto?.subtle) return fallbackHash(base64);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(base64));
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Hashes of each collection's last save, so unchanged images are not re-hashed on every state change.
+const knownHashes: Record<CollectionName, Map<string, string>> = {
+  entities: new Map(),
+  sceneRefs: new Map()
+};
+
+const hashCached = async (name: CollectionName, base64: string, nextKnown: Map<string, string>) => {
+  const hash = knownHashes[name].get(base64) || (await hashContent(base64));
+  nextKnown.set(base64, hash);
+  return hash;
+};
+
+// Writes and pruning run one at a time so a prune never drops an asset whose record is still being written.
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+const serialized = <T>(task: () => Promise<T>) => {
+  const run = writeQueue.then(task);
+  writeQueue = run.catch(() => undefined);
+  return run;
+};
+
+const toDataUrl = (asset?: Pick<StoredAsset, 'base64' | 'mimeType'>) =>
+  asset?.base64 ? `data:${asset.mimeType};base64,${asset.base64}` : '';
+
+/** Stores image data under its content hash (deduplicated) and returns the hash. */
+const putAsset = async (base64: string, mimeType: string) => {
+  const hash = await hashContent(base64);
+  const existing = await readValue<StoredAsset>(ASSET_STORE, hash);
+  if (!existing) {
+    await runTransaction([ASSET_STORE], 'readwrite', tx => {
+      const asset: StoredAsset = { hash, base64, mimeType, size: base64.length, createdAt: Date.now() };
+      tx.objectStore(ASSET_STORE).put(asset, hash);
+    });
+  }
+  return hash;
+};
+
+export const getAsset = async (hash: string) => {
+  if (!hash) return null;
+  const asset = await readValue<StoredAsset>(ASSET_STORE, hash);
+  return asset ? { base64: asset.base64, mimeType: asset.mimeType } : null;
+};
+
+const conversationParts = (conversation: StoredConversation) => [
+  ...conversation.messages.flatMap(message => [
+    ...message.parts,
+    ...(message.trace || []),
+    ...(message.context || []).flatMap(content => content.parts || [])
+  ]),
+  ...conversation.history.flatMap(content => content.parts || [])
+];
+
+/** Deletes assets no collection, page render, conversation or workshop history refers to any more. */
+const pruneAssets = async () => {
+  const [collections, renders, conversations, workshopHistories, assetKeys] = await Promise.all([
+    readAll<Array<{ assetHash?: string; views?: StoredView[] }>>(COLLECTION_STORE),
+    readAll<StoredRender>(RENDER_STORE),
+    readAll<StoredConversation>(CONVERSATION_STORE),
+    readAll<StoredWorkshopHistory>(WORKSHOP_STORE),
+    openAssetDb().then(db => requestValue<IDBValidKey[]>(db.transaction(ASSET_STORE, 'readonly').objectStore(ASSET_STORE).getAllKeys()))
+  ]);
+  const referenced = new Set<string>();
+  collections.forEach(({ value }) => {
+    value.forEach(record => {
+      if (record.assetHash) referenced.add(record.assetHash);
+      (record.views || []).forEach(view => referenced.add(view.assetHash));
+    });
+  });
+  renders.forEach(({ value }) => {
+    if (value.assetHash) referenced.add(value.assetHash);
+  });
+  conversations.forEach(({ value }) => {
+    conversationParts(value).forEach(part => {
+      if (part?.inlineData?.assetHash) referenced.add(part.inlineData.assetHash);
+    });
+  });
+  workshopHistories.forEach(({ value }) => {
+    value.history.flatMap(content => content.parts || []).forEach(part => {
+      if (part?.inlineData?.assetHash) referenced.add(part.inlineData.assetHash);
+    });
+  });
+  const orphaned = assetKeys.filter(key => !referenced.has(String(key)));
+  if (orphaned.length === 0) return;
+  await runTransaction([ASSET_STORE], 'readwrite', tx => {
+    orphaned.forEach(key => tx.objectStore(ASSET_STORE).delete(key));
+  });
+};
+
+/**
+ * Writes a collection and its assets in one transaction, then drops assets nothing refers to.
+ * Assets referenced by the collection's previous save are known to be stored and are skipped.
+ */
+const saveCollection = (
+  name: CollectionName,
+  records: unknown[],
+  assets: Map<string, { base64: string; mimeType: string }>,
+  nextKnown: Map<string, string>
+) =>
+  serialized(async () => {
+    const stored = new Set(knownHashes[name].values());
+    await runTransaction([ASSET_STORE, COLLECTION_STORE], 'readwrite', tx => {
+      const store = tx.objectStore(ASSET_STORE);
+      assets.forEach(({ base64, mimeType }, hash) => {
+        if (stored.has(hash)) return;
+        const asset: StoredAsset = { hash, base64, mimeType, size: base64.length, createdAt: Date.now() };
+        store.put(asset, hash);
+      });
+      tx.objectStore(COLLECTION_STORE).put(records, name);
+    });
+    await pruneAssets();
+    knownHashes[name] = nextKnown;
+  });
+
+export const saveEntities = async (entities: Entity[]) => {
+  const nextKnown = new Map<string, string>();
+  const assets = new Map<string, { base64: string; mimeType: string }>();
+  const collect = async (base64: string, mimeType: string) => {
+    if (!base64) return '';
+    const hash = await hashCached('entities', base64, nextKnown);
+    assets.set(hash, { base64, mimeType });
+    return hash;
+  };
+
+  const records: StoredEntity[] = [];
+  for (const { base64, imagePreview, views, ...entity } of entities) {
+    const storedViews: StoredView[] = [];
+    for (const { base64: viewBase64, imagePreview: viewPreview, ...view } of views || []) {
+      storedViews.push({ ...view, assetHash: await collect(viewBase64, view.mimeType) });
+    }
+    records.push({ ...entity, assetHash: await collect(base64, entity.mimeType), views: storedViews });
+  }
+  await saveCollection('entities', records, assets, nextKnown);
+};
+
+export const saveSceneReferences = async (references: SceneReference[]) => {
+  const nextKnown = new Map<string, string>();
+  const assets = new Map<string, { base64: string; mimeType: string }>();
+  const records: StoredSceneReference[] = [];
+  for (const { base64, imagePreview, ...ref } of references) {
+    const assetHash = base64 ? await hashCached('sceneRefs', base64, nextKnown) : '';
+    if (assetHash) assets.set(assetHash, { base64, mimeType: ref.mimeType });
+    records.push({ ...ref, assetHash });
+  }
+  await saveCollection('sceneRefs', records, assets, nextKnown);
+};
+
+/** Returns null when nothing was ever stored, so callers can tell "empty" from "never saved". */
+export const loadEntities = async (): Promise<Entity[] | null> => {
+  const records = await readValue<StoredEntity[]>(COLLECTION_STORE, 'entities');
+  if (!records) return null;
+  return Promise.all(records.map(async ({ assetHash, views, ...entity }) => {
+    const asset = await getAsset(assetHash);
+    const loadedViews = await Promise.all((views || []).map(async ({ assetHash: viewHash, ...view }) => {
+      const viewAsset = await getAsset(viewHash);
+      return { ...view, base64: viewAsset?.base64 || '', imagePreview: toDataUrl(viewAsset || undefined) };
+    }));
+    return {
+      ...entity,
+      base64: asset?.base64 || '',
+      imagePreview: toDataUrl(asset || undefined),
+      views: loadedViews
+    };
+  }));
+};
+
+export const loadSceneReferences = async (): Promise<SceneReference[] | null> => {
+  const records = await readValue<StoredSceneReference[]>(COLLECTION_STORE, 'sceneRefs');
+  if (!records) return null;
+  return Promise.all(records.map(async ({ assetHash, ...ref }) => {
+    const asset = await getAsset(assetHash);
+    return { ...ref, base64: asset?.base64 || '', imagePreview: toDataUrl(asset || undefined) };
+  }));
+};
+
+const renderKey = (sessionId: string, pageNumber: number) => `${sessionId}:${pageNumber}`;
+
+const writePageRender = async (key: IDBValidKey, imageUrl: string) => {
+  const [meta, data] = imageUrl.split(',');
+  const mimeType = meta.match(/data:(.*);base64/)?.[1];
+  // Non-data URLs (e.g. remote images) are kept as-is.
+  const record: StoredRender = mimeType && data
+    ? { assetHash: await putAsset(data, mimeType), updatedAt: Date.now() }
+    : { imageUrl, updatedAt: Date.now() };
+  await runTransaction([RENDER_STORE], 'readwrite', tx => {
+    tx.objectStore(RENDER_STORE).put(record, key);
+  });
+};
+
+export const savePageRender = async (sessionId: string, pageNumber: number, imageUrl: string) => {
+  if (!sessionId || !imageUrl) return;
+  await serialized(() => writePageRender(renderKey(sessionId, pageNumber), imageUrl));
+};
+
+export const deletePageRender = async (sessionId: string, pageNumber: number) => {
+  if (!sessionId) return;
+  await serialized(async () => {
+    await runTransaction([RENDER_STORE], 'readwrite', tx => {
+      tx.objectStore(RENDER_STORE).delete(renderKey(sessionId, pageNumber));
+    });
+    await pruneAssets();
+  });
+};
+
+/**
+ * Re-keys a session's page renders after the storyboard renumbered its pages; a page missing
+ * from `pageMap` was removed and loses its render.
+ */
+export const remapPageRenders = async (sessionId: string, pageNumbers: number[], pageMap: Record<number, number>) => {
+  if (!sessionId) return;
+  await serialized(async () => {
+    const records = await Promise.all(
+      pageNumbers.map(async pageNumber => ({ pageNumber, record: await readValue<StoredRender>(RENDER_STORE, renderKey(sessionId, pageNumber)) }))
+    );
+    await runTransaction([RENDER_STORE], 'readwrite', tx => {
+      const store = tx.objectStore(RENDER_STORE);
+      records.forEach(({ pageNumber }) => store.delete(renderKey(sessionId, pageNumber)));
+      records.forEach(({ pageNumber, record }) => {
+        if (record && pageMap[pageNumber]) store.put(record, renderKey(sessionId, pageMap[pageNumber]));
+      });
+    });
+    await pruneAssets();
+  });
+};
+
+export const getPageRender = async (sessionId: string, pageNumber: number) => {
+  if (!sessionId) return '';
+  const record = await readValue<StoredRender>(RENDER_STORE, renderKey(sessionId, pageNumber));
+  if (!record) return '';
+  if (record.assetHash) return toDataUrl((await getAsset(record.assetHash)) || undefined);
+  return record.imageUrl || '';
+};
+
+// Panel renders share the render store, keyed by panel id so they survive renumbering.
+const panelRenderKey = (sessionId: string, panelId: string) => `${sessionId}:panel:${panelId}`;
+
+export const savePanelRender = async (sessionId: string, panelId: string, imageUrl: string) => {
+  if (!sessionId || !imageUrl) return;
+  await serialized(() => writePageRender(panelRenderKey(sessionId, panelId), imageUrl));
+};
+
+export const deletePanelRenders = async (sessionId: string, panelIds: string[]) => {
+  if (!sessionId || panelIds.length === 0) return;
+  await serialized(async () => {
+    await runTransaction([RENDER_STORE], 'readwrite', tx => {
+      panelIds.forEach(panelId => tx.objectStore(RENDER_STORE).delete(panelRenderKey(sessionId, panelId)));
+    });
+    await pruneAssets();
+  });
+};
+
+export const getPanelRender = async (sessionId: string, panelId: string) => {
+  if (!sessionId) return '';
+  const record = await readValue<StoredRender>(RENDER_STORE, panelRenderKey(sessionId, panelId));
+  if (!record) return '';
+  if (record.assetHash) return toDataUrl((await getAsset(record.assetHash)) || undefined);
+  return record.imageUrl || '';
+};
+
+type PartAssets = Map<string, { base64: string; mimeType: string }>;
+
+/**
+ * Swaps inline image data for asset hashes while collecting the assets to write.
+ * `known` holds the hashes of the record's previous save, so unchanged images are not hashed again.
+ */
+const createPartStore = (known: Map<string, string>) => {
+  const nextKnown = new Map<string, string>();
+  const assets: PartAssets = new Map();
+  const storeParts = async (parts: any[] = []): Promise<StoredPart[]> => {
+    const stored: StoredPart[] = [];
+    for (const part of parts) {
+      const data = part?.inlineData?.data;
+      if (!data) {
+        stored.push(part);
+        continue;
+      }
+      const hash = known.get(data) || (await hashContent(data));
+      nextKnown.set(data, hash);
+      assets.set(hash, { base64: data, mimeType: part.inlineData.mimeType });
+      stored.push({ ...part, inlineData: { mimeType: part.inlineData.mimeType, assetHash: hash } });
+    }
+    return stored;
+  };
+  const storeContents = async (contents: Array<{ role: string; parts: any[] }>) => {
+    const stored: StoredContent[] = [];
+    for (const content of contents) {
+      stored.push({ ...content, parts: await storeParts(content.parts) });
+    }
+    return stored;
+  };
+  return { nextKnown, assets, storeParts, storeContents };
+};
+
+const restoreParts = (parts: StoredPart[] = []): Promise<any[]> =>
+  Promise.all(parts.map(async part => {
+    if (!part?.inlineData?.assetHash) return part;
+    const asset = await getAsset(part.inlineData.assetHash);
+    return { ...part, inlineData: { mimeType: part.inlineData.mimeType, data: asset?.base64 || '' } };
+  }));
+
+const restoreContents = (contents: StoredContent[] = []) =>
+  Promise.all(contents.map(async content => ({ ...content, parts: await restoreParts(content.parts) })));
+
+/** Puts a record that refers to `assets` into `storeName`, adding the assets that are missing, then prunes. */
+const putWithAssets = (storeName: string, key: string, record: unknown, assets: PartAssets) =>
+  serialized(async () => {
+    await runTransaction([ASSET_STORE, storeName], 'readwrite', tx => {
+      const store = tx.objectStore(ASSET_STORE);
+      // Other records may have pruned an image since this one was last saved, so check before skipping.
+      assets.forEach(({ base64, mimeType }, hash) => {
+        store.getKey(hash).onsuccess = event => {
+          if ((event.target as IDBRequest).result !== undefined) return;
+          const asset: StoredAsset = { hash, base64, mimeType, size: base64.length, createdAt: Date.now() };
+          store.put(asset, hash);
+        };
+      });
+      tx.objectStore(storeName).put(record, key);
+    });
+    await pruneAssets();
+  });
+
+// Hashes of the last saved conversation; a chat is re-saved after every turn with mostly the same images.
+let knownConversationHashes = new Map<string, string>();
+
+export const saveConversation = async (conversation: ChatConversation) => {
+  const { nextKnown, assets, storeParts, storeContents } = createPartStore(knownConversationHashes);
+
+  const messages: StoredMessage[] = [];
+  for (const { isStreaming, parts, trace, context, ...message } of conversation.messages) {
+    messages.push({
+      ...message,
+      parts: await storeParts(parts),
+      ...(trace ? { trace: await storeParts(trace) } : {}),
+      ...(context ? { context: await storeContents(context) } : {})
+    });
+  }
+  const history = await storeContents(conversation.history);
+  const record: StoredConversation = { ...conversation, messages, history };
+
+  await putWithAssets(CONVERSATION_STORE, conversation.id, record, assets);
+  knownConversationHashes = nextKnown;
+};
+
+export const loadConversation = async (id: string): Promise<ChatConversation | null> => {
+  const record = await readValue<StoredConversation>(CONVERSATION_STORE, id);
+  if (!record) return null;
+
+  return {
+    ...record,
+    messages: await Promise.all(record.messages.map(async ({ parts, trace, context, ...message }) => ({
+      ...message,
+      parts: await restoreParts(parts),
+      ...(trace ? { trace: await restoreParts(trace) } : {}),
+      ...(context ? { context: await restoreContents(context) } : {})
+    }))),
+    history: await restoreContents(record.history)
+  };
+};
+
+/** Conversation list without message contents, latest first. */
+export const listConversations = async (): Promise<ChatConversationMeta[]> => {
+  const records = await readAll<StoredConversation>(CONVERSATION_STORE);
+  return records
+    .map(({ value: { id, name, projectId, createdAt, updatedAt } }) => ({ id, name, projectId, createdAt, updatedAt }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const renameConversation = async (id: string, name: string) => {
+  await serialized(async () => {
+    const record = await readValue<StoredConversation>(CONVERSATION_STORE, id);
+    if (!record) return;
+    await runTransaction([CONVERSATION_STORE], 'readwrite', tx => {
+      tx.objectStore(CONVERSATION_STORE).put({ ...record, name }, id);
+    });
+  });
+};
+
+export const deleteConversation = async (id: string) => {
+  await serialized(async () => {
+    await runTransaction([CONVERSATION_STORE], 'readwrite', tx => {
+      tx.objectStore(CONVERSATION_STORE).delete(id);
+    });
+    await pruneAssets();
+  });
+};
+
+// Hashes of the last saved workshop history; it is re-saved after every render.
+let knownWorkshopHashes = new Map<string, string>();
+
+/** Stores the image-generation history of a Comic Studio session. */
+export const saveWorkshopHistory = async (sessionId: string, history: Array<{ role: string; parts: any[] }>) => {
+  const { nextKnown, assets, storeContents } = createPartStore(knownWorkshopHashes);
+  const record: StoredWorkshopHistory = { history: await storeContents(history), updatedAt: Date.now() };
+  await putWithAssets(WORKSHOP_STORE, sessionId, record, assets);
+  knownWorkshopHashes = nextKnown;
+};
+
+export const loadWorkshopHistory = async (sessionId: string): Promise<Array<{ role: string; parts: any[] }>> => {
+  const record = await readValue<StoredWorkshopHistory>(WORKSHOP_STORE, sessionId);
+  return record ? restoreContents(record.history) : [];
+};
+
+export const deleteWorkshopHistory = async (sessionId: string) => {
+  await serialized(async () => {
+    await runTransaction([WORKSHOP_STORE], 'readwrite', tx => {
+      tx.objectStore(WORKSHOP_STORE).delete(sessionId);
+    });
+    await pruneAssets();
+  });
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  const assets = await readAll<StoredAsset>(ASSET_STORE);
+  const estimate = navigator.storage?.estimate ? await navigator.storage.estimate() : undefined;
+  return {
+    assetCount: assets.length,
+    assetBytes: assets.reduce((sum, { value }) => sum + Math.round((value.size * 3) / 4), 0),
+    usage: estimate?.usage,
+    quota: estimate?.quota
+  };
+};
+
+const parseLegacy = <T>(key: string): T[] | null => {
+  const raw = localStorage.getItem(key);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as T[];
+  } catch (e) {
+    console.error(`[AssetStore] Failed to parse legacy ${key}`, e);
+    return null;
+  }
+};
+
+/**
+ * One-off move of the pre-IndexedDB caches: the localStorage entity and scene-reference
+ * lists, and v1 page renders that stored whole data URLs.
+ */
+export const migrateLegacyStorage = async () => {
+  const legacyEntities = parseLegacy<Entity>(LEGACY_ENTITIES_KEY);
+  if (legacyEntities) {
+    if (!(await readValue(COLLECTION_STORE, 'entities'))) {
+      await saveEntities(legacyEntities.map(entity => ({ ...entity, views: entity.views || [] })));
+    }
+    localStorage.removeItem(LEGACY_ENTITIES_KEY);
+  }
+
+  const legacyRefs = parseLegacy<SceneReference>(LEGACY_SCENE_REFS_KEY);
+  if (legacyRefs) {
+    if (!(await readValue(COLLECTION_STORE, 'sceneRefs'))) {
+      await saveSceneReferences(legacyRefs);
+    }
+    localStorage.removeItem(LEGACY_SCENE_REFS_KEY);
+  }
+
+  const renders = await readAll<StoredRender>(RENDER_STORE);
+  for (const { key, value } of renders) {
+    if (value.assetHash || !value.imageUrl?.startsWith('data:')) continue;
+    await serialized(() => writePageRender(key, value.imageUrl as string));
+  }
+};
@@ -0,0 +1,81 @@
+import { CharacterProfile, CharacterRelationship } from '../types';
+import type { WorkshopCharacter } from './comicStudioService';
+import { stripAt } from './mentions';
+
+export const ROLE_LABELS: Record<NonNullable<CharacterProfile['role']>, string> = {
+  protagonist: '主角',
+  antagonist: '反派',
+  supporting: '配角'
+};
+
+const uniqueStrings = (values: string[]) =>
+  Array.from(new Set(values.map(value => value.trim()).filter(Boolean)));
+
+export const createEmptyProfile = (): CharacterProfile => ({
+  aliases: [],
+  description: '',
+  appearance: '',
+  relationships: [],
+  tags: []
+});
+
+export const profileFromCharacter = (character: WorkshopCharacter): CharacterProfile => ({
+  aliases: uniqueStrings((character.aliases || []).map(stripAt)),
+  description: character.description || '',
+  appearance: character.appearance || '',
+  role: character.role,
+  faction: character.faction || undefined,
+  relationships: (character.relationships || []).map(rel => ({ target: stripAt(rel.target), relation: rel.relation })),
+  tags: uniqueStrings(character.tags || [])
+});
+
+const mergeRelationships = (curated: CharacterRelationship[], extracted: CharacterRelationship[]) => {
+  const merged = new Map<string, CharacterRelationship>();
+  extracted.forEach(rel => merged.set(stripAt(rel.target), rel));
+  curated.forEach(rel => merged.set(stripAt(rel.target), rel));
+  return Array.from(merged.values()).filter(rel => rel.target && rel.relation);
+};
+
+/**
+ * Merges a fresh extraction into a curated profile. Curated text always wins;
+ * the extraction only fills empty fields and adds new aliases, tags and relationships.
+ */
+export const mergeProfiles = (curated: CharacterProfile | undefined, extracted: CharacterProfile): CharacterProfile => {
+  if (!curated) return { ...extracted, updatedAt: Date.now() };
+  return {
+    aliases: uniqueStrings([...curated.aliases, ...extracted.aliases]),
+    description: curated.description || extracted.description,
+    appearance: curated.appearance || extracted.appearance,
+    role: curated.role || extracted.role,
+    faction: curated.faction || extracted.faction,
+    relationships: mergeRelationships(curated.relationships, extracted.relationships),
+    tags: uniqueStrings([...curated.tags, ...extracted.tags]),
+    updatedAt: Date.now()
+  };
+};
+
+export const applyProfileToCharacter = (character: WorkshopCharacter, profile: CharacterProfile): WorkshopCharacter => ({
+  ...character,
+  description: profile.description || character.description,
+  appearance: profile.appearance || character.appearance,
+  role: profile.role || character.role,
+  aliases: profile.aliases,
+  faction: profile.faction,
+  relationships: profile.relationships,
+  tags: profile.tags
+});
+
+/** Renders a profile as the compact text block used in chat injection and workshop prompts. */
+export const formatProfileForPrompt = (name: string, profile: CharacterProfile) => {
+  const lines = [`${name}`];
+  if (profile.aliases.length > 0) lines.push(`别名: ${profile.aliases.join('、')}`);
+  if (profile.role) lines.push(`定位: ${ROLE_LABELS[profile.role]}`);
+  if (profile.faction) lines.push(`阵营: ${profile.faction}`);
+  if (profile.description) lines.push(`身份: ${profile.description}`);
+  if (profile.appearance) lines.push(`外貌: ${profile.appearance}`);
+  if (profile.relationships.length > 0) {
+    lines.push(`关系: ${profile.relationships.map(rel => `${rel.target}(${rel.relation})`).join('、')}`);
+  }
+  if (profile.tags.length > 0) lines.push(`标签: ${profile.tags.join('、')}`);
+  return lines.join('\n');
+};
@@ -0,0 +1,101 @@
+import { ChatConversation, ChatConversationMeta, ChatMessage } from '../types';
+import { generateId } from '../utils';
+import { DEFAULT_PROJECT_ID } from './projects';
+
+export const CHAT_CONVERSATION_ACTIVE_KEY = 'chatConversationActive';
+
+/** Window events shared by the conversation sidebar and the chat view. */
+export const CHAT_CONVERSATION_ACTIVATE_EVENT = 'chat-conversation-activate';
+export const CHAT_CONVERSATION_REFRESH_EVENT = 'chat-conversation-refresh';
+export const CHAT_CONVERSATION_RENAME_EVENT = 'chat-conversation-rename';
+
+export const DEFAULT_CONVERSATION_NAME = '新对话';
+
+const MAX_DERIVED_NAME_LENGTH = 24;
+
+export const createConversation = (projectId: string, now = Date.now()): ChatConversation => ({
+  id: generateId(),
+  name: DEFAULT_CONVERSATION_NAME,
+  projectId,
+  createdAt: now,
+  updatedAt: now,
+  messages: [],
+  history: [],
+  sceneRefsInjected: false
+});
+
+export const isConversationInProject = (conversation: Pick<ChatConversationMeta, 'projectId'>, projectId: string) =>
+  (conversation.projectId || DEFAULT_PROJECT_ID) === projectId;
+
+/** Names an unnamed conversation after its first message: one line, mentions kept, trimmed to fit the sidebar. */
+export const deriveConversationName = (text: string) => {
+  const line = text.replace(/\s+/g, ' ').trim();
+  if (!line) return DEFAULT_CONVERSATION_NAME;
+  const chars = Array.from(line);
+  return chars.length > MAX_DERIVED_NAME_LENGTH ? `${chars.slice(0, MAX_DERIVED_NAME_LENGTH).join('')}…` : line;
+};
+
+/** The conversation to open for a project: the remembered one if it belongs to it, else the latest. */
+export const pickActiveConversation = (conversations: ChatConversationMeta[], projectId: string, activeId: string | null) => {
+  const inProject = conversations.filter(conversation => isConversationInProject(conversation, projectId));
+  return inProject.find(conversation => conversation.id === activeId) || inProject[0] || null;
+};
+
+/*
+ * Branching: messages form a tree through `parentId`. Editing a user message or regenerating a
+ * reply adds a sibling under the same parent; the conversation shows one thread at a time,
+ * from the root down to `activeLeafId`.
+ */
+
+/** The messages from the root down to `leafId`, oldest first. */
+export const getThread = (messages: ChatMessage[], leafId: string | undefined): ChatMessage[] => {
+  const byId = new Map(messages.map(message => [message.id, message]));
+  const thread: ChatMessage[] = [];
+  const seen = new Set<string>();
+  let current = leafId ? byId.get(leafId) : undefined;
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    thread.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return thread;
+};
+
+/** Alternatives of `message` (itself included), in the order they were created. */
+export const getSiblings = (messages: ChatMessage[], message: ChatMessage) =>
+  messages.filter(candidate => candidate.parentId === message.parentId && candidate.role === message.role);
+
+/** Follows the newest reply below `messageId` down to the end of that branch. */
+export const getLatestLeaf = (messages: ChatMessage[], messageId: string) => {
+  let leafId = messageId;
+  const seen = new Set<string>();
+  while (!seen.has(leafId)) {
+    seen.add(leafId);
+    const children = messages.filter(message => message.parentId === leafId);
+    if (children.length === 0) break;
+    leafId = children[children.length - 1].id;
+  }
+  return leafId;
+};
+
+/** The model history of a thread: every reply carries the user and model entries it added. */
+export const buildThreadHistory = (thread: ChatMessage[]) =>
+  thread.flatMap(message => message.context || []);
+
+/**
+ * Upgrades a conversation saved before branching existed: messages are chained in order and
+ * each successful reply takes its pair of entries from the linear history.
+ */
+export const linkLegacyMessages = (messages: ChatMessage[], history: ChatConversation['history']): ChatMessage[] => {
+  if (messages.some(message => message.parentId || message.context)) return messages;
+  let turn = 0;
+  return messages.map((message, index) => {
+    const linked: ChatMessage = { ...message };
+    if (index > 0) linked.parentId = messages[index - 1].id;
+    if (message.role === 'model' && !message.isError && message.parts.length > 0 && turn * 2 + 1 < history.length) {
+      linked.context = history.slice(turn * 2, turn * 2 + 2);
+      turn += 1;
+    }
+    return linked;
+  });
+};
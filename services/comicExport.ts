@@ -0,0 +1,260 @@
+import { parseDataUrl } from '../utils';
+import { burnInLettering, Lettering } from './lettering';
+import { createAbortError } from './modelStream';
+
+/**
+ * Exports a session's rendered pages, with their lettering burned in, as a CBZ (a zip of the
+ * pages plus ComicInfo.xml), a multi-page PDF, or a zip of numbered PNG or JPEG files. Everything
+ * is built in the browser: images are already compressed, so the zip stores them as they are, and
+ * the PDF embeds the JPEG data directly.
+ */
+export type ComicExportFormat = 'cbz' | 'pdf' | 'png' | 'jpeg';
+
+export const COMIC_EXPORT_FORMATS: { id: ComicExportFormat; label: string; extension: string }[] = [
+  { id: 'cbz', label: 'CBZ 漫画包', extension: 'cbz' },
+  { id: 'pdf', label: 'PDF', extension: 'pdf' },
+  { id: 'png', label: 'PNG 图片包', extension: 'zip' },
+  { id: 'jpeg', label: 'JPEG 图片包', extension: 'zip' }
+];
+
+export interface ExportPage {
+  pageNumber: number;
+  imageUrl: string;
+  lettering: Lettering[];
+}
+
+export interface ComicMetadata {
+  title: string;
+  summary?: string;
+  /** e.g. "zh". */
+  languageISO?: string;
+  blackAndWhite?: boolean;
+}
+
+/** A page as encoded image bytes, lettering included. */
+export interface EncodedPage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+const encoder = new TextEncoder();
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+export const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const concatBytes = (chunks: Uint8Array[]) => {
+  const out = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  chunks.forEach(chunk => {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return out;
+};
+
+// Little-endian fields of a zip record: [value, byte width] pairs.
+const fields = (...values: Array<[number, 2 | 4]>) => {
+  const bytes = new Uint8Array(values.reduce((sum, [, width]) => sum + width, 0));
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+  values.forEach(([value, width]) => {
+    if (width === 2) view.setUint16(offset, value, true);
+    else view.setUint32(offset, value, true);
+    offset += width;
+  });
+  return bytes;
+};
+
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+/** A zip archive of `entries`, stored without compression; names are UTF-8. */
+export const createZip = (entries: Array<{ name: string; data: Uint8Array }>, modified = new Date()) => {
+  const { time, date } = dosDateTime(modified);
+  const UTF8_NAMES = 0x0800;
+  const locals: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(({ name, data }) => {
+    const nameBytes = encoder.encode(name);
+    const crc = crc32(data);
+    const local = concatBytes([
+      fields([0x04034b50, 4], [20, 2], [UTF8_NAMES, 2], [0, 2], [time, 2], [date, 2], [crc, 4], [data.length, 4], [data.length, 4], [nameBytes.length, 2], [0, 2]),
+      nameBytes,
+      data
+    ]);
+    central.push(concatBytes([
+      fields(
+        [0x02014b50, 4], [20, 2], [20, 2], [UTF8_NAMES, 2], [0, 2], [time, 2], [date, 2], [crc, 4], [data.length, 4], [data.length, 4],
+        [nameBytes.length, 2], [0, 2], [0, 2], [0, 2], [0, 2], [0, 4], [offset, 4]
+      ),
+      nameBytes
+    ]));
+    locals.push(local);
+    offset += local.length;
+  });
+
+  const centralDirectory = concatBytes(central);
+  const end = fields([0x06054b50, 4], [0, 2], [0, 2], [entries.length, 2], [entries.length, 2], [centralDirectory.length, 4], [offset, 4], [0, 2]);
+  return concatBytes([...locals, centralDirectory, end]);
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&'"]/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' })[char]!);
+
+/** ComicInfo.xml (the ComicRack schema read by most comic readers) for the pages of a CBZ. */
+export const buildComicInfo = (meta: ComicMetadata, pages: Array<Pick<EncodedPage, 'width' | 'height'> & { size: number }>) => {
+  const element = (name: string, value?: string | number) =>
+    value === undefined || value === '' ? [] : [`  <${name}>${escapeXml(String(value))}</${name}>`];
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<ComicInfo xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xmlns:xsd="http://www.w3.org/2001/XMLSchema">',
+    ...element('Title', meta.title),
+    ...element('Summary', meta.summary),
+    ...element('PageCount', pages.length),
+    ...element('LanguageISO', meta.languageISO),
+    ...element('BlackAndWhite', meta.blackAndWhite === undefined ? undefined : meta.blackAndWhite ? 'Yes' : 'No'),
+    // Chinese comics read left to right.
+    ...element('Manga', 'No'),
+    '  <Pages>',
+    ...pages.map((page, index) =>
+      `    <Page Image="${index}"${index === 0 ? ' Type="FrontCover"' : ''} ImageSize="${page.size}" ImageWidth="${page.width}" ImageHeight="${page.height}" />`
+    ),
+    '  </Pages>',
+    '</ComicInfo>',
+    ''
+  ].join('\n');
+};
+
+// PDF text strings outside ASCII are written as UTF-16BE hex with a byte-order mark.
+const pdfString = (text: string) => {
+  if (/^[\x20-\x7e]*$/.test(text)) return `(${text.replace(/[\\()]/g, char => `\\${char}`)})`;
+  const hex = Array.from(text)
+    .flatMap(char => {
+      const code = char.codePointAt(0)!;
+      if (code <= 0xffff) return [code];
+      const offset = code - 0x10000;
+      return [0xd800 + (offset >> 10), 0xdc00 + (offset & 0x3ff)];
+    })
+    .map(unit => unit.toString(16).padStart(4, '0'))
+    .join('');
+  return `<FEFF${hex}>`;
+};
+
+/**
+ * A PDF with one page per JPEG, each page the size of its image at 96 dpi. The JPEG data is
+ * embedded as is (DCTDecode).
+ */
+export const createPdf = (pages: EncodedPage[], title = '') => {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const object = (id: number, body: string, stream?: Uint8Array) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${body}\n`);
+    if (stream) {
+      write('stream\n');
+      write(stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  };
+
+  // 1: catalog, 2: page tree, 3: info, then page, content and image objects for each page.
+  const pageIds = pages.map((_, index) => 4 + index * 3);
+  // The comment of high bytes marks the file as binary for transfer tools.
+  write('%PDF-1.4\n');
+  write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+  object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  object(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  object(3, `<< /Title ${pdfString(title)} /Producer (Comic Studio) >>`);
+  pages.forEach((page, index) => {
+    const id = pageIds[index];
+    const width = +(page.width * 0.75).toFixed(2);
+    const height = +(page.height * 0.75).toFixed(2);
+    const content = encoder.encode(`q ${width} 0 0 ${height} 0 0 cm /Im${index} Do Q`);
+    object(id, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /XObject << /Im${index} ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>`);
+    object(id + 1, `<< /Length ${content.length} >>`, content);
+    object(
+      id + 2,
+      `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.data.length} >>`,
+      page.data
+    );
+  });
+
+  const xrefOffset = length;
+  const count = offsets.length;
+  write(`xref\n0 ${count}\n0000000000 65535 f \n`);
+  for (let id = 1; id < count; id++) write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  write(`trailer\n<< /Size ${count} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+  return concatBytes(chunks);
+};
+
+const base64ToBytes = (base64: string) => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const encodePage = async (page: ExportPage, mimeType: 'image/png' | 'image/jpeg'): Promise<EncodedPage> => {
+  const { dataUrl, width, height } = await burnInLettering(page.imageUrl, page.lettering, mimeType);
+  const parsed = parseDataUrl(dataUrl);
+  if (!parsed) throw new Error(`Page ${page.pageNumber} could not be encoded`);
+  return { data: base64ToBytes(parsed.base64), width, height };
+};
+
+/**
+ * Builds the export file for `pages` (in reading order). `onPage` reports progress; a signal that
+ * aborts stops between pages.
+ */
+export const exportComic = async (
+  pages: ExportPage[],
+  format: ComicExportFormat,
+  meta: ComicMetadata,
+  { signal, onPage }: { signal?: AbortSignal; onPage?: (done: number, total: number) => void } = {}
+) => {
+  const mimeType = format === 'png' ? 'image/png' : 'image/jpeg';
+  const extension = format === 'png' ? 'png' : 'jpg';
+  const encoded: EncodedPage[] = [];
+  for (const page of pages) {
+    if (signal?.aborted) throw createAbortError();
+    encoded.push(await encodePage(page, mimeType));
+    onPage?.(encoded.length, pages.length);
+  }
+
+  if (format === 'pdf') return new Blob([createPdf(encoded, meta.title)], { type: 'application/pdf' });
+
+  // Zero-padded so readers that sort by name keep the page order.
+  const digits = Math.max(3, String(pages.length).length);
+  const entries = encoded.map((page, index) => ({ name: `${String(index + 1).padStart(digits, '0')}.${extension}`, data: page.data }));
+  if (format === 'cbz') {
+    const info = buildComicInfo(meta, encoded.map(page => ({ width: page.width, height: page.height, size: page.data.length })));
+    entries.push({ name: 'ComicInfo.xml', data: encoder.encode(info) });
+  }
+  return new Blob([createZip(entries)], { type: format === 'cbz' ? 'application/vnd.comicbook+zip' : 'application/zip' });
+};
+
+/** A file name from the session name, without characters file systems reject. */
+export const exportFileName = (name: string, format: ComicExportFormat) => {
+  const base = name.replace(/[\\/:*?"<>|\x00-\x1f]+/g, '_').trim() || 'comic';
+  return `${base}.${COMIC_EXPORT_FORMATS.find(item => item.id === format)!.extension}`;
+};
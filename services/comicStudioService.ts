@@ -1,4 +1,13 @@
-import { GoogleGenAI, Type } from '@google/genai';
+import { Type } from '@google/genai';
+import { CharacterRelationship, CharacterRole } from '../types';
+import { applyProfileToCharacter, formatProfileForPrompt, mergeProfiles, profileFromCharacter } from './characterProfiles';
+import { compactHistory, formatContextUsage, resolveContextPolicy } from './contextBudget';
+import { stripAt } from './mentions';
+import { isSafetyReason, ModelError } from './modelErrors';
+import { getModelProvider, ModelContent, ModelPart } from './modelProvider';
+import { createAbortError } from './modelStream';
+import { EXTRACTION_CHUNK, NovelChunk, splitNovel, STORYBOARD_CHUNK } from './novelChunks';
+import { DEFAULT_ART_STYLE, formatPromptRef, getActivePromptRevision, PromptTemplateRef, renderPrompt } from './promptTemplates';
 
 export interface WorkshopCharacter {
   id: string;
@@ -7,7 +16,11 @@ export interface WorkshopCharacter {
   appearance: string;
   imageUrl?: string;
   lastUsedPrompt?: string;
-  role: 'protagonist' | 'antagonist' | 'supporting';
+  role: CharacterRole;
+  aliases?: string[];
+  faction?: string;
+  relationships?: CharacterRelationship[];
+  tags?: string[];
 }
 
 export interface WorkshopItem {
@@ -29,191 +42,358 @@ export interface WorkshopScene {
   visualPrompt: string;
   generatedImageUrl?: string;
   lastUsedPrompt?: string;
+  /** Offsets of the novel text the panel was drawn from; absent for panels added by hand. */
+  source?: { start: number; end: number };
 }
 
-const getApiKey = () => process.env.GEMINI_API_KEY || process.env.API_KEY || '';
-const WORKSHOP_IMAGE_MODEL = 'gemini-3-pro-image-preview';
-let workshopHistory: any[] = [];
+/** Cancellation and timeout for a single workshop call. */
+export interface WorkshopCallOptions {
+  signal?: AbortSignal;
+  /** Overrides the task timeout (ms, 0 = none). */
+  timeoutMs?: number;
+}
+
+/** Progress of a call that works through a long text chunk by chunk. */
+export interface ChunkProgress {
+  chunk: NovelChunk;
+  total: number;
+}
+
+export interface ChunkedCallOptions extends WorkshopCallOptions {
+  /** Called before each chunk is sent. */
+  onChunk?: (progress: ChunkProgress) => void;
+}
 
-export const getWorkshopHistory = () => JSON.parse(JSON.stringify(workshopHistory));
-export const resetWorkshopHistory = () => {
-  workshopHistory = [];
+const sameCharacter = (a: WorkshopCharacter, b: WorkshopCharacter) => {
+  const names = new Set([a.name, ...(a.aliases || [])].map(stripAt));
+  return [b.name, ...(b.aliases || [])].some(name => names.has(stripAt(name)));
 };
 
-export const extractWorkshopEntities = async (text: string): Promise<{ characters: WorkshopCharacter[]; items: WorkshopItem[] }> => {
-  const ai = new GoogleGenAI({ apiKey: getApiKey() });
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: `请深入分析以下小说文本，提取其中的核心人物和重要物品。
-    
-    规则：
-    1. 人物姓名、身份描述和外貌细节必须使用中文。
-    2. 人物姓名必须以 @ 开头（例如：@韩立）。
-    3. 外貌描述（appearance）必须非常详细，包含发型、五官、体型、标志性服饰（颜色、款式）以及散发的气质，这将直接用于绘图提示词。
-    4. 角色角色（role）必须分类为：主角（protagonist）、反派（antagonist）或配角（supporting）。
-    
-    小说文本：
-    ${text.substring(0, 10000)}`,
-    config: {
-      responseMimeType: 'application/json',
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          characters: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                name: { type: Type.STRING },
-                description: { type: Type.STRING },
-                appearance: { type: Type.STRING },
-                role: { type: Type.STRING, enum: ['protagonist', 'antagonist', 'supporting'] }
-              },
-              required: ['name', 'description', 'appearance', 'role']
-            }
-          },
-          items: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                name: { type: Type.STRING },
-                description: { type: Type.STRING }
-              },
-              required: ['name', 'description']
-            }
-          }
-        },
-        required: ['characters', 'items']
+/**
+ * Joins the characters and items found in separate chunks: a character seen again (by name or
+ * alias) keeps its first entry, gains the details it was missing and the more detailed appearance.
+ */
+export const mergeExtractedEntities = (
+  results: Array<{ characters: WorkshopCharacter[]; items: WorkshopItem[] }>
+): { characters: WorkshopCharacter[]; items: WorkshopItem[] } => {
+  const characters: WorkshopCharacter[] = [];
+  const items: WorkshopItem[] = [];
+  results.forEach(result => {
+    result.characters.forEach(character => {
+      const index = characters.findIndex(existing => sameCharacter(existing, character));
+      if (index === -1) {
+        characters.push(character);
+        return;
       }
-    }
+      const existing = characters[index];
+      const profile = mergeProfiles(profileFromCharacter(existing), profileFromCharacter(character));
+      const appearance = (character.appearance || '').length > (existing.appearance || '').length ? character.appearance : existing.appearance;
+      // A different name for the same person becomes an alias.
+      const aliases = Array.from(new Set([...profile.aliases, stripAt(character.name)])).filter(alias => alias !== stripAt(existing.name));
+      characters[index] = applyProfileToCharacter(existing, { ...profile, appearance, aliases });
+    });
+    result.items.forEach(item => {
+      if (!items.some(existing => existing.name.trim() === item.name.trim())) items.push(item);
+    });
   });
-
-  const textOutput = response.text || '{}';
-  const data = JSON.parse(textOutput);
-
-  return {
-    characters: (data.characters || []).map((c: any, i: number) => ({
-      ...c,
-      id: `char-${Date.now()}-${i}`
-    })),
-    items: (data.items || []).map((item: any, i: number) => ({
-      ...item,
-      id: `item-${Date.now()}-${i}`
-    }))
-  };
+  return { characters, items };
 };
 
-export const generateWorkshopStoryboard = async (text: string, characters: WorkshopCharacter[]): Promise<WorkshopScene[]> => {
-  const ai = new GoogleGenAI({ apiKey: getApiKey() });
-  const charContext = characters.map(c => `${c.name}: ${c.description} (外貌: ${c.appearance})`).join('\n');
-
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: `你是一名资深的动漫分镜导演。请根据以下小说文本创作“页（page）-格（panel）”的漫画分镜脚本。
-    
-    已知角色背景：
-    ${charContext}
-
-    小说内容：
-    ${text.substring(0, 8000)}
-    
-    规则：
-    - 每一页包含 3-4 个平行 panel，尽量覆盖关键情节，不要跳过主要事件或转折。
-    - 每个 panel 只用“一行”描述，格式示例：「Panel 1: 场景/动作；对白：『xxx』」。
-    - 对白必须是中文，描述简短但画面信息充分；前后对话要连贯，保持因果与语气一致。
-    - 禁止无提示的时间跳跃/场景跳切；如需转场必须用对白或画面描述清楚承接。
-    - charactersInPanel 中的人物姓名必须以 @ 开头，并与角色表一致。
-    - visualPrompt 必须是英文，包含镜头、构图、光影，并与上一格风格/构图保持连续性。
-
-    输出 pages 数组，每个 page 携带 panels，严格遵守 response schema。`,
-    config: {
-      responseMimeType: 'application/json',
-      responseSchema: {
-        type: Type.ARRAY,
+const extractChunkEntities = async (text: string, options: WorkshopCallOptions) => {
+  const prompt = renderPrompt('extraction', { text });
+  const data = await getModelProvider().generateJson<any>({
+    ...options,
+    task: 'extraction',
+    contents: prompt.text,
+    schema: {
+      type: Type.OBJECT,
+      properties: {
+        characters: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              name: { type: Type.STRING },
+              description: { type: Type.STRING },
+              appearance: { type: Type.STRING },
+              role: { type: Type.STRING, enum: ['protagonist', 'antagonist', 'supporting'] }
+            },
+            required: ['name', 'description', 'appearance', 'role']
+          }
+        },
         items: {
-          type: Type.OBJECT,
-          properties: {
-            pageNumber: { type: Type.INTEGER },
-            panels: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  panelNumber: { type: Type.INTEGER },
-                  location: { type: Type.STRING },
-                  panelLine: { type: Type.STRING },
-                  dialogue: { type: Type.STRING },
-                  charactersInPanel: { type: Type.ARRAY, items: { type: Type.STRING } },
-                  visualPrompt: { type: Type.STRING }
-                },
-                required: ['panelNumber', 'location', 'panelLine', 'dialogue', 'charactersInPanel', 'visualPrompt']
-              }
-            }
-          },
-          required: ['pageNumber', 'panels']
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              name: { type: Type.STRING },
+              description: { type: Type.STRING }
+            },
+            required: ['name', 'description']
+          }
         }
-      }
+      },
+      required: ['characters', 'items']
     }
   });
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new ModelError('schemaParse', 'Extraction response is not an object');
+  }
+  return { data, template: { id: prompt.id, version: prompt.version } };
+};
 
-  const textOutput = response.text || '[]';
-  const data = JSON.parse(textOutput);
+/** Extracts characters and items from the whole text, one chunk at a time. */
+export const extractWorkshopEntities = async (
+  text: string,
+  { onChunk, ...options }: ChunkedCallOptions = {}
+): Promise<{ characters: WorkshopCharacter[]; items: WorkshopItem[]; template: PromptTemplateRef }> => {
+  const chunks = splitNovel(text, EXTRACTION_CHUNK);
+  const now = Date.now();
+  const results: Array<{ characters: WorkshopCharacter[]; items: WorkshopItem[] }> = [];
+  let template: PromptTemplateRef = { id: 'extraction', version: getActivePromptRevision('extraction').version };
+
+  for (const chunk of chunks) {
+    onChunk?.({ chunk, total: chunks.length });
+    const extracted = await extractChunkEntities(chunk.text, options);
+    template = extracted.template;
+    results.push({
+      characters: (extracted.data?.characters || []).map((c: any, i: number) => ({
+        ...c,
+        id: `char-${now}-${chunk.index}-${i}`
+      })),
+      items: (extracted.data?.items || []).map((item: any, i: number) => ({
+        ...item,
+        id: `item-${now}-${chunk.index}-${i}`
+      }))
+    });
+  }
+
+  return { ...mergeExtractedEntities(results), template };
+};
 
+/**
+ * Flattens the page → panel storyboard JSON into scenes numbered continuously across pages;
+ * `after` is the number of scenes that precede these ones.
+ */
+export const flattenStoryboardPages = (pages: any[] | null | undefined, now = Date.now(), after = 0): WorkshopScene[] => {
   const scenes: WorkshopScene[] = [];
-  data.forEach((page: any) => {
-    page.panels.forEach((panel: any, idx: number) => {
+  (pages || []).forEach((page: any) => {
+    (page?.panels || []).forEach((panel: any) => {
       scenes.push({
-        id: `scene-${Date.now()}-${scenes.length}`,
-        sceneNumber: scenes.length + 1,
+        id: `scene-${now}-${after + scenes.length}`,
+        sceneNumber: after + scenes.length + 1,
         pageNumber: page.pageNumber,
         panelNumber: panel.panelNumber,
         location: panel.location,
         description: panel.panelLine,
         dialogue: panel.dialogue,
-        charactersInScene: panel.charactersInPanel,
+        charactersInScene: panel.charactersInPanel || [],
         visualPrompt: panel.visualPrompt
       });
     });
   });
-
   return scenes;
 };
 
-export const generateWorkshopImage = async (
-  prompt: string,
-  charRefs: { data: string; mimeType: string; name?: string }[] = [],
-  aspectRatio: '16:9' | '1:1' | '9:16' = '16:9',
-  styleRefs: { data: string; mimeType: string; name?: string }[] = [],
-  resolution?: '2K' | '1K' | '4K' | string
-): Promise<{ imageUrl: string; trace: string }> => {
-  const ai = new GoogleGenAI({ apiKey: getApiKey() });
-  const chat = ai.chats.create({
-    model: WORKSHOP_IMAGE_MODEL,
-    history: workshopHistory,
-    config: {
-      systemInstruction: `You are a cinematic manga art director. Produce one vivid frame per turn.
-- Always return exactly one image.
-- Maintain strict character consistency across turns using provided references.
-- Prioritize facial identity matching for character references; keep face ID highly consistent across renders.
-- Keep visual continuity and coherent pacing between panels.
-- If style references are provided, the output must match them，风格采用3D 写实角色渲染，接近 3D 游戏/CG 角色海报 `
-    }
-  });
+// Response schema shared by storyboard generation and page rewrites: pages holding panels.
+const STORYBOARD_PAGES_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      pageNumber: { type: Type.INTEGER },
+      panels: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            panelNumber: { type: Type.INTEGER },
+            location: { type: Type.STRING },
+            panelLine: { type: Type.STRING },
+            dialogue: { type: Type.STRING },
+            charactersInPanel: { type: Type.ARRAY, items: { type: Type.STRING } },
+            visualPrompt: { type: Type.STRING }
+          },
+          required: ['panelNumber', 'location', 'panelLine', 'dialogue', 'charactersInPanel', 'visualPrompt']
+        }
+      }
+    },
+    required: ['pageNumber', 'panels']
+  }
+};
 
-  const parts: any[] = [];
+export interface StoryboardOptions extends WorkshopCallOptions {
+  /** Offset to continue from; the text before it is already storyboarded. */
+  from?: number;
+  /** The storyboard so far, continued in numbering and used as carry-over context. */
+  previousScenes?: WorkshopScene[];
+  /** Called with each chunk's scenes as soon as they arrive, so finished chunks survive a later failure. */
+  onChunk?: (progress: ChunkProgress & { scenes: WorkshopScene[]; template: PromptTemplateRef }) => void;
+}
 
-  const shouldInjectStyleRefs = styleRefs.length > 0 && workshopHistory.length === 0;
-  if (shouldInjectStyleRefs) {
-    parts.push({
-      text: '--- Style Reference (Global Visual Tone) ---'
+const CARRY_OVER_SCENES = 3;
+
+// The end of the previous chunk: its overlapping text and its last panels.
+const formatCarryOver = (chunk: NovelChunk, scenes: WorkshopScene[]) => {
+  if (scenes.length === 0 && chunk.overlap === 0) return '无（从头开始）';
+  const lines: string[] = [];
+  if (chunk.overlap > 0) lines.push(`上一段结尾：\n${chunk.text.slice(0, chunk.overlap).trim()}`);
+  const last = scenes.slice(-CARRY_OVER_SCENES);
+  if (last.length > 0) {
+    lines.push(`上一段最后的分镜：\n${last
+      .map(scene => `Page ${scene.pageNumber ?? '?'} Panel ${scene.panelNumber ?? '?'}: ${scene.description}；对白：『${scene.dialogue}』`)
+      .join('\n')}`);
+  }
+  return lines.join('\n\n');
+};
+
+/**
+ * Storyboards the text from `options.from` on, one chunk at a time. Each chunk continues the page
+ * numbering of the scenes before it and sees the end of the previous chunk as carry-over context.
+ * Returns only the new scenes.
+ */
+export const generateWorkshopStoryboard = async (
+  text: string,
+  characters: WorkshopCharacter[],
+  { from = 0, previousScenes = [], onChunk, ...options }: StoryboardOptions = {}
+): Promise<{ scenes: WorkshopScene[]; template: PromptTemplateRef }> => {
+  const charContext = characters.map(c => formatProfileForPrompt(c.name, profileFromCharacter(c))).join('\n\n');
+  const chunks = splitNovel(text, STORYBOARD_CHUNK, from);
+  const now = Date.now();
+  const scenes: WorkshopScene[] = [];
+  let template: PromptTemplateRef = { id: 'storyboard', version: getActivePromptRevision('storyboard').version };
+
+  for (const chunk of chunks) {
+    const before = [...previousScenes, ...scenes];
+    const prompt = renderPrompt('storyboard', {
+      characters: charContext,
+      previous: formatCarryOver(chunk, before),
+      text: chunk.text.slice(chunk.overlap)
+    });
+    template = { id: prompt.id, version: prompt.version };
+    const data = await getModelProvider().generateJson<any[]>({
+      ...options,
+      task: 'storyboard',
+      contents: prompt.text,
+      schema: STORYBOARD_PAGES_SCHEMA
     });
+
+    if (!Array.isArray(data)) {
+      throw new ModelError('schemaParse', 'Storyboard response is not a page array');
+    }
+    // The model numbers each chunk's pages from 1; they continue after the last page so far.
+    const pageOffset = before.reduce((max, scene) => Math.max(max, scene.pageNumber || 0), 0);
+    const pages = data.map((page, index) => ({ ...page, pageNumber: pageOffset + index + 1 }));
+    const source = { start: chunk.start + chunk.overlap, end: chunk.end };
+    const chunkScenes = flattenStoryboardPages(pages, now, before.length).map(scene => ({ ...scene, source }));
+    scenes.push(...chunkScenes);
+    onChunk?.({ chunk, total: chunks.length, scenes: chunkScenes, template });
+  }
+
+  return { scenes, template };
+};
+
+const formatScenesForPrompt = (scenes: WorkshopScene[], empty: string) =>
+  scenes.length === 0
+    ? empty
+    : scenes
+      .map(scene => {
+        const characters = scene.charactersInScene.length > 0 ? `；角色：${scene.charactersInScene.join('、')}` : '';
+        return `Page ${scene.pageNumber ?? '?'} Panel ${scene.panelNumber ?? '?'}: ${scene.description}；对白：『${scene.dialogue}』${characters}`;
+      })
+      .join('\n');
+
+// The novel text behind some scenes: the span of their sources, else of `fallback`'s, else the start.
+const findSourceExcerpt = (text: string, scenes: WorkshopScene[], fallback: WorkshopScene[]) => {
+  const withSource = (list: WorkshopScene[]) => list.flatMap(scene => (scene.source ? [scene.source] : []));
+  const sources = withSource(scenes).length > 0 ? withSource(scenes) : withSource(fallback);
+  const start = sources.length > 0 ? Math.min(...sources.map(source => source.start)) : 0;
+  const end = sources.length > 0 ? Math.max(...sources.map(source => source.end)) : text.length;
+  return { start, end: Math.min(end, start + STORYBOARD_CHUNK.maxChars) };
+};
+
+export interface PageRewriteOptions extends WorkshopCallOptions {
+  /** What to change, e.g. "make this page more action-heavy". */
+  instruction?: string;
+}
+
+/**
+ * Rewrites pages `fromPage`–`toPage` of a storyboard, with the pages around them and the novel
+ * text they were drawn from as context. Returns the new pages' scenes (numbered from page 1);
+ * the caller puts them in place of the old ones.
+ */
+export const rewriteStoryboardPages = async (
+  text: string,
+  characters: WorkshopCharacter[],
+  storyboard: WorkshopScene[],
+  fromPage: number,
+  toPage: number,
+  { instruction, ...options }: PageRewriteOptions = {}
+): Promise<{ scenes: WorkshopScene[]; template: PromptTemplateRef }> => {
+  const pageOf = (scene: WorkshopScene) => scene.pageNumber || 1;
+  const current = storyboard.filter(scene => pageOf(scene) >= fromPage && pageOf(scene) <= toPage);
+  const before = storyboard.filter(scene => pageOf(scene) === fromPage - 1);
+  const after = storyboard.filter(scene => pageOf(scene) === toPage + 1);
+  const source = findSourceExcerpt(text, current, [...before, ...after]);
+  const pageCount = toPage - fromPage + 1;
+
+  const prompt = renderPrompt('storyboardPage', {
+    pages: fromPage === toPage ? `${fromPage}` : `${fromPage}-${toPage}`,
+    pageCount: `${pageCount}`,
+    characters: characters.map(c => formatProfileForPrompt(c.name, profileFromCharacter(c))).join('\n\n'),
+    text: text.slice(source.start, source.end),
+    before: formatScenesForPrompt(before, '无（这是第一页）'),
+    current: formatScenesForPrompt(current, '无（新页面，请根据原文和前后页构思）'),
+    after: formatScenesForPrompt(after, '无（这是最后一页）'),
+    instruction: instruction?.trim() || '无特别要求，按原文重新构思，让画面与节奏更好'
+  });
+  const data = await getModelProvider().generateJson<any[]>({
+    ...options,
+    task: 'storyboard',
+    contents: prompt.text,
+    schema: STORYBOARD_PAGES_SCHEMA
+  });
+
+  if (!Array.isArray(data)) {
+    throw new ModelError('schemaParse', 'Storyboard response is not a page array');
   }
-  const uniqueStyleRefs = Array.from(
-    new Map(styleRefs.map((ref, idx) => [`${ref.data.slice(0, 20)}-${ref.name || idx}`, ref])).values()
-  );
-  if (shouldInjectStyleRefs) {
-    uniqueStyleRefs.forEach((ref, idx) => {
+  const pages = data.map((page, index) => ({ ...page, pageNumber: index + 1 }));
+  const scenes = flattenStoryboardPages(pages).map(scene => ({ ...scene, source }));
+  return { scenes, template: { id: prompt.id, version: prompt.version } };
+};
+
+export interface WorkshopImageRef {
+  data: string;
+  mimeType: string;
+  name?: string;
+}
+
+export type WorkshopAspectRatio = '16:9' | '4:3' | '1:1' | '3:4' | '9:16';
+
+// References are deduplicated by a data prefix plus name; unnamed ones only by position.
+const dedupeImageRefs = (refs: WorkshopImageRef[]) =>
+  Array.from(new Map(refs.map((ref, idx) => [`${ref.data.slice(0, 20)}-${ref.name || idx}`, ref])).values());
+
+const STYLE_BLOCK_START = '--- Style Reference (Global Visual Tone) ---';
+const STYLE_BLOCK_END = '--- End of Style Reference ---';
+
+/**
+ * Assembles the parts of one workshop render: the style block (only when `injectStyleRefs`,
+ * i.e. when the session has not seen these style references yet), the character references,
+ * then the scene prompt.
+ */
+export const buildWorkshopImageParts = (
+  prompt: string,
+  charRefs: WorkshopImageRef[] = [],
+  aspectRatio: WorkshopAspectRatio = '16:9',
+  styleRefs: WorkshopImageRef[] = [],
+  injectStyleRefs = true
+): ModelPart[] => {
+  const parts: ModelPart[] = [];
+
+  if (injectStyleRefs && styleRefs.length > 0) {
+    parts.push({ text: STYLE_BLOCK_START });
+    dedupeImageRefs(styleRefs).forEach((ref, idx) => {
       parts.push({ text: `[Style Reference ${idx + 1}${ref.name ? `: ${ref.name}` : ''}]` });
       parts.push({
         inlineData: {
@@ -222,35 +402,34 @@ export const generateWorkshopImage = async (
         }
       });
     });
-    parts.push({ text: '--- End of Style Reference ---' });
+    parts.push({ text: STYLE_BLOCK_END });
   }
 
   if (charRefs.length > 0) {
     parts.push({
       text: '--- Visual References (use these images as the definitive style + identity anchors) ---'
     });
-  }
-  const uniqueCharRefs = Array.from(
-    new Map(charRefs.map((ref, idx) => [`${ref.data.slice(0, 20)}-${ref.name || idx}`, ref])).values()
-  );
-  uniqueCharRefs.forEach((ref, idx) => {
-    parts.push({ text: `[Character Reference ${idx + 1}${ref.name ? `: ${ref.name}` : ''}]` });
-    parts.push({
-      inlineData: {
-        data: ref.data,
-        mimeType: ref.mimeType
-      }
+    dedupeImageRefs(charRefs).forEach((ref, idx) => {
+      parts.push({ text: `[Character Reference ${idx + 1}${ref.name ? `: ${ref.name}` : ''}]` });
+      parts.push({
+        inlineData: {
+          data: ref.data,
+          mimeType: ref.mimeType
+        }
+      });
     });
-  });
-  if (charRefs.length > 0) {
     parts.push({ text: '--- End of Visual References ---' });
   }
 
   parts.push({
     text: `Render a single ${aspectRatio} frame. Scene prompt: ${prompt}`
   });
+  return parts;
+};
 
-  const trace = parts
+/** One line per part, with image payloads reduced to their type and size. */
+export const formatPartsTrace = (parts: ModelPart[]) =>
+  parts
     .map(part => {
       if (part.text) {
         return `TEXT: ${part.text}`;
@@ -262,38 +441,111 @@ export const generateWorkshopImage = async (
     })
     .join('\n');
 
-  const response = await chat.sendMessage({
-    message: parts,
-    config: {
+// The style images of the latest style block in `history`, or null if none was sent.
+const sentStyleImages = (history: ModelContent[]) => {
+  for (let entry = history.length - 1; entry >= 0; entry -= 1) {
+    const parts = history[entry].parts || [];
+    const start = parts.findIndex(part => part.text === STYLE_BLOCK_START);
+    if (start === -1) continue;
+    const end = parts.findIndex((part, index) => index > start && part.text === STYLE_BLOCK_END);
+    return parts.slice(start, end === -1 ? undefined : end).flatMap(part => (part.inlineData?.data ? [part.inlineData.data] : []));
+  }
+  return null;
+};
+
+/**
+ * The image-generation context of one Comic Studio session. Finished renders are kept as
+ * user/model pairs so later renders continue in the same look with the same faces; style
+ * references are sent once and again only when they change.
+ */
+export class WorkshopSession {
+  private history: ModelContent[];
+  private artStyle: string;
+
+  /** `history` continues a saved session; it is copied, not shared. */
+  constructor(history: ModelContent[] = [], artStyle = DEFAULT_ART_STYLE) {
+    this.history = JSON.parse(JSON.stringify(history));
+    this.artStyle = artStyle;
+  }
+
+  /** Style direction for the following renders, filled into the system instruction. */
+  public setArtStyle(artStyle: string) {
+    this.artStyle = artStyle;
+  }
+
+  public getHistory(): ModelContent[] {
+    return JSON.parse(JSON.stringify(this.history));
+  }
+
+  public resetHistory() {
+    this.history = [];
+  }
+
+  /** Puts a saved history that arrived late in front of the turns taken since the session opened. */
+  public restoreHistory(history: ModelContent[]) {
+    this.history = [...JSON.parse(JSON.stringify(history)), ...this.history];
+  }
+
+  /** Whether `styleRefs` still have to be sent, i.e. they differ from the last style block in the history. */
+  public needsStyleRefs(styleRefs: WorkshopImageRef[]) {
+    if (styleRefs.length === 0) return false;
+    const sent = sentStyleImages(this.history);
+    const current = dedupeImageRefs(styleRefs).map(ref => ref.data);
+    return !sent || sent.length !== current.length || current.some(data => !sent.includes(data));
+  }
+
+  public async generateImage(
+    prompt: string,
+    charRefs: WorkshopImageRef[] = [],
+    aspectRatio: WorkshopAspectRatio = '16:9',
+    styleRefs: WorkshopImageRef[] = [],
+    resolution?: '2K' | '1K' | '4K' | string,
+    options: WorkshopCallOptions = {}
+  ): Promise<{ imageUrl: string; trace: string }> {
+    const parts = buildWorkshopImageParts(prompt, charRefs, aspectRatio, styleRefs, this.needsStyleRefs(styleRefs));
+    const { history, usage } = compactHistory(this.history, parts, resolveContextPolicy());
+    const systemPrompt = renderPrompt('workshopSystem', { artStyle: this.artStyle });
+    const trace = [
+      formatPartsTrace(parts),
+      `CONTEXT: ${formatContextUsage(usage)}`,
+      `TEMPLATE: ${formatPromptRef(systemPrompt)}`,
+      `STYLE: ${this.artStyle}`
+    ].join('\n');
+
+    const response = await getModelProvider().generateImage({
+      ...options,
+      task: 'workshopImage',
+      history,
+      contents: parts,
+      systemInstruction: systemPrompt.text,
       imageConfig: {
         aspectRatio,
         ...(resolution ? { resolution } : {})
       }
-    }
-  });
-
-  if (response.candidates?.[0]?.content) {
-    workshopHistory.push({
-      role: 'user',
-      parts: [...parts]
     });
-    workshopHistory.push(response.candidates[0].content);
-  }
+    // Cancelled renders and refusals never join the session history, so the next turn continues from the last finished one.
+    if (options.signal?.aborted) throw createAbortError();
 
-  let imageUrl = '';
-  const candidates = response.candidates || [];
-  if (candidates.length > 0 && candidates[0].content?.parts) {
-    for (const part of candidates[0].content.parts) {
-      if (part.inlineData) {
-        imageUrl = `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
-        break;
-      }
+    const imagePart = response.parts.find(part => part.inlineData);
+    if (!imagePart?.inlineData) {
+      // Without an image the model usually explains itself (a refusal or a question); pass that on.
+      const refusal = response.text.trim();
+      throw new ModelError(
+        isSafetyReason(response.finishReason) ? 'safety' : 'emptyImage',
+        refusal || `No image in response (finish reason: ${response.finishReason || 'unknown'})`,
+        refusal ? { detail: refusal } : {}
+      );
     }
-  }
+    const imageUrl = `data:${imagePart.inlineData.mimeType || 'image/png'};base64,${imagePart.inlineData.data}`;
 
-  if (!imageUrl && response.text) {
-    throw new Error(response.text);
-  }
+    if (response.content) {
+      this.history.push({
+        role: 'user',
+        parts: [...parts]
+      });
+      this.history.push(response.content);
+    }
 
-  return { imageUrl, trace };
-};
+    return { imageUrl, trace };
+  }
+}
@@ -0,0 +1,160 @@
+import type { ContextSize, ContextUsage } from '../types';
+import type { ModelContent, ModelPart } from './modelProvider';
+
+/**
+ * When a history grows past its token budget, older turns are compacted before they are sent:
+ * an image that is sent again later is dropped first, then the images of the oldest turns are
+ * replaced by a short text note. Text always stays, so each turn keeps its prompt as a summary,
+ * and style references stay because they are only injected once per session.
+ * The stored history is never changed; compaction only shapes what goes over the wire.
+ */
+export interface ContextPolicy {
+  /** Estimated history tokens above which compaction starts; 0 never compacts. */
+  maxHistoryTokens: number;
+  /** Latest turns (a user entry plus the model's reply) that are always sent unchanged. */
+  keepRecentTurns: number;
+}
+
+export const DEFAULT_CONTEXT_POLICY: ContextPolicy = {
+  maxHistoryTokens: 32_000,
+  keepRecentTurns: 2
+};
+
+const readCount = (value: string | undefined, fallback: number) => {
+  const count = Number(value);
+  return value && Number.isInteger(count) && count >= 0 ? count : fallback;
+};
+
+export const resolveContextPolicy = (): ContextPolicy => ({
+  maxHistoryTokens: readCount(process.env.CONTEXT_MAX_HISTORY_TOKENS, DEFAULT_CONTEXT_POLICY.maxHistoryTokens),
+  keepRecentTurns: readCount(process.env.CONTEXT_KEEP_RECENT_TURNS, DEFAULT_CONTEXT_POLICY.keepRecentTurns)
+});
+
+// Gemini 3 bills an image at the default (high) media resolution as 1120 tokens, whatever its size.
+const IMAGE_TOKENS = 1120;
+// Roughly one token per CJK character and one per four characters of Latin text.
+const textTokens = (text: string) => {
+  const wide = text.replace(/[\x00-\x7f]/g, '').length;
+  return wide + Math.ceil((text.length - wide) / 4);
+};
+const utf8Bytes = (text: string) => new TextEncoder().encode(text).length;
+
+// Chat and workshop style blocks both label their images "[Style Reference n: name]".
+const PINNED_LABEL = /^\[Style Reference\b/;
+
+export const EMPTY_CONTEXT_SIZE: ContextSize = { tokens: 0, bytes: 0, images: 0 };
+
+const addSizes = (a: ContextSize, b: ContextSize): ContextSize => ({
+  tokens: a.tokens + b.tokens,
+  bytes: a.bytes + b.bytes,
+  images: a.images + b.images
+});
+
+/** Estimated tokens and request bytes of a list of parts; images count their base64 payload. */
+export const estimatePartsSize = (parts: ModelPart[] = []): ContextSize =>
+  parts.reduce<ContextSize>((size, part) => {
+    if (part?.inlineData?.data) {
+      return addSizes(size, { tokens: IMAGE_TOKENS, bytes: part.inlineData.data.length, images: 1 });
+    }
+    if (part?.text) {
+      return addSizes(size, { tokens: textTokens(part.text), bytes: utf8Bytes(part.text), images: 0 });
+    }
+    return size;
+  }, EMPTY_CONTEXT_SIZE);
+
+export const estimateContentsSize = (contents: Array<{ parts?: ModelPart[] }> = []): ContextSize =>
+  contents.reduce((size, content) => addSizes(size, estimatePartsSize(content.parts)), EMPTY_CONTEXT_SIZE);
+
+export const formatContextSize = (size: ContextSize) => {
+  const kb = size.bytes / 1024;
+  const bytes = kb >= 1024 ? `${(kb / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(kb))} KB`;
+  return `≈ ${size.tokens.toLocaleString('en-US')} tokens · ${bytes}${size.images ? ` · ${size.images} 张图` : ''}`;
+};
+
+/** One line for a trace: this turn, the stored history and what was actually sent of it. */
+export const formatContextUsage = (usage: ContextUsage) => {
+  const sent = usage.omittedImages > 0
+    ? `，压缩后发送 ${formatContextSize(usage.sentHistory)}（省略 ${usage.omittedImages} 张旧图）`
+    : '';
+  return `本轮 ${formatContextSize(usage.turn)}；历史 ${formatContextSize(usage.history)}${sent}`;
+};
+
+export interface CompactedHistory {
+  history: ModelContent[];
+  usage: ContextUsage;
+}
+
+const imageLabel = (parts: ModelPart[], index: number) => {
+  const previous = parts[index - 1]?.text?.trim();
+  return previous && /^\[.+\]$/.test(previous) ? previous : undefined;
+};
+
+const omitImage = (part: ModelPart, note: string): ModelPart => {
+  // Everything but the payload (e.g. a thought signature) stays on the part.
+  const { inlineData, ...rest } = part;
+  return { ...rest, text: note };
+};
+
+/**
+ * Returns the history to send for a turn whose parts are `upcoming`, compacted per `policy`,
+ * together with the size estimates shown in the trace.
+ */
+export const compactHistory = (
+  history: ModelContent[],
+  upcoming: ModelPart[] = [],
+  policy: ContextPolicy = DEFAULT_CONTEXT_POLICY
+): CompactedHistory => {
+  const historySize = estimateContentsSize(history);
+  const usageFor = (sent: ModelContent[], omittedImages: number): ContextUsage => ({
+    turn: estimatePartsSize(upcoming),
+    history: historySize,
+    sentHistory: sent === history ? historySize : estimateContentsSize(sent),
+    omittedImages
+  });
+
+  const compactable = Math.max(0, history.length - policy.keepRecentTurns * 2);
+  if (policy.maxHistoryTokens <= 0 || historySize.tokens <= policy.maxHistoryTokens || compactable === 0) {
+    return { history, usage: usageFor(history, 0) };
+  }
+
+  const next: ModelContent[] = history.map(content => ({ ...content, parts: [...(content.parts || [])] }));
+  let tokens = historySize.tokens;
+  let omittedImages = 0;
+  const replace = (entry: number, index: number, note: string) => {
+    next[entry].parts[index] = omitImage(next[entry].parts[index], note);
+    tokens += textTokens(note) - IMAGE_TOKENS;
+    omittedImages += 1;
+  };
+
+  // 1. Images that are sent again later (a re-mentioned character's views, say) lose nothing.
+  const laterImages = new Set(upcoming.flatMap(part => (part?.inlineData?.data ? [part.inlineData.data] : [])));
+  for (let entry = next.length - 1; entry >= 0; entry -= 1) {
+    next[entry].parts.forEach((part, index) => {
+      const data = part?.inlineData?.data;
+      if (!data) return;
+      if (entry < compactable && laterImages.has(data)) {
+        replace(entry, index, `[Image omitted: ${imageLabel(next[entry].parts, index) || 'reference'} is sent again later]`);
+      } else {
+        laterImages.add(data);
+      }
+    });
+  }
+
+  // 2. Then the oldest turns lose their images until the history fits the budget.
+  for (let entry = 0; entry < compactable && tokens > policy.maxHistoryTokens; entry += 1) {
+    next[entry].parts.forEach((part, index) => {
+      if (!part?.inlineData?.data || tokens <= policy.maxHistoryTokens) return;
+      const label = imageLabel(next[entry].parts, index);
+      if (label && PINNED_LABEL.test(label)) return;
+      replace(
+        entry,
+        index,
+        next[entry].role === 'model'
+          ? '[Image generated in an earlier turn, omitted to save context]'
+          : `[Image omitted to save context${label ? `: ${label}` : ''}]`
+      );
+    });
+  }
+
+  return omittedImages > 0 ? { history: next, usage: usageFor(next, omittedImages) } : { history, usage: usageFor(history, 0) };
+};
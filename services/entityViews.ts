@@ -0,0 +1,78 @@
+import { Entity, EntityView, EntityViewLabel } from '../types';
+
+export const ENTITY_VIEW_LABELS: Record<EntityViewLabel, string> = {
+  front: '正面',
+  profile: '侧面',
+  back: '背面',
+  fullBody: '全身',
+  expressions: '表情',
+  outfit: '服装'
+};
+
+// Shot cues (Chinese prompt text + English visualPrompt) that make a specific view worth injecting.
+const VIEW_KEYWORDS: Record<Exclude<EntityViewLabel, 'front' | 'outfit'>, RegExp> = {
+  fullBody: /(全身|站立|奔跑|战斗|打斗|出手|远景|全景|full[- ]?body|wide shot|long shot|standing|running|fighting|action|dynamic pose)/i,
+  profile: /(侧脸|侧面|侧身|侧影|profile|side view|three[- ]quarter)/i,
+  back: /(背影|背面|转身|背对|from behind|back view|over the shoulder)/i,
+  expressions: /(表情|特写|怒|笑|哭|惊|close[- ]?up|expression|angry|smil|cry|shock|surprise)/i
+};
+
+export const getViewKey = (view: Pick<EntityView, 'label' | 'caption'>) =>
+  view.caption ? `${view.label}-${view.caption}` : view.label;
+
+export const describeView = (view: Pick<EntityView, 'label' | 'caption'>) =>
+  view.caption ? `${ENTITY_VIEW_LABELS[view.label]}·${view.caption}` : ENTITY_VIEW_LABELS[view.label];
+
+/**
+ * All reference views of an entity. The primary portrait stands in as the front
+ * view unless the sheet already carries an explicit one.
+ */
+export const getEntityViews = (entity: Entity): EntityView[] => {
+  const views = (entity.views || []).filter(view => view.base64);
+  if (views.some(view => view.label === 'front') || !entity.base64) return views;
+  return [
+    {
+      id: `${entity.id}:front`,
+      label: 'front',
+      imagePreview: entity.imagePreview,
+      base64: entity.base64,
+      mimeType: entity.mimeType
+    },
+    ...views
+  ];
+};
+
+/**
+ * Picks the views to inject for one request. The front view always leads as the
+ * identity anchor; the remaining slots go to views whose shot cues appear in the hint.
+ */
+export const selectEntityViews = (entity: Entity, hint: string, maxViews = 2): EntityView[] => {
+  const views = getEntityViews(entity);
+  if (views.length <= 1) return views;
+
+  const anchor = views.find(view => view.label === 'front') || views[0];
+  const matched = views.filter(view => {
+    if (view === anchor) return false;
+    if (view.label === 'outfit') return Boolean(view.caption && hint.includes(view.caption));
+    if (view.label === 'front') return false;
+    return VIEW_KEYWORDS[view.label].test(hint);
+  });
+
+  return [anchor, ...matched].slice(0, Math.max(1, maxViews));
+};
+
+/** Parses a view key such as `fullBody` or `outfit-战甲`; returns null for unknown labels. */
+export const parseViewKey = (viewKey: string): Pick<EntityView, 'label' | 'caption'> | null => {
+  const [label, ...rest] = viewKey.split('-');
+  if (!(label in ENTITY_VIEW_LABELS)) return null;
+  const caption = rest.join('-');
+  return caption ? { label: label as EntityViewLabel, caption } : { label: label as EntityViewLabel };
+};
+
+/** Merges two view lists by view key; entries from `incoming` win. */
+export const mergeEntityViews = (current: EntityView[] = [], incoming: EntityView[] = []) => {
+  const merged = new Map<string, EntityView>();
+  current.forEach(view => merged.set(getViewKey(view), view));
+  incoming.forEach(view => merged.set(getViewKey(view), view));
+  return Array.from(merged.values());
+};
@@ -0,0 +1,176 @@
+import type {
+  ImageRequest,
+  JsonRequest,
+  ModelPart,
+  ModelProvider,
+  ModelRequest,
+  ModelResponse,
+  ModelTask,
+  StreamListener
+} from './modelProvider';
+import { appendStreamParts, toStreamResponse, wait } from './modelStream';
+
+/** Mount point of the fake Gemini REST server (`server/fakeGeminiApi.ts`) on the dev/preview server. */
+export const FAKE_GEMINI_PATH = '/fake-gemini';
+
+const IMAGE_REQUEST_PATTERN = /(draw|create|generate|paint|image|render|画|生成|图像)/i;
+
+/** FNV-1a, enough to derive stable placeholder content from a prompt. */
+const hashString = (input: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i += 1) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const encodeBase64 = (input: string) => {
+  const bytes = new TextEncoder().encode(input);
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const escapeXml = (input: string) =>
+  input.replace(/[<>&'"]/g, ch => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[ch] as string));
+
+const partsToText = (parts: ModelPart[]) =>
+  parts.map(part => part.text || (part.inlineData ? `[${part.inlineData.mimeType}]` : '')).join('\n');
+
+const parseAspectRatio = (aspectRatio?: string) => {
+  const [w, h] = (aspectRatio || '1:1').split(':').map(Number);
+  if (!w || !h) return { width: 512, height: 512 };
+  return w >= h
+    ? { width: 512, height: Math.round((512 * h) / w) }
+    : { width: Math.round((512 * w) / h), height: 512 };
+};
+
+/**
+ * Builds a placeholder SVG whose colour and label are derived from the prompt,
+ * so the same request always yields the same image.
+ */
+export const buildPlaceholderImage = (label: string, seed: string, aspectRatio?: string): ModelPart => {
+  const { width, height } = parseAspectRatio(aspectRatio);
+  const hue = hashString(seed) % 360;
+  const caption = escapeXml(label.slice(0, 40));
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+    + `<rect width="100%" height="100%" fill="hsl(${hue},45%,35%)"/>`
+    + `<text x="50%" y="50%" fill="#fff" font-size="20" font-family="sans-serif" text-anchor="middle">${caption}</text>`
+    + `</svg>`;
+  return { inlineData: { mimeType: 'image/svg+xml', data: encodeBase64(svg) } };
+};
+
+/**
+ * Produces a value that satisfies a @google/genai `Type` schema.
+ * Strings use the property path plus a stable index, enums pick their first value.
+ */
+export const buildSchemaSample = (schema: any, path = 'value', index = 0): any => {
+  if (!schema) return null;
+  switch (schema.type) {
+    case 'OBJECT': {
+      const result: Record<string, any> = {};
+      Object.entries(schema.properties || {}).forEach(([key, child]) => {
+        result[key] = buildSchemaSample(child, key, index);
+      });
+      return result;
+    }
+    case 'ARRAY':
+      return [0, 1].map(i => buildSchemaSample(schema.items, path, i));
+    case 'INTEGER':
+    case 'NUMBER':
+      return index + 1;
+    case 'BOOLEAN':
+      return index % 2 === 0;
+    case 'STRING':
+      if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+      return `${path} ${index + 1}`;
+    default:
+      return null;
+  }
+};
+
+const STREAM_CHUNK_SIZE = 6;
+
+/** Splits a response into stream chunks: text in short slices, every other part whole. */
+export const splitIntoStreamChunks = (parts: ModelPart[], chunkSize = STREAM_CHUNK_SIZE): ModelPart[][] =>
+  parts.flatMap(part => {
+    if (!part.text) return [[part]];
+    const chars = Array.from(part.text);
+    const chunks: ModelPart[][] = [];
+    for (let i = 0; i < chars.length; i += chunkSize) {
+      chunks.push([{ text: chars.slice(i, i + chunkSize).join('') }]);
+    }
+    return chunks;
+  });
+
+/**
+ * Offline provider: no network, no key, same output for the same input.
+ * Lets the chat and Comic Studio flows run end-to-end during development.
+ */
+export class FakeProvider implements ModelProvider {
+  public readonly id = 'fake' as const;
+  public readonly requiresApiKey = false;
+
+  /** `delayMs` paces streamed chunks and one-shot answers, so Stop has something to interrupt. */
+  constructor(
+    private readonly models: Record<ModelTask, string>,
+    private readonly delayMs = 30
+  ) {}
+
+  public async generateText(request: ModelRequest): Promise<ModelResponse> {
+    await wait(this.delayMs, request.signal);
+    return this.answer(request);
+  }
+
+  public async streamText(request: ModelRequest, onUpdate: StreamListener): Promise<ModelResponse> {
+    const { parts } = this.answer(request);
+    let streamed: ModelPart[] = [];
+    for (const chunk of splitIntoStreamChunks(parts)) {
+      await wait(this.delayMs, request.signal);
+      streamed = appendStreamParts(streamed, chunk);
+      onUpdate(toStreamResponse(streamed));
+    }
+    return toStreamResponse(streamed);
+  }
+
+  public async generateJson<T = any>(request: JsonRequest): Promise<T> {
+    await wait(this.delayMs, request.signal);
+    return buildSchemaSample(request.schema) as T;
+  }
+
+  public async generateImage(request: ImageRequest): Promise<ModelResponse> {
+    await wait(this.delayMs, request.signal);
+    const parts = typeof request.contents === 'string' ? [{ text: request.contents }] : request.contents;
+    const prompt = partsToText(parts);
+    const seed = `${request.history?.length || 0}:${prompt}`;
+    return this.toResponse([
+      buildPlaceholderImage(`${request.imageConfig?.aspectRatio || '1:1'} · #${hashString(seed).toString(16)}`, seed, request.imageConfig?.aspectRatio)
+    ]);
+  }
+
+  private answer(request: ModelRequest): ModelResponse {
+    const parts = typeof request.contents === 'string' ? [{ text: request.contents }] : request.contents;
+    const prompt = partsToText(parts);
+    const imageCount = parts.filter(part => part.inlineData).length;
+    const responseParts: ModelPart[] = [
+      {
+        text: `[fake:${this.models[request.task]}] 收到 ${parts.length} 个 part（其中 ${imageCount} 张图片），历史 ${request.history?.length || 0} 条。`
+      }
+    ];
+    if (IMAGE_REQUEST_PATTERN.test(prompt)) {
+      responseParts.push(buildPlaceholderImage(request.task, prompt));
+    }
+    return this.toResponse(responseParts);
+  }
+
+  private toResponse(parts: ModelPart[]): ModelResponse {
+    return {
+      content: { role: 'model', parts },
+      parts,
+      text: parts.map(part => part.text || '').join('')
+    };
+  }
+}
@@ -0,0 +1,182 @@
+import { GoogleGenAI } from '@google/genai';
+import type {
+  ImageRequest,
+  JsonRequest,
+  ModelContent,
+  ModelPart,
+  ModelProvider,
+  ModelProviderId,
+  ModelRequest,
+  ModelResponse,
+  ModelTask,
+  StreamListener
+} from './modelProvider';
+import { isSafetyReason, ModelError } from './modelErrors';
+import { appendStreamParts, createAbortError, toStreamResponse } from './modelStream';
+
+const toModelParts = (parts: Array<{ text?: string; inlineData?: { mimeType?: string; data?: string } }> = []) => {
+  const result: ModelPart[] = [];
+  for (const part of parts) {
+    if (part.text) {
+      result.push({ text: part.text });
+    } else if (part.inlineData) {
+      result.push({
+        inlineData: {
+          mimeType: part.inlineData.mimeType || 'image/png',
+          data: part.inlineData.data || ''
+        }
+      });
+    }
+  }
+  return result;
+};
+
+// The candidate's finish reason, or the prompt block reason when no candidate came back.
+const finishReasonOf = (response: any): string | undefined =>
+  response?.candidates?.[0]?.finishReason || response?.promptFeedback?.blockReason || undefined;
+
+// A blocked call answers with no parts at all; report it instead of an empty reply.
+const assertNotBlocked = (response: any, reason: string | undefined, hasOutput: boolean) => {
+  if (hasOutput || !isSafetyReason(reason)) return;
+  throw new ModelError('safety', `Response blocked: ${reason}`, {
+    detail: response?.promptFeedback?.blockReasonMessage || undefined
+  });
+};
+
+export interface GeminiProviderOptions {
+  /** Reported provider id; `fake-server` when pointed at the local fake Gemini server. */
+  id?: Extract<ModelProviderId, 'gemini' | 'fake-server'>;
+  /** Overrides the API endpoint (`httpOptions.baseUrl`). */
+  baseUrl?: string;
+}
+
+/**
+ * Model provider backed by the @google/genai SDK.
+ * A fresh client is created per call so a key selected mid-session is picked up.
+ */
+export class GeminiProvider implements ModelProvider {
+  public readonly id: Extract<ModelProviderId, 'gemini' | 'fake-server'>;
+  public readonly requiresApiKey: boolean;
+
+  constructor(
+    private readonly models: Record<ModelTask, string>,
+    private readonly getApiKey: () => string,
+    private readonly options: GeminiProviderOptions = {}
+  ) {
+    this.id = options.id || 'gemini';
+    this.requiresApiKey = this.id === 'gemini';
+  }
+
+  public async generateText(request: ModelRequest): Promise<ModelResponse> {
+    return this.sendChat(request);
+  }
+
+  public async streamText(request: ModelRequest, onUpdate: StreamListener): Promise<ModelResponse> {
+    const { chat, chatConfig } = this.createChat(request);
+    const stream = await chat.sendMessageStream({
+      message: this.toMessage(request),
+      config: { ...chatConfig, ...(request.signal ? { abortSignal: request.signal } : {}) }
+    });
+
+    let parts: ModelPart[] = [];
+    let groundingChunks: ModelResponse['groundingChunks'];
+    let finishReason: string | undefined;
+    let lastChunk: unknown;
+    for await (const chunk of stream) {
+      if (request.signal?.aborted) throw createAbortError();
+      lastChunk = chunk;
+      finishReason = finishReasonOf(chunk) || finishReason;
+      const candidate = chunk.candidates?.[0];
+      // Grounding metadata comes with the final chunks; keep the latest.
+      groundingChunks = (candidate?.groundingMetadata?.groundingChunks as any) || groundingChunks;
+      const chunkParts = toModelParts(candidate?.content?.parts);
+      if (chunkParts.length === 0) continue;
+      parts = appendStreamParts(parts, chunkParts);
+      onUpdate(toStreamResponse(parts));
+    }
+    if (request.signal?.aborted) throw createAbortError();
+    assertNotBlocked(lastChunk, finishReason, parts.length > 0);
+    return { ...toStreamResponse(parts, groundingChunks), ...(finishReason ? { finishReason } : {}) };
+  }
+
+  public async generateJson<T = any>(request: JsonRequest): Promise<T> {
+    const ai = this.createClient();
+    const response = await ai.models.generateContent({
+      model: this.models[request.task],
+      contents: request.contents,
+      config: {
+        ...(request.systemInstruction ? { systemInstruction: request.systemInstruction } : {}),
+        responseMimeType: 'application/json',
+        responseSchema: request.schema,
+        ...(request.signal ? { abortSignal: request.signal } : {})
+      }
+    });
+    const text = response.text || '';
+    assertNotBlocked(response, finishReasonOf(response), Boolean(text));
+    try {
+      return JSON.parse(text || 'null') as T;
+    } catch (error) {
+      throw new ModelError('schemaParse', `Unparseable JSON response: ${(error as Error).message}`, {
+        detail: text.slice(0, 200),
+        cause: error
+      });
+    }
+  }
+
+  public async generateImage(request: ImageRequest): Promise<ModelResponse> {
+    return this.sendChat(request, request.imageConfig
+      ? {
+          imageConfig: {
+            ...(request.imageConfig.aspectRatio ? { aspectRatio: request.imageConfig.aspectRatio } : {}),
+            ...(request.imageConfig.resolution ? { resolution: request.imageConfig.resolution } : {})
+          }
+        }
+      : undefined);
+  }
+
+  private createClient() {
+    return new GoogleGenAI({
+      apiKey: this.getApiKey(),
+      ...(this.options.baseUrl ? { httpOptions: { baseUrl: this.options.baseUrl } } : {})
+    });
+  }
+
+  // A per-message config replaces the chat config instead of extending it, so callers repeat `chatConfig`.
+  private createChat(request: ModelRequest) {
+    const chatConfig = {
+      ...(request.tools ? { tools: request.tools } : {}),
+      ...(request.systemInstruction ? { systemInstruction: request.systemInstruction } : {})
+    };
+    const chat = this.createClient().chats.create({
+      model: this.models[request.task],
+      history: request.history || [],
+      config: chatConfig
+    });
+    return { chat, chatConfig };
+  }
+
+  private toMessage(request: ModelRequest) {
+    return typeof request.contents === 'string' ? [{ text: request.contents }] : request.contents;
+  }
+
+  private async sendChat(request: ModelRequest, messageConfig?: Record<string, any>): Promise<ModelResponse> {
+    const { chat, chatConfig } = this.createChat(request);
+    const response = await chat.sendMessage({
+      message: this.toMessage(request),
+      config: { ...chatConfig, ...messageConfig, ...(request.signal ? { abortSignal: request.signal } : {}) }
+    });
+    if (request.signal?.aborted) throw createAbortError();
+
+    const candidate = response.candidates?.[0];
+    const parts = toModelParts(candidate?.content?.parts);
+    const finishReason = finishReasonOf(response);
+    assertNotBlocked(response, finishReason, parts.length > 0);
+    return {
+      content: (candidate?.content as ModelContent | undefined) || null,
+      parts,
+      text: response.text || '',
+      groundingChunks: candidate?.groundingMetadata?.groundingChunks as any,
+      ...(finishReason ? { finishReason } : {})
+    };
+  }
+}
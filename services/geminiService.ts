@@ -1,149 +1,159 @@
 
-import { GoogleGenAI } from "@google/genai";
 import { Attachment, ChatMessage, ChatPart, Entity, SceneReference } from "../types";
 import { generateId } from "../utils";
+import { formatProfileForPrompt } from "./characterProfiles";
+import { compactHistory, ContextPolicy, resolveContextPolicy } from "./contextBudget";
+import { describeView, selectEntityViews } from "./entityViews";
+import { getModelProvider, ModelContent, ModelPart, ModelResponse } from "./modelProvider";
+import { toModelError } from "./modelErrors";
+import { isAbortError, toStreamResponse } from "./modelStream";
+import { isTimeoutError } from "./modelTimeouts";
+import { renderPrompt } from "./promptTemplates";
+
+/** Only the image data of an attachment is sent; resent turns rebuild it from the message parts. */
+export type ChatAttachment = Pick<Attachment, 'base64' | 'mimeType'>;
+
+const STYLE_REFERENCE_HEADER = "--- Style Reference (Global Visual Tone) ---\n";
+
+/** Whether the style block was already sent somewhere in `history`, so it need not be injected again. */
+export const historyHasStyleReferences = (history: Array<{ parts?: Array<{ text?: string }> }>) =>
+  history.some(content => (content.parts || []).some(part => part.text === STYLE_REFERENCE_HEADER));
+
+/**
+ * Assembles the parts of one chat turn: the style block (when injected), then profiles and
+ * reference views of each mentioned entity, then attachments and the user's text.
+ * Style references and mentions are deduplicated by id.
+ */
+export const buildChatParts = (
+  text: string,
+  attachments: ChatAttachment[],
+  mentions: Entity[] = [],
+  sceneReferences: SceneReference[] = [],
+  injectSceneReferences = false
+): ModelPart[] => {
+  const parts: ModelPart[] = [];
+
+  if (injectSceneReferences && sceneReferences.length > 0) {
+    parts.push({ text: STYLE_REFERENCE_HEADER });
+    const uniqueStyleRefs = Array.from(new Map(sceneReferences.map(ref => [ref.id, ref])).values());
+    uniqueStyleRefs.forEach((ref, idx) => {
+      parts.push({ text: `[Style Reference ${idx + 1}: ${ref.name}]` });
+      if (ref.base64) {
+        parts.push({
+          inlineData: {
+            mimeType: ref.mimeType,
+            data: ref.base64
+          }
+        });
+      } else {
+        parts.push({ text: `[Note: Style data for ${ref.name} is currently offline.]` });
+      }
+    });
+    parts.push({ text: "--- End of Style Reference ---\n" });
+  }
+  
+  // Just-in-Time Injection for Mentions
+  if (mentions.length > 0) {
+    parts.push({ text: "--- Neural Knowledge Injection (Contextual References) ---\n" });
+    
+    const uniqueMentions = Array.from(new Map(mentions.map(m => [m.id, m])).values());
+
+    uniqueMentions.forEach(m => {
+      if (m.profile) {
+        parts.push({ text: `[Character Profile: ${m.name}]\n${formatProfileForPrompt(m.name, m.profile)}` });
+      }
+      const views = selectEntityViews(m, text);
+      if (views.length === 0) {
+        parts.push({ text: `[Visual Reference: ${m.name}]` });
+        parts.push({ text: `[Note: Visual data for ${m.name} is currently offline.]` });
+        return;
+      }
+      views.forEach(view => {
+        parts.push({ text: `[Visual Reference: ${m.name} · ${describeView(view)}]` });
+        parts.push({
+          inlineData: {
+            mimeType: view.mimeType,
+            data: view.base64
+          }
+        });
+      });
+    });
+    parts.push({ text: "--- End of Reference Injection ---\n" });
+  }
+
+  // Add User Attachments
+  for (const att of attachments) {
+    parts.push({
+      inlineData: {
+        mimeType: att.mimeType,
+        data: att.base64,
+      },
+    });
+  }
+
+  // User Text
+  if (text.trim()) {
+    parts.push({ text: text });
+  }
+
+  return parts;
+};
 
-const MODEL_NAME = 'gemini-3-pro-image-preview';
+export interface SendMessageOptions {
+  /** Called with the partial reply after every streamed chunk. */
+  onUpdate?: (message: ChatMessage) => void;
+  signal?: AbortSignal;
+  /** Overrides the chat timeout for this turn (ms, 0 = none). */
+  timeoutMs?: number;
+}
 
 export class GeminiService {
-  private history: any[] = [];
+  private history: any[];
+  private contextPolicy: ContextPolicy;
+
+  /** `history` continues a saved conversation; it is copied, not shared. */
+  constructor(history: any[] = [], contextPolicy: ContextPolicy = resolveContextPolicy()) {
+    this.history = JSON.parse(JSON.stringify(history));
+    this.contextPolicy = contextPolicy;
+  }
 
   public getHistory(): any[] {
     return JSON.parse(JSON.stringify(this.history));
   }
 
+  /** Replaces the history, e.g. with the thread leading to an edited or regenerated turn. */
+  public resetHistory(history: any[] = []) {
+    this.history = JSON.parse(JSON.stringify(history));
+  }
+
   /**
-   * Sends a multi-modal message to Gemini 3 Pro.
+   * Sends a multi-modal message through the configured model provider, streaming the reply.
+   * `onUpdate` receives the growing message (same id throughout). When `signal` aborts or the
+   * call times out, the partial reply is returned with `isStopped` (plus `isTimedOut`) and,
+   * if anything arrived, kept in the history.
    */
   public async sendMessage(
     text: string,
-    attachments: Attachment[],
+    attachments: ChatAttachment[],
     entities: Entity[],
     mentions: Entity[] = [],
     sceneReferences: SceneReference[] = [],
-    injectSceneReferences = false
+    injectSceneReferences = false,
+    options: SendMessageOptions = {}
   ): Promise<ChatMessage> {
-    const apiKey = process.env.GEMINI_API_KEY || process.env.API_KEY;
-    const ai = new GoogleGenAI({ apiKey });
-    
-    const chat = ai.chats.create({
-      model: MODEL_NAME,
-      history: this.history,
-      config: {
-        tools: [{ googleSearch: {} }],
-        systemInstruction: `You are Nano Banana Pro, a cutting-edge multimodal AI. 
-You excel at text reasoning, image understanding, and image generation.
-
-KNOWLEDGE INJECTION:
-When users @mention characters, I will provide their visual reference data using [Visual Reference: Name] tags followed by an image. 
-Connect these images to the mentions. Use these visuals to ensure accurate character consistency in your responses.
-
-IMAGE GENERATION:
-- If asked to create an image, output an image part in your response.
-- Use the provided visual references for characters to maintain visual identity.
-- Describe the scene vividly.
-
-STYLE REFERENCE:
-- If a style reference block is provided, treat it as the global visual tone and apply it to image generation.
-
-MULTI-TURN:
-Remember the context of previous turns. If the user refers to "him" or "her" in relation to a character previously discussed or mentioned, maintain continuity.`
-      },
-    });
-
-    const parts: any[] = [];
-
-    if (injectSceneReferences && sceneReferences.length > 0) {
-      parts.push({ text: "--- Style Reference (Global Visual Tone) ---\n" });
-      const uniqueStyleRefs = Array.from(new Map(sceneReferences.map(ref => [ref.id, ref])).values());
-      uniqueStyleRefs.forEach((ref, idx) => {
-        parts.push({ text: `[Style Reference ${idx + 1}: ${ref.name}]` });
-        if (ref.base64) {
-          parts.push({
-            inlineData: {
-              mimeType: ref.mimeType,
-              data: ref.base64
-            }
-          });
-        } else {
-          parts.push({ text: `[Note: Style data for ${ref.name} is currently offline.]` });
-        }
-      });
-      parts.push({ text: "--- End of Style Reference ---\n" });
-    }
-    
-    // Just-in-Time Injection for Mentions
-    if (mentions.length > 0) {
-      parts.push({ text: "--- Neural Knowledge Injection (Contextual References) ---\n" });
-      
-      const uniqueMentions = Array.from(new Map(mentions.map(m => [m.id, m])).values());
-
-      uniqueMentions.forEach(m => {
-        parts.push({ text: `[Visual Reference: ${m.name}]` });
-        if (m.base64) {
-          parts.push({
-            inlineData: {
-              mimeType: m.mimeType,
-              data: m.base64
-            }
-          });
-        } else {
-           parts.push({ text: `[Note: Visual data for ${m.name} is currently offline.]` });
-        }
-      });
-      parts.push({ text: "--- End of Reference Injection ---\n" });
-    }
-
-    // Add User Attachments
-    for (const att of attachments) {
-      parts.push({
-        inlineData: {
-          mimeType: att.mimeType,
-          data: att.base64,
-        },
-      });
-    }
-
-    // User Text
-    if (text.trim()) {
-      parts.push({ text: text });
-    }
+    const parts = buildChatParts(text, attachments, mentions, sceneReferences, injectSceneReferences);
 
     const trace = JSON.parse(JSON.stringify(parts));
-
-    try {
-      const response = await chat.sendMessage({
-        message: parts,
-      });
-
-      if (response.candidates?.[0]?.content) {
-        // Record history for multi-turn
-        this.history.push({
-          role: 'user',
-          parts: [...parts]
-        });
-        this.history.push(response.candidates[0].content);
-      }
-
-      const responseParts: ChatPart[] = [];
-      const candidate = response.candidates?.[0];
-      const content = candidate?.content;
-      const groundingMetadata = candidate?.groundingMetadata;
-
-      if (content?.parts) {
-        for (const part of content.parts) {
-          if (part.text) {
-            responseParts.push({ text: part.text });
-          } else if (part.inlineData) {
-            responseParts.push({
-              inlineData: {
-                mimeType: part.inlineData.mimeType,
-                data: part.inlineData.data,
-              },
-            });
-          }
-        }
-      }
+    // The full history is kept for branching and saving; only the request gets the compacted copy.
+    const { history: sentHistory, usage } = compactHistory(this.history, parts, this.contextPolicy);
+    const systemPrompt = renderPrompt('chatSystem');
+    const messageId = generateId();
+    const toMessage = (response: ModelResponse, state: Partial<ChatMessage> = {}): ChatMessage => {
+      const responseParts: ChatPart[] = response.parts.map(part => (
+        part.inlineData
+          ? { inlineData: { mimeType: part.inlineData.mimeType, data: part.inlineData.data } }
+          : { text: part.text }
+      ));
 
       // Fallback if no parts but text property exists
       if (responseParts.length === 0 && response.text) {
@@ -151,19 +161,57 @@ Remember the context of previous turns. If the user refers to "him" or "her" in
       }
 
       return {
-        id: generateId(),
+        id: messageId,
         role: 'model',
         parts: responseParts,
         timestamp: Date.now(),
         trace: trace,
-        groundingChunks: groundingMetadata?.groundingChunks as any,
+        contextUsage: usage,
+        promptTemplates: [{ id: systemPrompt.id, version: systemPrompt.version }],
+        groundingChunks: response.groundingChunks,
+        ...state
       };
+    };
+    // The entries a turn adds to the history; kept on the reply so a branch can rebuild its thread.
+    let context: ChatMessage['context'];
+    const recordTurn = (content: ModelContent) => {
+      // Record history for multi-turn
+      const turn = [{ role: 'user', parts: [...parts] }, content];
+      this.history.push(...turn);
+      context = JSON.parse(JSON.stringify(turn));
+    };
+
+    let partial = toStreamResponse([]);
+    try {
+      const response = await getModelProvider().streamText(
+        {
+          task: 'chat',
+          history: sentHistory,
+          contents: parts,
+          systemInstruction: systemPrompt.text,
+          tools: [{ googleSearch: {} }],
+          signal: options.signal,
+          ...(options.timeoutMs !== undefined ? { timeoutMs: options.timeoutMs } : {})
+        },
+        update => {
+          partial = update;
+          options.onUpdate?.(toMessage(update, { isStreaming: true }));
+        }
+      );
+
+      if (response.content) {
+        recordTurn(response.content);
+      }
+      return toMessage(response, context ? { context } : {});
     } catch (error: any) {
-      console.error("Gemini API Error:", error);
-      if (error.message?.includes("Requested entity was not found") || error.status === 404) {
-         throw new Error("API_KEY_INVALID");
+      const timedOut = !options.signal?.aborted && isTimeoutError(error);
+      if (options.signal?.aborted || isAbortError(error) || timedOut) {
+        // The partial reply is what the user saw, so the next turn continues from it.
+        if (partial.content) recordTurn(partial.content);
+        return toMessage(partial, { isStopped: true, ...(timedOut ? { isTimedOut: true } : {}), ...(context ? { context } : {}) });
       }
-      throw error;
+      console.error("Gemini API Error:", error);
+      throw toModelError(error);
     }
   }
 }
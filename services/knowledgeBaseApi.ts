@@ -0,0 +1,109 @@
+import { CharacterProfile, KnowledgeProject } from '../types';
+
+/** Manifest entry as stored in `KnowledgeBase/index.json`. */
+export interface KnowledgeBaseManifestEntry {
+  name: string;
+  path: string;
+  project?: string;
+  views?: Array<{ view: string; path: string }>;
+  profile?: CharacterProfile;
+}
+
+/** Style reference entry from the manifest's `styles` section. */
+export interface KnowledgeBaseStyleEntry {
+  pack: string;
+  name: string;
+  path: string;
+}
+
+const API_ROOT = '/api/knowledge-base';
+
+/** Addresses one character; `project` is omitted for the root knowledge base. */
+export interface KnowledgeBaseRef {
+  name: string;
+  project?: string;
+}
+
+const characterUrl = ({ name, project }: KnowledgeBaseRef, suffix = '', params: Record<string, string> = {}) => {
+  const query = new URLSearchParams({ ...(project ? { project } : {}), ...params }).toString();
+  return `${API_ROOT}/characters/${encodeURIComponent(name)}${suffix}${query ? `?${query}` : ''}`;
+};
+
+// The API only exists on the Vite dev/preview server; static deployments fall back to browser-only state.
+const request = async <T>(label: string, url: string, init?: RequestInit): Promise<T | null> => {
+  try {
+    const response = await fetch(url, init);
+    if (!response.ok) {
+      console.warn(`[KnowledgeBase API] ${label} failed (${response.status}): ${await response.text()}`);
+      return null;
+    }
+    return (await response.json()) as T;
+  } catch (error) {
+    console.error(`[KnowledgeBase API] ${label} failed`, error);
+    return null;
+  }
+};
+
+const jsonInit = (method: string, body: unknown): RequestInit => ({
+  method,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body)
+});
+
+export interface KnowledgeBaseManifest {
+  projects: KnowledgeProject[];
+  styles: KnowledgeBaseStyleEntry[];
+  characters: KnowledgeBaseManifestEntry[];
+}
+
+/** Fills the optional manifest sections so callers can read a raw `index.json` the same way. */
+export const normalizeManifest = (raw: any): KnowledgeBaseManifest => ({
+  projects: Array.isArray(raw?.projects) ? raw.projects : [],
+  styles: Array.isArray(raw?.styles) ? raw.styles : [],
+  characters: Array.isArray(raw?.characters) ? raw.characters : []
+});
+
+/** Lists the manifest after the server has reconciled it with the files on disk. */
+export const listKnowledgeBase = async () => {
+  const manifest = await request<unknown>('list', `${API_ROOT}/characters`, { cache: 'no-cache' });
+  return manifest ? normalizeManifest(manifest) : null;
+};
+
+export const getKnowledgeBaseEntry = (ref: KnowledgeBaseRef) =>
+  request<KnowledgeBaseManifestEntry>(`get "${ref.name}"`, characterUrl(ref), { cache: 'no-cache' });
+
+export const createKnowledgeBaseProject = (name: string) =>
+  request<KnowledgeProject>(`create project "${name}"`, `${API_ROOT}/projects`, jsonInit('POST', { name }));
+
+/** Writes a portrait (or a `view` of it) to disk, optionally updating the stored profile. */
+export const saveKnowledgeBaseAsset = (
+  ref: KnowledgeBaseRef,
+  base64: string,
+  mimeType: string,
+  view?: string,
+  profile?: CharacterProfile
+) => request<KnowledgeBaseManifestEntry>(
+  `save "${ref.name}"`,
+  `${API_ROOT}/save`,
+  jsonInit('POST', { name: ref.name, project: ref.project, base64, mimeType, view, profile })
+);
+
+export const updateKnowledgeBaseProfile = (ref: KnowledgeBaseRef, profile: CharacterProfile) =>
+  request<KnowledgeBaseManifestEntry>(`update "${ref.name}"`, characterUrl(ref), jsonInit('PATCH', { profile }));
+
+export const renameKnowledgeBaseEntry = (ref: KnowledgeBaseRef, nextName: string) =>
+  request<KnowledgeBaseManifestEntry>(`rename "${ref.name}"`, characterUrl(ref, '/rename'), jsonInit('POST', { name: nextName }));
+
+/** Deletes the entry and its files, or only the file of one view when `view` is given. */
+export const deleteKnowledgeBaseEntry = (ref: KnowledgeBaseRef, view?: string) =>
+  request<{ ok: boolean }>(`delete "${ref.name}"`, characterUrl(ref, '', view ? { view } : {}), { method: 'DELETE' });
+
+const styleUrl = (pack: string, name?: string) =>
+  `${API_ROOT}/styles/${encodeURIComponent(pack)}${name ? `/${encodeURIComponent(name)}` : ''}`;
+
+export const saveStyleReference = (pack: string, name: string, base64: string, mimeType: string) =>
+  request<KnowledgeBaseStyleEntry>(`save style "${pack}/${name}"`, `${API_ROOT}/styles`, jsonInit('POST', { pack, name, base64, mimeType }));
+
+/** Deletes one style reference, or the whole pack when `name` is omitted. */
+export const deleteStyleReference = (pack: string, name?: string) =>
+  request<{ ok: boolean }>(`delete style "${pack}/${name || ''}"`, styleUrl(pack, name), { method: 'DELETE' });
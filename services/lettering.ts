@@ -0,0 +1,320 @@
+import { generateId } from '../utils';
+import type { WorkshopScene } from './comicStudioService';
+import { DEFAULT_PAGE_GEOMETRY, PanelFrame } from './pageLayouts';
+
+/**
+ * The lettering layer: speech and thought balloons, narration boxes and sound effects drawn as
+ * vectors over a rendered page instead of by the image model. Items are placed from the
+ * storyboard dialogue, can be moved and edited, and are only burned into the image on export.
+ * Positions and sizes are fractions of the page, so the same items fit any render size.
+ */
+export type LetteringKind = 'speech' | 'thought' | 'narration' | 'sfx';
+
+export const LETTERING_KINDS: { id: LetteringKind; label: string }[] = [
+  { id: 'speech', label: '对白气泡' },
+  { id: 'thought', label: '心声气泡' },
+  { id: 'narration', label: '旁白框' },
+  { id: 'sfx', label: '拟声字' }
+];
+
+export interface Lettering {
+  id: string;
+  kind: LetteringKind;
+  text: string;
+  /** Centre of the item, as fractions of the page width and height. */
+  x: number;
+  y: number;
+  /** Where a speech or thought balloon points, in the same units. */
+  tail?: { x: number; y: number };
+  /** Vertical CJK text: columns from right to left. */
+  vertical: boolean;
+  /** As a fraction of the page width. */
+  fontSize: number;
+}
+
+export interface PageSize {
+  width: number;
+  height: number;
+}
+
+const DEFAULT_FONT_SIZE: Record<LetteringKind, number> = { speech: 0.032, thought: 0.03, narration: 0.028, sfx: 0.07 };
+
+export const LETTERING_FONT = '"PingFang SC", "Noto Sans SC", "Microsoft YaHei", sans-serif';
+
+// Opening and closing quotes the storyboard wraps dialogue in.
+const QUOTES = /^[『「“"']+|[』」”"']+$/g;
+
+const NO_DIALOGUE = /^[（(]?(无|无对白|无台词|—+|-+|…+)[）)]?$/;
+
+/** Splits a panel's dialogue into lettering lines, telling speech, thoughts, narration and SFX apart. */
+export const parseDialogue = (dialogue: string): Array<{ kind: LetteringKind; text: string; speaker?: string }> =>
+  (dialogue || '')
+    .split('\n')
+    // "『甲』『乙』" on one line is two balloons.
+    .flatMap(line => line.split(/(?<=[』」”])\s*(?=[『「“])/))
+    .map(line => line.trim())
+    .filter(Boolean)
+    .flatMap(line => {
+      let kind: LetteringKind = 'speech';
+      let speaker: string | undefined;
+      let text = line;
+      const labelled = line.match(/^(@?[^：:『「“"（(【，。！？,.!?\s]{1,12}?)\s*(?:[（(](心想|内心|心声|OS)[）)])?\s*[:：]\s*(.*)$/);
+      if (labelled) {
+        const [, label, inner, rest] = labelled;
+        text = rest;
+        if (/^(旁白|画外音|字幕)$/.test(label)) {
+          kind = 'narration';
+        } else if (/^(音效|拟声|SFX)$/i.test(label)) {
+          kind = 'sfx';
+        } else {
+          kind = inner || /(心想|内心|心声)$/.test(label) ? 'thought' : 'speech';
+          speaker = label.replace(/^@/, '').replace(/(心想|内心|心声)$/, '') || undefined;
+        }
+      } else if (/^【.*】$/.test(line)) {
+        kind = 'narration';
+        text = line.slice(1, -1);
+      } else if (/^[（(].*[）)]$/.test(line)) {
+        kind = 'thought';
+        text = line.slice(1, -1);
+      }
+      text = text.trim().replace(QUOTES, '').trim();
+      if (!text || NO_DIALOGUE.test(text)) return [];
+      return [{ kind, text, ...(speaker ? { speaker } : {}) }];
+    });
+
+export const createLettering = (kind: LetteringKind, text: string, x = 0.5, y = 0.5): Lettering => ({
+  id: `lettering-${generateId()}`,
+  kind,
+  text,
+  x,
+  y,
+  ...(kind === 'speech' || kind === 'thought' ? { tail: { x, y: Math.min(y + 0.08, 1) } } : {}),
+  vertical: false,
+  fontSize: DEFAULT_FONT_SIZE[kind]
+});
+
+const MAX_LINE_CHARS = { horizontal: 10, vertical: 8 };
+
+/** The text broken into lines (columns when vertical), balanced so the last one is not a stub. */
+export const wrapLetteringText = (item: Pick<Lettering, 'text' | 'vertical' | 'kind'>) =>
+  item.text.split('\n').flatMap(paragraph => {
+    const chars = Array.from(paragraph.trim());
+    if (item.kind === 'sfx' || chars.length === 0) return chars.length > 0 ? [chars.join('')] : [];
+    const lineCount = Math.ceil(chars.length / (item.vertical ? MAX_LINE_CHARS.vertical : MAX_LINE_CHARS.horizontal));
+    const perLine = Math.ceil(chars.length / lineCount);
+    return Array.from({ length: lineCount }, (_, index) => chars.slice(index * perLine, (index + 1) * perLine).join(''));
+  });
+
+const LINE_SPACING = 1.25;
+
+/** Size of the text block in page pixels. */
+export const measureLettering = (item: Lettering, page: PageSize) => {
+  const fontSize = item.fontSize * page.width;
+  const lines = wrapLetteringText(item);
+  const longest = Math.max(1, ...lines.map(line => Array.from(line).length));
+  const across = Math.max(1, lines.length) * fontSize * LINE_SPACING;
+  const along = longest * fontSize;
+  return { fontSize, lines, width: item.vertical ? across : along, height: item.vertical ? along : across };
+};
+
+// Punctuation that has its own glyph for vertical text.
+const VERTICAL_FORMS: Record<string, string> = {
+  '，': '︐', '、': '︑', '。': '︒', '：': '︓', '；': '︔', '！': '︕', '？': '︖',
+  '…': '︙', '—': '︱', '～': '≀', '「': '﹁', '」': '﹂', '『': '﹃', '』': '﹄',
+  '（': '︵', '）': '︶', '(': '︵', ')': '︶', '【': '︻', '】': '︼', '《': '︽', '》': '︾'
+};
+
+/** Each character with its centre in page pixels, for SVG and canvas alike. */
+export const layoutGlyphs = (item: Lettering, page: PageSize) => {
+  const { fontSize, lines, width, height } = measureLettering(item, page);
+  const cx = item.x * page.width;
+  const cy = item.y * page.height;
+  const step = fontSize * LINE_SPACING;
+  return lines.flatMap((line, lineIndex) =>
+    Array.from(line).map((char, charIndex) =>
+      item.vertical
+        ? {
+          char: VERTICAL_FORMS[char] || char,
+          x: cx + width / 2 - step / 2 - lineIndex * step,
+          y: cy - height / 2 + fontSize / 2 + charIndex * fontSize
+        }
+        : {
+          char,
+          x: cx - (Array.from(line).length * fontSize) / 2 + fontSize / 2 + charIndex * fontSize,
+          y: cy - height / 2 + step / 2 + lineIndex * step
+        }
+    )
+  );
+};
+
+export type BalloonShape =
+  | { type: 'ellipse'; cx: number; cy: number; rx: number; ry: number }
+  | { type: 'rect'; x: number; y: number; width: number; height: number };
+
+/** The outline around an item's text in page pixels; SFX stand on their own. */
+export const balloonShape = (item: Lettering, page: PageSize): BalloonShape | null => {
+  const { fontSize, width, height } = measureLettering(item, page);
+  const cx = item.x * page.width;
+  const cy = item.y * page.height;
+  if (item.kind === 'sfx') return null;
+  if (item.kind === 'narration') {
+    const padding = fontSize * 0.6;
+    return { type: 'rect', x: cx - width / 2 - padding, y: cy - height / 2 - padding, width: width + padding * 2, height: height + padding * 2 };
+  }
+  // An ellipse through the corners of the text block, with a little air.
+  return { type: 'ellipse', cx, cy, rx: width / Math.SQRT2 + fontSize * 0.5, ry: height / Math.SQRT2 + fontSize * 0.5 };
+};
+
+/**
+ * The tail in page pixels: a wedge for speech, a trail of shrinking circles for thoughts.
+ * Nothing when the tip lies inside the balloon.
+ */
+export const balloonTail = (item: Lettering, page: PageSize) => {
+  const shape = balloonShape(item, page);
+  if (!item.tail || !shape || shape.type !== 'ellipse') return null;
+  const tipX = item.tail.x * page.width;
+  const tipY = item.tail.y * page.height;
+  const angle = Math.atan2((tipY - shape.cy) / shape.ry, (tipX - shape.cx) / shape.rx);
+  const edge = (offset: number): [number, number] => [
+    shape.cx + shape.rx * Math.cos(angle + offset),
+    shape.cy + shape.ry * Math.sin(angle + offset)
+  ];
+  const [edgeX, edgeY] = edge(0);
+  if (Math.hypot(tipX - shape.cx, tipY - shape.cy) <= Math.hypot(edgeX - shape.cx, edgeY - shape.cy)) return null;
+  if (item.kind === 'thought') {
+    const radius = Math.min(shape.rx, shape.ry) * 0.22;
+    return {
+      type: 'bubbles' as const,
+      circles: [0.3, 0.6, 0.9].map((t, index) => ({
+        cx: edgeX + (tipX - edgeX) * t,
+        cy: edgeY + (tipY - edgeY) * t,
+        r: radius * (1 - index * 0.3)
+      }))
+    };
+  }
+  const spread = 0.18;
+  return { type: 'wedge' as const, points: [edge(-spread), [tipX, tipY] as [number, number], edge(spread)] };
+};
+
+/**
+ * Lettering for a page from its panels' dialogue: narration in a panel's top-left corner, balloons
+ * down the panel alternating sides with their tails towards its middle, SFX on the right.
+ * `frames` are the panels' frames on a page of `page` size, in panel order.
+ */
+export const placePageLettering = (panels: WorkshopScene[], frames: PanelFrame[], page: PageSize = DEFAULT_PAGE_GEOMETRY): Lettering[] =>
+  panels.flatMap((panel, index) => {
+    const frame = frames[index];
+    if (!frame) return [];
+    const inset = frame.width * 0.06;
+    let cursor = frame.y + inset;
+    let side = 0;
+    return parseDialogue(panel.dialogue).map(line => {
+      const item = createLettering(line.kind, line.text);
+      const { width, height } = measureLettering(item, page);
+      const shape = balloonShape(item, page);
+      const outerWidth = shape?.type === 'ellipse' ? shape.rx * 2 : shape?.type === 'rect' ? shape.width : width;
+      const outerHeight = shape?.type === 'ellipse' ? shape.ry * 2 : shape?.type === 'rect' ? shape.height : height;
+      const clampX = (x: number) => Math.min(Math.max(x, frame.x + outerWidth / 2), frame.x + frame.width - outerWidth / 2);
+      const clampY = (y: number) => Math.min(Math.max(y, frame.y + outerHeight / 2), frame.y + frame.height - outerHeight / 2);
+
+      let x: number;
+      let y: number;
+      if (line.kind === 'narration') {
+        x = clampX(frame.x + inset + outerWidth / 2);
+        y = clampY(cursor + outerHeight / 2);
+        cursor += outerHeight + inset / 2;
+      } else if (line.kind === 'sfx') {
+        x = clampX(frame.x + frame.width * 0.75);
+        y = clampY(frame.y + frame.height * 0.6);
+      } else {
+        x = clampX(side % 2 === 0 ? frame.x + inset + outerWidth / 2 : frame.x + frame.width - inset - outerWidth / 2);
+        y = clampY(cursor + outerHeight / 2);
+        cursor += outerHeight + inset / 2;
+        side++;
+      }
+      const placed = { ...item, x: x / page.width, y: y / page.height };
+      if (!placed.tail) return placed;
+      const tipX = x + (frame.x + frame.width / 2 - x) * 0.4;
+      const tipY = Math.min(y + outerHeight / 2 + frame.height * 0.12, frame.y + frame.height - inset);
+      return { ...placed, tail: { x: tipX / page.width, y: tipY / page.height } };
+    });
+  });
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = src;
+  });
+
+/** Draws lettering onto a canvas whose size is the page size. */
+export const drawLettering = (ctx: CanvasRenderingContext2D, items: Lettering[], page: PageSize) => {
+  const stroke = Math.max(1, page.width * 0.003);
+  items.forEach(item => {
+    const shape = balloonShape(item, page);
+    const tail = balloonTail(item, page);
+    ctx.save();
+    ctx.lineWidth = stroke;
+    ctx.strokeStyle = '#111111';
+    ctx.fillStyle = '#FFFFFF';
+    if (tail?.type === 'wedge') {
+      ctx.beginPath();
+      tail.points.forEach(([px, py], index) => (index === 0 ? ctx.moveTo(px, py) : ctx.lineTo(px, py)));
+      ctx.fill();
+      ctx.stroke();
+    } else if (tail?.type === 'bubbles') {
+      tail.circles.forEach(circle => {
+        ctx.beginPath();
+        ctx.arc(circle.cx, circle.cy, circle.r, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.stroke();
+      });
+    }
+    if (shape?.type === 'ellipse') {
+      ctx.beginPath();
+      ctx.ellipse(shape.cx, shape.cy, shape.rx, shape.ry, 0, 0, Math.PI * 2);
+      if (item.kind === 'thought') ctx.setLineDash([stroke * 3, stroke * 2]);
+      ctx.fill();
+      ctx.stroke();
+    } else if (shape?.type === 'rect') {
+      ctx.fillStyle = '#FFFDF2';
+      ctx.fillRect(shape.x, shape.y, shape.width, shape.height);
+      ctx.strokeRect(shape.x, shape.y, shape.width, shape.height);
+    }
+    ctx.restore();
+
+    const { fontSize } = measureLettering(item, page);
+    ctx.save();
+    ctx.font = `${item.kind === 'sfx' ? '900' : '500'} ${fontSize}px ${LETTERING_FONT}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    layoutGlyphs(item, page).forEach(glyph => {
+      if (item.kind === 'sfx') {
+        ctx.lineWidth = fontSize * 0.18;
+        ctx.strokeStyle = '#FFFFFF';
+        ctx.lineJoin = 'round';
+        ctx.strokeText(glyph.char, glyph.x, glyph.y);
+      }
+      ctx.fillStyle = '#111111';
+      ctx.fillText(glyph.char, glyph.x, glyph.y);
+    });
+    ctx.restore();
+  });
+};
+
+/** The page with its lettering burned in, as a data URL at the image's own size. */
+export const burnInLettering = async (imageUrl: string, items: Lettering[], mimeType: 'image/png' | 'image/jpeg' = 'image/png') => {
+  const img = await loadImage(imageUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.width;
+  canvas.height = img.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+  // JPEG has no alpha; a transparent render would otherwise turn black.
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, img.width, img.height);
+  ctx.drawImage(img, 0, 0);
+  drawLettering(ctx, items, { width: img.width, height: img.height });
+  return { dataUrl: canvas.toDataURL(mimeType, 0.92), width: img.width, height: img.height };
+};
@@ -0,0 +1,124 @@
+import { Entity } from '../types';
+
+export type MentionChunk = {
+  type: 'text' | 'mention';
+  value: string;
+  entity?: Entity;
+  /** Set when the token resolves to more than one entity. */
+  candidates?: Entity[];
+};
+
+export interface MentionConflict {
+  token: string;
+  entities: Entity[];
+}
+
+export const stripAt = (name: string) => name.trim().replace(/^@/, '');
+
+const pushUnique = (map: Map<string, Entity[]>, key: string, entity: Entity) => {
+  const list = map.get(key) || [];
+  if (!list.some(item => item.id === entity.id)) {
+    map.set(key, [...list, entity]);
+  }
+};
+
+/**
+ * Maps every mention token (canonical name or alias, without `@`) to the entities it may refer to.
+ * A canonical name shadows the same string used as someone else's alias.
+ */
+export const buildMentionIndex = (entities: Entity[]) => {
+  const byName = new Map<string, Entity[]>();
+  const byAlias = new Map<string, Entity[]>();
+  entities.forEach(entity => {
+    if (!entity.name) return;
+    pushUnique(byName, entity.name, entity);
+    (entity.profile?.aliases || []).forEach(alias => {
+      const key = stripAt(alias);
+      if (key && key !== entity.name) pushUnique(byAlias, key, entity);
+    });
+  });
+  const index = new Map<string, Entity[]>(byAlias);
+  byName.forEach((list, key) => index.set(key, list));
+  return index;
+};
+
+/** Tokens that point at more than one entity, including aliases shadowed by another entity's name. */
+export const findMentionConflicts = (entities: Entity[]): MentionConflict[] => {
+  const all = new Map<string, Entity[]>();
+  entities.forEach(entity => {
+    if (!entity.name) return;
+    pushUnique(all, entity.name, entity);
+    (entity.profile?.aliases || []).forEach(alias => {
+      const key = stripAt(alias);
+      if (key) pushUnique(all, key, entity);
+    });
+  });
+  return Array.from(all.entries())
+    .filter(([, list]) => list.length > 1)
+    .map(([token, list]) => ({ token, entities: list }));
+};
+
+export const resolveMention = (entities: Entity[], name: string): { entity?: Entity; candidates: Entity[] } => {
+  const candidates = buildMentionIndex(entities).get(stripAt(name)) || [];
+  return { entity: candidates.length === 1 ? candidates[0] : undefined, candidates };
+};
+
+/** Finds the knowledge-base entity for a name or alias; ambiguous aliases resolve to nothing. */
+export const findEntityByName = (entities: Entity[], name: string): Entity | undefined =>
+  resolveMention(entities, name).entity;
+
+/**
+ * Splits text into plain and `@mention` chunks. At each `@` the longest known token wins,
+ * so `@厉飞雨(化名)` is preferred over `@厉飞雨`.
+ */
+export const buildMentionChunks = (text: string, entities: Entity[]): MentionChunk[] => {
+  if (!text || entities.length === 0) {
+    return [{ type: 'text', value: text }];
+  }
+
+  const index = buildMentionIndex(entities);
+  const tokens = Array.from(index.keys()).sort((a, b) => b.length - a.length);
+  const chunks: MentionChunk[] = [];
+  let cursor = 0;
+  let searchFrom = 0;
+
+  while (searchFrom < text.length) {
+    const at = text.indexOf('@', searchFrom);
+    if (at === -1) break;
+    const token = tokens.find(candidate => text.startsWith(candidate, at + 1));
+    if (!token) {
+      searchFrom = at + 1;
+      continue;
+    }
+    if (at > cursor) {
+      chunks.push({ type: 'text', value: text.slice(cursor, at) });
+    }
+    const candidates = index.get(token) || [];
+    chunks.push(
+      candidates.length === 1
+        ? { type: 'mention', value: `@${token}`, entity: candidates[0] }
+        : { type: 'mention', value: `@${token}`, candidates }
+    );
+    cursor = at + 1 + token.length;
+    searchFrom = cursor;
+  }
+
+  if (cursor < text.length || chunks.length === 0) {
+    chunks.push({ type: 'text', value: text.slice(cursor) });
+  }
+  return chunks;
+};
+
+export const detectMentions = (text: string, entities: Entity[]) => {
+  const mentions = new Map<string, Entity>();
+  const ambiguous: MentionConflict[] = [];
+  buildMentionChunks(text, entities).forEach(chunk => {
+    if (chunk.type !== 'mention') return;
+    if (chunk.entity) {
+      mentions.set(chunk.entity.id, chunk.entity);
+    } else if (chunk.candidates && !ambiguous.some(item => item.token === chunk.value)) {
+      ambiguous.push({ token: chunk.value, entities: chunk.candidates });
+    }
+  });
+  return { mentions: Array.from(mentions.values()), ambiguous };
+};
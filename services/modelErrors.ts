@@ -0,0 +1,121 @@
+import { isAbortError } from './modelStream';
+import { isTimeoutError } from './modelTimeouts';
+
+/**
+ * What went wrong with a model call, independent of the provider:
+ * - `auth`: missing/invalid key or no access to the model
+ * - `rateLimit`: 429 / quota exhausted
+ * - `safety`: the prompt or the output was blocked
+ * - `emptyImage`: an image was requested but none came back
+ * - `schemaParse`: a JSON answer could not be parsed or had the wrong shape
+ * - `network`: the request did not get through, or the service was unavailable (5xx)
+ */
+export type ModelErrorKind = 'auth' | 'rateLimit' | 'safety' | 'emptyImage' | 'schemaParse' | 'network' | 'unknown';
+
+// Transient failures worth another attempt; a malformed JSON answer usually parses on the next try.
+const RETRYABLE_KINDS: ModelErrorKind[] = ['rateLimit', 'network', 'schemaParse'];
+
+export interface ModelErrorOptions {
+  status?: number;
+  /** Text from the model that explains the failure, e.g. its refusal when no image came back. */
+  detail?: string;
+  /** Server-suggested wait before retrying (429 `RetryInfo`). */
+  retryAfterMs?: number;
+  cause?: unknown;
+}
+
+export class ModelError extends Error {
+  public readonly kind: ModelErrorKind;
+  public readonly status?: number;
+  public readonly detail?: string;
+  public readonly retryAfterMs?: number;
+  public readonly cause?: unknown;
+
+  constructor(kind: ModelErrorKind, message: string, options: ModelErrorOptions = {}) {
+    super(message);
+    this.name = 'ModelError';
+    this.kind = kind;
+    this.status = options.status;
+    this.detail = options.detail;
+    this.retryAfterMs = options.retryAfterMs;
+    this.cause = options.cause;
+  }
+
+  public get retryable() {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+export const isModelError = (error: unknown, kind?: ModelErrorKind): error is ModelError =>
+  error instanceof ModelError && (!kind || error.kind === kind);
+
+/** Finish/block reasons that mean the output was withheld by a safety filter. */
+const SAFETY_REASONS = new Set([
+  'SAFETY',
+  'BLOCKLIST',
+  'PROHIBITED_CONTENT',
+  'SPII',
+  'IMAGE_SAFETY',
+  'IMAGE_PROHIBITED_CONTENT',
+  'MODEL_ARMOR'
+]);
+
+export const isSafetyReason = (reason?: string) => Boolean(reason && SAFETY_REASONS.has(reason));
+
+const AUTH_PATTERN = /API[_ ]KEY[_ ]INVALID|API key not valid|PERMISSION_DENIED|UNAUTHENTICATED|Requested entity was not found/i;
+const RATE_LIMIT_PATTERN = /RESOURCE_EXHAUSTED|quota|rate limit|too many requests/i;
+const NETWORK_PATTERN = /Failed to fetch|fetch failed|NetworkError|network error|ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|socket hang up|UNAVAILABLE|overloaded/i;
+
+// 429 bodies carry `"retryDelay": "20s"` (google.rpc.RetryInfo).
+const parseRetryDelay = (message: string) => {
+  const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Math.round(Number(match[1]) * 1000) : undefined;
+};
+
+/**
+ * Maps any error from a provider (SDK `ApiError`, fetch failure, parse error...) to a `ModelError`.
+ * `ModelError`s are returned as-is; aborts and timeouts are not model errors and should be checked first.
+ */
+export const toModelError = (error: unknown): ModelError => {
+  if (error instanceof ModelError) return error;
+  const message = String((error as { message?: unknown } | null)?.message ?? error ?? '');
+  const status = Number((error as { status?: unknown } | null)?.status) || undefined;
+  const options = { status, cause: error };
+
+  // A key without access to the model shows up as a 404 "Requested entity was not found".
+  if (status === 401 || status === 403 || AUTH_PATTERN.test(message)) {
+    return new ModelError('auth', message, options);
+  }
+  if (status === 429 || RATE_LIMIT_PATTERN.test(message)) {
+    return new ModelError('rateLimit', message, { ...options, retryAfterMs: parseRetryDelay(message) });
+  }
+  if ((status && status >= 500) || NETWORK_PATTERN.test(message)) {
+    return new ModelError('network', message, options);
+  }
+  if (error instanceof SyntaxError) {
+    return new ModelError('schemaParse', message, options);
+  }
+  return new ModelError('unknown', message, options);
+};
+
+const MESSAGES: Record<ModelErrorKind, string> = {
+  auth: 'API Key 无效或无权访问该模型，请重新选择 Key。',
+  rateLimit: '请求过于频繁或配额已用尽，请稍后再试。',
+  safety: '内容触发了安全策略，模型拒绝生成，请调整描述后重试。',
+  emptyImage: '模型没有返回图片，请调整提示词后重试。',
+  schemaParse: '模型返回的数据格式有误，请重试。',
+  network: '网络异常或服务暂时不可用，请检查网络后重试。',
+  unknown: '操作失败，请稍后重试。'
+};
+
+/** User-facing (Chinese) explanation of a failed call, including the model's own words when it refused. */
+export const describeModelError = (error: unknown): string => {
+  if (isTimeoutError(error)) return '请求超时，请稍后重试。';
+  if (isAbortError(error)) return '已取消。';
+  const modelError = toModelError(error);
+  const detail = modelError.detail?.trim();
+  if (detail && (modelError.kind === 'emptyImage' || modelError.kind === 'safety')) {
+    return `${MESSAGES[modelError.kind]}\n模型回复：${detail}`;
+  }
+  return MESSAGES[modelError.kind];
+};
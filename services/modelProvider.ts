@@ -0,0 +1,134 @@
+import { ChatMessage } from '../types';
+import { FAKE_GEMINI_PATH, FakeProvider } from './fakeProvider';
+import { GeminiProvider } from './geminiProvider';
+import { withRetries } from './modelRetry';
+import { resolveTimeoutConfig, withTimeouts } from './modelTimeouts';
+
+/**
+ * Every model call in the app belongs to one task, so models can be swapped per task
+ * (e.g. a cheaper text model for extraction) without touching the call sites.
+ */
+export type ModelTask = 'chat' | 'extraction' | 'storyboard' | 'workshopImage';
+
+export type ModelProviderId = 'gemini' | 'fake' | 'fake-server';
+
+export interface ModelPart {
+  text?: string;
+  inlineData?: {
+    mimeType: string;
+    data: string;
+  };
+  [key: string]: any;
+}
+
+export interface ModelContent {
+  role: 'user' | 'model' | string;
+  parts: ModelPart[];
+}
+
+export interface ModelRequest {
+  task: ModelTask;
+  /** The current user turn: plain text or multi-modal parts. */
+  contents: string | ModelPart[];
+  /** Prior turns for multi-turn calls; the caller owns and appends to it. */
+  history?: ModelContent[];
+  systemInstruction?: string;
+  tools?: any[];
+  /** Aborts the call; providers reject with an `AbortError`. */
+  signal?: AbortSignal;
+  /** Overrides the task timeout for this call (ms, 0 = none); see `services/modelTimeouts.ts`. */
+  timeoutMs?: number;
+}
+
+export interface JsonRequest extends ModelRequest {
+  /** Response schema in the @google/genai `Type` dialect. */
+  schema: any;
+}
+
+export interface ImageRequest extends ModelRequest {
+  imageConfig?: {
+    aspectRatio?: string;
+    resolution?: string;
+  };
+}
+
+export interface ModelResponse {
+  /** The model turn as it should be appended to history, or null when nothing came back. */
+  content: ModelContent | null;
+  parts: ModelPart[];
+  text: string;
+  groundingChunks?: ChatMessage['groundingChunks'];
+  /** Why generation ended (e.g. `STOP`, `IMAGE_SAFETY`), or the prompt block reason. */
+  finishReason?: string;
+}
+
+/** Receives the response accumulated so far after every streamed chunk. */
+export type StreamListener = (partial: ModelResponse) => void;
+
+export interface ModelProvider {
+  readonly id: ModelProviderId;
+  readonly requiresApiKey: boolean;
+  generateText(request: ModelRequest): Promise<ModelResponse>;
+  /** Like `generateText`, but reports text as it arrives; images arrive as whole parts. */
+  streamText(request: ModelRequest, onUpdate: StreamListener): Promise<ModelResponse>;
+  generateJson<T = any>(request: JsonRequest): Promise<T>;
+  generateImage(request: ImageRequest): Promise<ModelResponse>;
+}
+
+export const DEFAULT_MODELS: Record<ModelTask, string> = {
+  chat: 'gemini-3-pro-image-preview',
+  extraction: 'gemini-3-flash-preview',
+  storyboard: 'gemini-3-flash-preview',
+  workshopImage: 'gemini-3-pro-image-preview'
+};
+
+export const resolveModelConfig = (): Record<ModelTask, string> => ({
+  chat: process.env.MODEL_CHAT || DEFAULT_MODELS.chat,
+  extraction: process.env.MODEL_EXTRACTION || DEFAULT_MODELS.extraction,
+  storyboard: process.env.MODEL_STORYBOARD || DEFAULT_MODELS.storyboard,
+  workshopImage: process.env.MODEL_WORKSHOP_IMAGE || DEFAULT_MODELS.workshopImage
+});
+
+export const resolveProviderId = (): ModelProviderId => {
+  const id = process.env.MODEL_PROVIDER;
+  return id === 'fake' || id === 'fake-server' ? id : 'gemini';
+};
+
+// The fake server accepts any key; the SDK only needs a non-empty one.
+const FAKE_SERVER_API_KEY = 'fake-server-key';
+
+let activeProvider: ModelProvider | null = null;
+
+const createProvider = (models: Record<ModelTask, string>): ModelProvider => {
+  switch (resolveProviderId()) {
+    case 'fake':
+      return new FakeProvider(models);
+    case 'fake-server':
+      return new GeminiProvider(models, () => FAKE_SERVER_API_KEY, {
+        id: 'fake-server',
+        baseUrl: `${window.location.origin}${FAKE_GEMINI_PATH}`
+      });
+    default:
+      return new GeminiProvider(
+        models,
+        () => process.env.GEMINI_API_KEY || process.env.API_KEY || '',
+        process.env.GEMINI_BASE_URL ? { baseUrl: process.env.GEMINI_BASE_URL } : {}
+      );
+  }
+};
+
+/**
+ * Returns the provider selected by `MODEL_PROVIDER` (defaults to Gemini). Each attempt is bounded
+ * by the `MODEL_TIMEOUT_*` limits, transient failures are retried and errors surface as `ModelError`s.
+ * The instance is cached; call `setModelProvider` to swap it at runtime.
+ */
+export const getModelProvider = (): ModelProvider => {
+  if (!activeProvider) {
+    activeProvider = withRetries(withTimeouts(createProvider(resolveModelConfig()), resolveTimeoutConfig()));
+  }
+  return activeProvider;
+};
+
+export const setModelProvider = (provider: ModelProvider | null) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,72 @@
+import type { ModelProvider, ModelRequest } from './modelProvider';
+import { toModelError } from './modelErrors';
+import { isAbortError, wait } from './modelStream';
+import { isTimeoutError } from './modelTimeouts';
+
+export interface RetryPolicy {
+  /** Total attempts, including the first one. */
+  maxAttempts: number;
+  /** Delay before the first retry; doubles on every further retry. */
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 8000
+};
+
+// Exponential backoff with ±20% jitter, unless the server asked for a specific wait.
+const backoffDelay = (policy: RetryPolicy, retry: number, retryAfterMs?: number) => {
+  if (retryAfterMs !== undefined) return Math.min(retryAfterMs, policy.maxDelayMs);
+  const delay = Math.min(policy.baseDelayMs * 2 ** retry, policy.maxDelayMs);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+};
+
+/**
+ * Runs `call` until it succeeds, fails with a non-transient error or runs out of attempts.
+ * Aborts and timeouts pass through untouched; anything else is rethrown as a `ModelError`.
+ */
+const runWithRetries = async <T>(
+  policy: RetryPolicy,
+  request: ModelRequest,
+  call: () => Promise<T>,
+  canRetry: () => boolean = () => true
+): Promise<T> => {
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      return await call();
+    } catch (error) {
+      if (isAbortError(error) || isTimeoutError(error)) throw error;
+      const modelError = toModelError(error);
+      if (!modelError.retryable || attempt >= policy.maxAttempts || !canRetry()) throw modelError;
+      await wait(backoffDelay(policy, attempt - 1, modelError.retryAfterMs), request.signal);
+    }
+  }
+};
+
+/**
+ * Wraps a provider so transient failures (rate limits, network errors, unparseable JSON) are
+ * retried with backoff and every other failure surfaces as a typed `ModelError`.
+ * A stream is only retried while nothing has been delivered, so the caller never sees text twice.
+ */
+export const withRetries = (provider: ModelProvider, policy: RetryPolicy = DEFAULT_RETRY_POLICY): ModelProvider => ({
+  id: provider.id,
+  requiresApiKey: provider.requiresApiKey,
+  generateText: request => runWithRetries(policy, request, () => provider.generateText(request)),
+  streamText: (request, onUpdate) => {
+    let delivered = false;
+    return runWithRetries(
+      policy,
+      request,
+      () => provider.streamText(request, partial => {
+        delivered = true;
+        onUpdate(partial);
+      }),
+      () => !delivered
+    );
+  },
+  generateJson: request => runWithRetries(policy, request, () => provider.generateJson(request)),
+  generateImage: request => runWithRetries(policy, request, () => provider.generateImage(request))
+});
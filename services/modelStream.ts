@@ -0,0 +1,41 @@
+import type { ModelPart, ModelResponse } from './modelProvider';
+
+/** Appends a streamed chunk: text continues the last text part, anything else starts a new part. */
+export const appendStreamParts = (parts: ModelPart[], chunk: ModelPart[]): ModelPart[] => {
+  const next = [...parts];
+  chunk.forEach(part => {
+    const last = next[next.length - 1];
+    if (part.text !== undefined && last?.text !== undefined && !last.inlineData) {
+      next[next.length - 1] = { ...last, text: last.text + part.text };
+    } else {
+      next.push(part);
+    }
+  });
+  return next;
+};
+
+export const toStreamResponse = (parts: ModelPart[], groundingChunks?: ModelResponse['groundingChunks']): ModelResponse => ({
+  content: parts.length > 0 ? { role: 'model', parts } : null,
+  parts,
+  text: parts.map(part => part.text || '').join(''),
+  ...(groundingChunks ? { groundingChunks } : {})
+});
+
+export const createAbortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+export const isAbortError = (error: unknown) => (error as { name?: string } | null)?.name === 'AbortError';
+
+/** Resolves after `ms`, or rejects with an `AbortError` as soon as `signal` aborts. */
+export const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(createAbortError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
@@ -0,0 +1,102 @@
+import type { ModelProvider, ModelRequest, ModelTask } from './modelProvider';
+import { createAbortError } from './modelStream';
+
+/** Per-task limits in milliseconds; 0 disables the timeout for that task. */
+export type ModelTimeouts = Record<ModelTask, number>;
+
+export const DEFAULT_TIMEOUTS: ModelTimeouts = {
+  chat: 120_000,
+  extraction: 90_000,
+  storyboard: 180_000,
+  workshopImage: 180_000
+};
+
+// Env values are in seconds so `.env` stays readable.
+const readSeconds = (value: string | undefined, fallbackMs: number) => {
+  const seconds = Number(value);
+  return value && Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : fallbackMs;
+};
+
+export const resolveTimeoutConfig = (): ModelTimeouts => ({
+  chat: readSeconds(process.env.MODEL_TIMEOUT_CHAT, DEFAULT_TIMEOUTS.chat),
+  extraction: readSeconds(process.env.MODEL_TIMEOUT_EXTRACTION, DEFAULT_TIMEOUTS.extraction),
+  storyboard: readSeconds(process.env.MODEL_TIMEOUT_STORYBOARD, DEFAULT_TIMEOUTS.storyboard),
+  workshopImage: readSeconds(process.env.MODEL_TIMEOUT_WORKSHOP_IMAGE, DEFAULT_TIMEOUTS.workshopImage)
+});
+
+export const createTimeoutError = () => new DOMException('The model call timed out.', 'TimeoutError');
+
+export const isTimeoutError = (error: unknown) => (error as { name?: string } | null)?.name === 'TimeoutError';
+
+/**
+ * Runs `call` with a signal that aborts when either the caller's signal aborts or the
+ * deadline passes. `touch` restarts the deadline, so streams time out on inactivity.
+ * Rejects as soon as the signal fires, even if the provider does not honour it.
+ */
+const runWithDeadline = async <T>(
+  timeoutMs: number,
+  outer: AbortSignal | undefined,
+  call: (signal: AbortSignal, touch: () => void) => Promise<T>
+): Promise<T> => {
+  if (outer?.aborted) throw createAbortError();
+
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const touch = () => {
+    if (timeoutMs <= 0) return;
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+  };
+  const onOuterAbort = () => controller.abort();
+  outer?.addEventListener('abort', onOuterAbort, { once: true });
+
+  const stopped = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener(
+      'abort',
+      () => reject(timedOut ? createTimeoutError() : createAbortError()),
+      { once: true }
+    );
+  });
+
+  touch();
+  try {
+    return await Promise.race([call(controller.signal, touch), stopped]);
+  } catch (error) {
+    // The provider may reject with its own AbortError; report why the signal fired instead.
+    if (timedOut) throw createTimeoutError();
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    outer?.removeEventListener('abort', onOuterAbort);
+  }
+};
+
+/**
+ * Wraps a provider so every call is bounded by its task timeout (or `request.timeoutMs`).
+ * Timed-out calls reject with a `TimeoutError`; caller aborts still reject with an `AbortError`.
+ */
+export const withTimeouts = (provider: ModelProvider, timeouts: ModelTimeouts = DEFAULT_TIMEOUTS): ModelProvider => {
+  const limitFor = (request: ModelRequest) => request.timeoutMs ?? timeouts[request.task];
+
+  return {
+    id: provider.id,
+    requiresApiKey: provider.requiresApiKey,
+    generateText: request =>
+      runWithDeadline(limitFor(request), request.signal, signal => provider.generateText({ ...request, signal })),
+    streamText: (request, onUpdate) =>
+      runWithDeadline(limitFor(request), request.signal, (signal, touch) =>
+        provider.streamText({ ...request, signal }, partial => {
+          touch();
+          onUpdate(partial);
+        })
+      ),
+    generateJson: request =>
+      runWithDeadline(limitFor(request), request.signal, signal => provider.generateJson({ ...request, signal })),
+    generateImage: request =>
+      runWithDeadline(limitFor(request), request.signal, signal => provider.generateImage({ ...request, signal }))
+  };
+};
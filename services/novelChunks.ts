@@ -0,0 +1,73 @@
+/**
+ * Splits a novel into chunks the model can take in one request. Chunks end at a chapter heading
+ * where possible, else at a paragraph break; a chunk cut inside a chapter repeats the tail of the
+ * previous one (`overlap`) so names and scenes that straddle the cut are not lost.
+ */
+export interface NovelChunk {
+  index: number;
+  /** Offsets into the full text; `end` is exclusive. */
+  start: number;
+  end: number;
+  /** Characters at the start of the chunk that the previous chunk already covered. */
+  overlap: number;
+  text: string;
+  /** The chapter heading in effect at the start of the chunk, if any. */
+  heading?: string;
+}
+
+export interface ChunkOptions {
+  maxChars: number;
+  overlapChars: number;
+}
+
+export const EXTRACTION_CHUNK: ChunkOptions = { maxChars: 10000, overlapChars: 500 };
+export const STORYBOARD_CHUNK: ChunkOptions = { maxChars: 8000, overlapChars: 400 };
+
+const CHAPTER_HEADING = /^[ \t　]*(第[0-9零〇一二两三四五六七八九十百千万]+[章回节卷][^\n]*)$/gm;
+
+/** Start offsets and titles of the chapter headings in `text`. */
+export const findChapterHeadings = (text: string) =>
+  Array.from(text.matchAll(CHAPTER_HEADING), match => ({ offset: match.index ?? 0, title: match[1].trim() }));
+
+// The best place to end a chunk that starts at `start`: a chapter heading, else a line break in the
+// second half of the window, else the window edge.
+const findCut = (text: string, start: number, maxChars: number, headings: number[]) => {
+  const limit = start + maxChars;
+  if (limit >= text.length) return { end: text.length, atChapter: true };
+  const chapter = headings.filter(offset => offset > start && offset <= limit).pop();
+  if (chapter !== undefined) return { end: chapter, atChapter: true };
+  const lineBreak = text.lastIndexOf('\n', limit - 1);
+  if (lineBreak > start + maxChars / 2) return { end: lineBreak + 1, atChapter: false };
+  return { end: limit, atChapter: false };
+};
+
+/** Chunks of `text` from offset `from` on; `from` itself is never overlapped. */
+export const splitNovel = (text: string, options: ChunkOptions, from = 0): NovelChunk[] => {
+  const maxChars = Math.max(1, options.maxChars);
+  const overlapChars = Math.min(Math.max(0, options.overlapChars), Math.floor(maxChars / 2));
+  const headings = findChapterHeadings(text);
+  const headingOffsets = headings.map(heading => heading.offset);
+  const chunks: NovelChunk[] = [];
+
+  let start = Math.max(0, from);
+  let overlap = 0;
+  while (start < text.length) {
+    const { end, atChapter } = findCut(text, start + overlap, maxChars - overlap, headingOffsets);
+    const heading = headings.filter(item => item.offset <= start).pop()?.title;
+    chunks.push({ index: chunks.length, start, end, overlap, text: text.slice(start, end), ...(heading ? { heading } : {}) });
+    if (end >= text.length) break;
+    // A new chapter starts clean; a cut inside a chapter repeats the last lines of the chunk.
+    overlap = atChapter ? 0 : Math.min(overlapChars, end - start - 1);
+    const lineStart = overlap > 0 ? text.indexOf('\n', end - overlap) + 1 : 0;
+    if (overlap > 0 && lineStart > end - overlap && lineStart < end) overlap = end - lineStart;
+    start = end - overlap;
+  }
+  return chunks;
+};
+
+/** e.g. "已覆盖 8,000 / 12,345 字（65%）". */
+export const formatCoverage = (covered: number, total: number) => {
+  const done = Math.min(covered, total);
+  const percent = total > 0 ? Math.floor((done / total) * 100) : 100;
+  return `已覆盖 ${done.toLocaleString('en-US')} / ${total.toLocaleString('en-US')} 字（${percent}%）`;
+};
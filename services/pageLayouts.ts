@@ -0,0 +1,205 @@
+import type { WorkshopAspectRatio } from './comicStudioService';
+
+/**
+ * Page layouts for per-panel rendering. Each panel of a page is rendered on its own, in the aspect
+ * ratio of the frame the layout gives it, and `composePage` draws the panels into their frames
+ * on a canvas with gutters and borders. Frames are polygons so slanted (diagonal) cuts work
+ * like rectangular ones.
+ */
+export type PageLayoutId = 'stacked' | 'grid' | 'splash' | 'diagonal';
+
+export interface PageLayout {
+  id: PageLayoutId;
+  label: string;
+  description: string;
+}
+
+export const PAGE_LAYOUTS: PageLayout[] = [
+  { id: 'stacked', label: '横条堆叠', description: '每格占满一行，自上而下' },
+  { id: 'grid', label: '网格', description: '两列网格，单出的一格占满一行' },
+  { id: 'splash', label: '大图开场', description: '第一格占上半页，其余格并排在下方' },
+  { id: 'diagonal', label: '斜切', description: '横条之间用斜线分隔，节奏更紧张' }
+];
+
+export const DEFAULT_PAGE_LAYOUT: PageLayoutId = 'stacked';
+
+export interface PageGeometry {
+  width: number;
+  height: number;
+  /** Blank border around the panels. */
+  margin: number;
+  /** Space between neighbouring panels. */
+  gutter: number;
+}
+
+/** A 9:16 page, the same shape as a whole-page render. */
+export const DEFAULT_PAGE_GEOMETRY: PageGeometry = { width: 1080, height: 1920, margin: 48, gutter: 24 };
+
+export type Point = [number, number];
+
+export interface PanelFrame {
+  /** Corners in drawing order. */
+  points: Point[];
+  /** Bounding box of `points`. */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const frameFromPoints = (points: Point[]): PanelFrame => {
+  const xs = points.map(([x]) => x);
+  const ys = points.map(([, y]) => y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { points, x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
+
+const rect = (x: number, y: number, width: number, height: number) =>
+  frameFromPoints([[x, y], [x + width, y], [x + width, y + height], [x, y + height]]);
+
+// Splits `length` into `count` equal spans separated by `gutter`; returns [start, size] pairs.
+const spans = (start: number, length: number, count: number, gutter: number): Array<[number, number]> => {
+  const size = (length - gutter * (count - 1)) / count;
+  return Array.from({ length: count }, (_, index) => [start + index * (size + gutter), size]);
+};
+
+// A row of panels side by side.
+const row = (x: number, y: number, width: number, height: number, count: number, gutter: number) =>
+  spans(x, width, count, gutter).map(([left, size]) => rect(left, y, size, height));
+
+/** Frames for `count` panels of a page, in panel order. */
+export const layoutPanels = (layout: PageLayoutId, count: number, geometry: PageGeometry = DEFAULT_PAGE_GEOMETRY): PanelFrame[] => {
+  if (count <= 0) return [];
+  const { margin, gutter } = geometry;
+  const x = margin;
+  const y = margin;
+  const width = geometry.width - margin * 2;
+  const height = geometry.height - margin * 2;
+
+  if (count === 1) return [rect(x, y, width, height)];
+
+  switch (layout) {
+    case 'grid': {
+      const rows = Math.ceil(count / 2);
+      return spans(y, height, rows, gutter).flatMap(([top, size], index) =>
+        row(x, top, width, size, index === rows - 1 && count % 2 === 1 ? 1 : 2, gutter)
+      );
+    }
+    case 'splash': {
+      const rest = count - 1;
+      const splashHeight = (height - gutter) * 0.55;
+      const below = height - splashHeight - gutter;
+      // Up to three panels share a row under the splash; more wrap into two rows.
+      const rows = rest > 3 ? 2 : 1;
+      const perRow = Math.ceil(rest / rows);
+      return [
+        rect(x, y, width, splashHeight),
+        ...spans(y + splashHeight + gutter, below, rows, gutter).flatMap(([top, size], index) =>
+          row(x, top, width, size, Math.min(perRow, rest - index * perRow), gutter)
+        )
+      ];
+    }
+    case 'diagonal': {
+      // Cuts between rows tilt alternately; each cut is offset by half a gutter on either side.
+      const slant = Math.min(height / count / 4, 80);
+      const cuts = spans(y, height, count, gutter).slice(1).map(([top], index) => ({
+        center: top - gutter / 2,
+        tilt: index % 2 === 0 ? slant : -slant
+      }));
+      return Array.from({ length: count }, (_, index) => {
+        const above = cuts[index - 1];
+        const below = cuts[index];
+        const topLeft = above ? above.center + gutter / 2 + above.tilt : y;
+        const topRight = above ? above.center + gutter / 2 - above.tilt : y;
+        const bottomRight = below ? below.center - gutter / 2 - below.tilt : y + height;
+        const bottomLeft = below ? below.center - gutter / 2 + below.tilt : y + height;
+        return frameFromPoints([[x, topLeft], [x + width, topRight], [x + width, bottomRight], [x, bottomLeft]]);
+      });
+    }
+    default:
+      return spans(y, height, count, gutter).map(([top, size]) => rect(x, top, width, size));
+  }
+};
+
+const ASPECT_RATIOS: Array<[WorkshopAspectRatio, number]> = [
+  ['16:9', 16 / 9],
+  ['4:3', 4 / 3],
+  ['1:1', 1],
+  ['3:4', 3 / 4],
+  ['9:16', 9 / 16]
+];
+
+/** The supported render aspect ratio closest to a frame's shape. */
+export const frameAspectRatio = ({ width, height }: Pick<PanelFrame, 'width' | 'height'>): WorkshopAspectRatio => {
+  const ratio = Math.log(width / Math.max(height, 1));
+  return ASPECT_RATIOS.reduce((best, candidate) =>
+    Math.abs(Math.log(candidate[1]) - ratio) < Math.abs(Math.log(best[1]) - ratio) ? candidate : best
+  )[0];
+};
+
+export interface CompositeStyle {
+  border: number;
+  borderColor: string;
+  background: string;
+}
+
+export const DEFAULT_COMPOSITE_STYLE: CompositeStyle = { border: 6, borderColor: '#111111', background: '#FFFFFF' };
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = src;
+  });
+
+const tracePolygon = (ctx: CanvasRenderingContext2D, points: Point[]) => {
+  ctx.beginPath();
+  points.forEach(([px, py], index) => (index === 0 ? ctx.moveTo(px, py) : ctx.lineTo(px, py)));
+  ctx.closePath();
+};
+
+/**
+ * Draws panel images into their frames (cropped to fill, like CSS `object-fit: cover`) and
+ * returns the page as a JPEG data URL. A missing image leaves its frame blank.
+ */
+export const composePage = async (
+  frames: PanelFrame[],
+  images: Array<string | undefined>,
+  geometry: PageGeometry = DEFAULT_PAGE_GEOMETRY,
+  style: CompositeStyle = DEFAULT_COMPOSITE_STYLE
+) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = geometry.width;
+  canvas.height = geometry.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  ctx.fillStyle = style.background;
+  ctx.fillRect(0, 0, geometry.width, geometry.height);
+
+  const loaded = await Promise.all(images.map(src => (src ? loadImage(src) : Promise.resolve(null))));
+  frames.forEach((frame, index) => {
+    const img = loaded[index];
+    if (img) {
+      const scale = Math.max(frame.width / img.width, frame.height / img.height);
+      const drawWidth = img.width * scale;
+      const drawHeight = img.height * scale;
+      ctx.save();
+      tracePolygon(ctx, frame.points);
+      ctx.clip();
+      ctx.drawImage(img, frame.x + (frame.width - drawWidth) / 2, frame.y + (frame.height - drawHeight) / 2, drawWidth, drawHeight);
+      ctx.restore();
+    }
+    if (style.border > 0) {
+      tracePolygon(ctx, frame.points);
+      ctx.lineWidth = style.border;
+      ctx.lineJoin = 'miter';
+      ctx.strokeStyle = style.borderColor;
+      ctx.stroke();
+    }
+  });
+
+  return canvas.toDataURL('image/jpeg', 0.9);
+};
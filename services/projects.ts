@@ -0,0 +1,49 @@
+import type { Dispatch, SetStateAction } from 'react';
+import { Entity, KnowledgeProject } from '../types';
+
+/** The root of `KnowledgeBase/`; entities stored there carry no `project`. */
+export const DEFAULT_PROJECT_ID = '';
+
+export const DEFAULT_PROJECT: KnowledgeProject = { id: DEFAULT_PROJECT_ID, name: '默认项目' };
+
+export const getEntityProject = (entity: Pick<Entity, 'project'>) => entity.project || DEFAULT_PROJECT_ID;
+
+/** Identity of an entity across projects; the same name may exist once per project. */
+export const getEntityKey = (entity: Pick<Entity, 'name' | 'project'>) =>
+  `${getEntityProject(entity)}/${entity.name}`;
+
+export const filterEntitiesByProject = (entities: Entity[], projectId: string) =>
+  entities.filter(entity => getEntityProject(entity) === projectId);
+
+/** Project id for a glob path such as `/KnowledgeBase/凡人修仙传/韩立.jpg`. */
+export const getProjectFromAssetPath = (assetPath: string) => {
+  const segments = assetPath.replace(/^\/?KnowledgeBase\//, '').split('/');
+  return segments.length > 1 ? decodeURIComponent(segments[0]) : DEFAULT_PROJECT_ID;
+};
+
+/** Merges project lists by id, keeping the first name seen; the default project always leads. */
+export const mergeProjects = (...lists: KnowledgeProject[][]) => {
+  const merged = new Map<string, KnowledgeProject>([[DEFAULT_PROJECT_ID, DEFAULT_PROJECT]]);
+  lists.flat().forEach(project => {
+    if (!merged.has(project.id)) merged.set(project.id, project);
+  });
+  return Array.from(merged.values());
+};
+
+/**
+ * Wraps the global entity setter so a component only sees and edits one project.
+ * Entities added through the scoped setter are stamped with the project id.
+ */
+export const scopeEntitySetter = (
+  setEntities: Dispatch<SetStateAction<Entity[]>>,
+  projectId: string
+): Dispatch<SetStateAction<Entity[]>> => action =>
+  setEntities(prev => {
+    const inside = filterEntitiesByProject(prev, projectId);
+    const outside = prev.filter(entity => getEntityProject(entity) !== projectId);
+    const next = typeof action === 'function' ? action(inside) : action;
+    return [
+      ...next.map(entity => (getEntityProject(entity) === projectId ? entity : { ...entity, project: projectId || undefined })),
+      ...outside
+    ];
+  });
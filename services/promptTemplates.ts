@@ -0,0 +1,268 @@
+import { DEFAULT_PROJECT_ID } from './projects';
+
+/**
+ * Prompt templates: the system instructions and task prompts sent to the model, with
+ * `{{variable}}` placeholders. Each knowledge-base project can override a template; every
+ * saved edit becomes a new version, and the version used is recorded in the trace so outputs
+ * can be compared across prompt revisions. The built-in text is always version 1.
+ */
+export type PromptTemplateId = 'chatSystem' | 'workshopSystem' | 'extraction' | 'storyboard' | 'storyboardPage';
+
+export interface PromptVariable {
+  name: string;
+  description: string;
+  /** Used by the editor preview. */
+  sample: string;
+}
+
+export interface PromptTemplateDefinition {
+  id: PromptTemplateId;
+  label: string;
+  description: string;
+  variables: PromptVariable[];
+  defaultText: string;
+}
+
+export interface PromptRevision {
+  version: number;
+  text: string;
+  createdAt: number;
+}
+
+/** Which version of which template produced an output. */
+export interface PromptTemplateRef {
+  id: PromptTemplateId;
+  version: number;
+}
+
+export interface RenderedPrompt extends PromptTemplateRef {
+  text: string;
+}
+
+export const BUILTIN_PROMPT_VERSION = 1;
+
+const SAMPLE_NOVEL = `韩立站在山谷口，望着远处翻滚的黑雾，眉头微皱。
+"此阵不破，我们谁也出不去。"慕佩灵低声道，手中玉符泛起青光。`;
+
+const SAMPLE_CHARACTERS = `[Character Profile: @韩立]
+Role: 主角
+Appearance: 青色长袍，面容普通，目光沉静`;
+
+const SAMPLE_PREVIOUS = `上一段结尾：
+慕佩灵低声道："此阵不破，我们谁也出不去。"
+
+上一段最后的分镜：
+Page 3 Panel 4: 韩立凝视黑雾；对白：『先看看阵眼在哪。』`;
+
+const SAMPLE_PAGE = `Page 3 Panel 1: 石柱灵光一敛，祭坛震动；对白：『你以为你还有时间留在此界吗？』；角色：@玲珑
+Page 3 Panel 2: 晶莹巨人目光一闪；对白：『什么意思？』；角色：@魔像`;
+
+/** Art direction appended to the workshop system instruction. */
+export const DEFAULT_ART_STYLE = '风格采用3D 写实角色渲染，接近 3D 游戏/CG 角色海报';
+
+export const PROMPT_TEMPLATE_DEFINITIONS: Record<PromptTemplateId, PromptTemplateDefinition> = {
+  chatSystem: {
+    id: 'chatSystem',
+    label: '对话系统指令',
+    description: '对话页每一轮都会附带的 system instruction。',
+    variables: [],
+    defaultText: `You are Nano Banana Pro, a cutting-edge multimodal AI.
+You excel at text reasoning, image understanding, and image generation.
+
+KNOWLEDGE INJECTION:
+When users @mention characters, I will provide their visual reference data using [Visual Reference: Name · View] tags followed by an image. A character may come with several views (front, profile, back, full body, expressions, outfits); they all depict the same person. A [Character Profile: Name] block, when present, is the canonical description of that character (aliases, role, faction, appearance, relationships).
+Connect these images to the mentions. Use these visuals to ensure accurate character consistency in your responses.
+
+IMAGE GENERATION:
+- If asked to create an image, output an image part in your response.
+- Use the provided visual references for characters to maintain visual identity.
+- Describe the scene vividly.
+
+STYLE REFERENCE:
+- If a style reference block is provided, treat it as the global visual tone and apply it to image generation.
+
+MULTI-TURN:
+Remember the context of previous turns. If the user refers to "him" or "her" in relation to a character previously discussed or mentioned, maintain continuity.`
+  },
+  workshopSystem: {
+    id: 'workshopSystem',
+    label: '漫画出图系统指令',
+    description: 'AI 漫画工作台生成角色设定图和整页漫画时的 system instruction。',
+    variables: [{ name: 'artStyle', description: '画面风格要求', sample: DEFAULT_ART_STYLE }],
+    defaultText: `You are a cinematic manga art director. Produce one vivid frame per turn.
+- Always return exactly one image.
+- Maintain strict character consistency across turns using provided references.
+- Prioritize facial identity matching for character references; keep face ID highly consistent across renders.
+- Keep visual continuity and coherent pacing between panels.
+- If style references are provided, the output must match them，{{artStyle}} `
+  },
+  extraction: {
+    id: 'extraction',
+    label: '人物与物品提取',
+    description: '小说导入后提取人物和物品（结构化输出）。',
+    variables: [{ name: 'text', description: '小说文本（长篇按章节分段，每段最多 10000 字）', sample: SAMPLE_NOVEL }],
+    defaultText: `请深入分析以下小说文本，提取其中的核心人物和重要物品。
+
+规则：
+1. 人物姓名、身份描述和外貌细节必须使用中文。
+2. 人物姓名必须以 @ 开头（例如：@韩立）。
+3. 外貌描述（appearance）必须非常详细，包含发型、五官、体型、标志性服饰（颜色、款式）以及散发的气质，这将直接用于绘图提示词。
+4. 角色角色（role）必须分类为：主角（protagonist）、反派（antagonist）或配角（supporting）。
+5. 如文中出现别名、外号、化名，填入 aliases（不带 @）；所属门派/势力填入 faction；与其他人物的关系填入 relationships（target 为对方姓名，不带 @）。
+
+小说文本：
+{{text}}`
+  },
+  storyboard: {
+    id: 'storyboard',
+    label: '分镜脚本',
+    description: '根据小说与角色档案生成“页-格”分镜（结构化输出）。',
+    variables: [
+      { name: 'characters', description: '已知角色档案', sample: SAMPLE_CHARACTERS },
+      { name: 'previous', description: '前情衔接：上一段的结尾原文与最后几格分镜（长篇分段生成时）', sample: SAMPLE_PREVIOUS },
+      { name: 'text', description: '本段小说文本（长篇按章节分段，每段最多 8000 字）', sample: SAMPLE_NOVEL }
+    ],
+    defaultText: `你是一名资深的动漫分镜导演。请根据以下小说文本创作“页（page）-格（panel）”的漫画分镜脚本。
+
+已知角色背景：
+{{characters}}
+
+前情衔接（已画过，仅用于承接，不要重复）：
+{{previous}}
+
+小说内容：
+{{text}}
+
+规则：
+- 每一页包含 3-4 个平行 panel，尽量覆盖关键情节，不要跳过主要事件或转折。
+- 每个 panel 只用“一行”描述，格式示例：「Panel 1: 场景/动作；对白：『xxx』」。
+- 对白必须是中文，描述简短但画面信息充分；前后对话要连贯，保持因果与语气一致。
+- 禁止无提示的时间跳跃/场景跳切；如需转场必须用对白或画面描述清楚承接。
+- 如有前情衔接，第一格要自然接上它的最后一格，页码仍从 1 开始。
+- charactersInPanel 中的人物姓名必须以 @ 开头，并与角色表一致。
+- visualPrompt 必须是英文，包含镜头、构图、光影，并与上一格风格/构图保持连续性。
+
+输出 pages 数组，每个 page 携带 panels，严格遵守 response schema。`
+  },
+  storyboardPage: {
+    id: 'storyboardPage',
+    label: '重写分镜页',
+    description: '只重写选中的一页或几页分镜，前后页与相关原文作为上下文（结构化输出）。',
+    variables: [
+      { name: 'pages', description: '要重写的页码，如 3 或 3-4', sample: '3' },
+      { name: 'pageCount', description: '要输出的页数', sample: '1' },
+      { name: 'characters', description: '已知角色档案', sample: SAMPLE_CHARACTERS },
+      { name: 'text', description: '这几页对应的小说原文', sample: SAMPLE_NOVEL },
+      { name: 'before', description: '前一页的分镜', sample: '无（这是第一页）' },
+      { name: 'current', description: '要重写的现有分镜', sample: SAMPLE_PAGE },
+      { name: 'after', description: '后一页的分镜', sample: '无（这是最后一页）' },
+      { name: 'instruction', description: '用户的修改要求', sample: '这一页的动作戏更激烈一些' }
+    ],
+    defaultText: `你是一名资深的动漫分镜导演。请重写漫画分镜脚本的第 {{pages}} 页，其他页面保持不变。
+
+已知角色背景：
+{{characters}}
+
+相关小说原文：
+{{text}}
+
+前一页（已定稿，要自然承接，不要重复）：
+{{before}}
+
+需要重写的现有分镜：
+{{current}}
+
+后一页（已定稿，重写后的最后一格要能接上它）：
+{{after}}
+
+修改要求：
+{{instruction}}
+
+规则：
+- 恰好输出 {{pageCount}} 页，页码从 1 开始；每一页包含 3-4 个平行 panel。
+- 每个 panel 只用“一行”描述，格式示例：「Panel 1: 场景/动作；对白：『xxx』」。
+- 对白必须是中文，描述简短但画面信息充分；与前后页的对话和因果保持连贯。
+- charactersInPanel 中的人物姓名必须以 @ 开头，并与角色表一致。
+- visualPrompt 必须是英文，包含镜头、构图、光影，并与前后页风格/构图保持连续性。
+
+输出 pages 数组，每个 page 携带 panels，严格遵守 response schema。`
+  }
+};
+
+export const PROMPT_TEMPLATE_IDS = Object.keys(PROMPT_TEMPLATE_DEFINITIONS) as PromptTemplateId[];
+
+const PROMPT_TEMPLATE_PREFIX = 'promptTemplates:';
+
+type ProjectRevisions = Partial<Record<PromptTemplateId, PromptRevision[]>>;
+
+// Model calls do not know the project; the app tells this module which one is open.
+let activeProjectId = DEFAULT_PROJECT_ID;
+
+export const setActivePromptProject = (projectId: string) => {
+  activeProjectId = projectId || DEFAULT_PROJECT_ID;
+};
+
+const readProjectRevisions = (projectId: string): ProjectRevisions => {
+  try {
+    const raw = localStorage.getItem(`${PROMPT_TEMPLATE_PREFIX}${projectId}`);
+    return raw ? (JSON.parse(raw) as ProjectRevisions) : {};
+  } catch {
+    // No storage (tests, private mode) or a damaged entry: fall back to the built-in templates.
+    return {};
+  }
+};
+
+const builtinRevision = (id: PromptTemplateId): PromptRevision => ({
+  version: BUILTIN_PROMPT_VERSION,
+  text: PROMPT_TEMPLATE_DEFINITIONS[id].defaultText,
+  createdAt: 0
+});
+
+/** All versions of a template in a project, oldest first; the built-in text is the first. */
+export const listPromptRevisions = (id: PromptTemplateId, projectId = activeProjectId): PromptRevision[] => [
+  builtinRevision(id),
+  ...(readProjectRevisions(projectId)[id] || [])
+];
+
+export const getActivePromptRevision = (id: PromptTemplateId, projectId = activeProjectId) => {
+  const revisions = listPromptRevisions(id, projectId);
+  return revisions[revisions.length - 1];
+};
+
+/** Saves `text` as the next version of the template; saving the current text again is a no-op. */
+export const savePromptRevision = (id: PromptTemplateId, text: string, projectId = activeProjectId, now = Date.now()) => {
+  const current = getActivePromptRevision(id, projectId);
+  if (current.text === text) return current;
+  const revision: PromptRevision = { version: current.version + 1, text, createdAt: now };
+  const all = readProjectRevisions(projectId);
+  localStorage.setItem(
+    `${PROMPT_TEMPLATE_PREFIX}${projectId}`,
+    JSON.stringify({ ...all, [id]: [...(all[id] || []), revision] })
+  );
+  return revision;
+};
+
+/** Placeholders used in `text` that the template does not define. */
+export const findUnknownVariables = (id: PromptTemplateId, text: string) => {
+  const known = new Set(PROMPT_TEMPLATE_DEFINITIONS[id].variables.map(variable => variable.name));
+  const used = Array.from(text.matchAll(/\{\{\s*(\w+)\s*\}\}/g), match => match[1]);
+  return Array.from(new Set(used.filter(name => !known.has(name))));
+};
+
+/** Replaces `{{name}}` placeholders; unknown ones are left as written so they show up in the trace. */
+export const fillTemplate = (text: string, variables: Record<string, string>) =>
+  text.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : placeholder
+  );
+
+/** The active version of a template for the open project, filled with `variables`. */
+export const renderPrompt = (
+  id: PromptTemplateId,
+  variables: Record<string, string> = {},
+  projectId = activeProjectId
+): RenderedPrompt => {
+  const revision = getActivePromptRevision(id, projectId);
+  return { id, version: revision.version, text: fillTemplate(revision.text, variables) };
+};
+
+export const formatPromptRef = (ref: { id: string; version: number }) => `${ref.id} v${ref.version}`;
@@ -0,0 +1,176 @@
+import { generateId } from '../utils';
+import type { WorkshopScene } from './comicStudioService';
+
+/**
+ * Edits of the storyboard. The storyboard stays a flat `WorkshopScene[]`; every edit regroups it
+ * into pages, changes them and flattens them again, renumbering pages, panels and scenes in order.
+ * Page renders are keyed by page number, so each edit also reports where the old pages went.
+ */
+export interface StoryboardPage {
+  /** The page number before the edit; 0 for a page the edit created. */
+  pageNumber: number;
+  panels: WorkshopScene[];
+}
+
+export interface StoryboardEdit {
+  scenes: WorkshopScene[];
+  /** Old page number → new page number, for every page that still exists. */
+  pageMap: Record<number, number>;
+}
+
+export type PanelPatch = Partial<Pick<WorkshopScene, 'location' | 'description' | 'dialogue' | 'visualPrompt' | 'charactersInScene'>>;
+
+/** Pages in order, panels in order within each page. */
+export const groupStoryboardPages = (scenes: WorkshopScene[]): StoryboardPage[] => {
+  const pageMap = new Map<number, WorkshopScene[]>();
+  scenes.forEach(scene => {
+    const pageNumber = scene.pageNumber || 1;
+    pageMap.set(pageNumber, [...(pageMap.get(pageNumber) || []), scene]);
+  });
+  return Array.from(pageMap.entries())
+    .map(([pageNumber, panels]) => ({
+      pageNumber,
+      panels: [...panels].sort((a, b) => (a.panelNumber || a.sceneNumber) - (b.panelNumber || b.sceneNumber))
+    }))
+    .sort((a, b) => a.pageNumber - b.pageNumber);
+};
+
+// Flattens pages back into scenes; pages left without panels disappear.
+const flattenPages = (pages: StoryboardPage[]): StoryboardEdit => {
+  const scenes: WorkshopScene[] = [];
+  const pageMap: Record<number, number> = {};
+  pages
+    .filter(page => page.panels.length > 0)
+    .forEach((page, pageIndex) => {
+      const pageNumber = pageIndex + 1;
+      if (page.pageNumber > 0) pageMap[page.pageNumber] = pageNumber;
+      page.panels.forEach((panel, panelIndex) => {
+        scenes.push({ ...panel, pageNumber, panelNumber: panelIndex + 1, sceneNumber: scenes.length + 1 });
+      });
+    });
+  return { scenes, pageMap };
+};
+
+const editPages = (scenes: WorkshopScene[], edit: (pages: StoryboardPage[]) => StoryboardPage[]) =>
+  flattenPages(edit(groupStoryboardPages(scenes).map(page => ({ ...page, panels: [...page.panels] }))));
+
+const locatePanel = (pages: StoryboardPage[], id: string) => {
+  for (const page of pages) {
+    const index = page.panels.findIndex(panel => panel.id === id);
+    if (index !== -1) return { page, index };
+  }
+  return null;
+};
+
+export const createBlankPanel = (location = ''): WorkshopScene => ({
+  id: `scene-${generateId()}`,
+  sceneNumber: 0,
+  location,
+  description: '',
+  dialogue: '',
+  charactersInScene: [],
+  visualPrompt: ''
+});
+
+export const updatePanel = (scenes: WorkshopScene[], id: string, patch: PanelPatch) =>
+  editPages(scenes, pages => pages.map(page => ({
+    ...page,
+    panels: page.panels.map(panel => (panel.id === id ? { ...panel, ...patch } : panel))
+  })));
+
+/** Adds a blank panel to a page at `index` (the end by default), in the location of its neighbour. */
+export const insertPanel = (scenes: WorkshopScene[], pageNumber: number, index?: number) =>
+  editPages(scenes, pages => pages.map(page => {
+    if (page.pageNumber !== pageNumber) return page;
+    const at = Math.min(index ?? page.panels.length, page.panels.length);
+    const neighbour = page.panels[at - 1] || page.panels[at];
+    page.panels.splice(at, 0, createBlankPanel(neighbour?.location));
+    return page;
+  }));
+
+export const deletePanel = (scenes: WorkshopScene[], id: string) =>
+  editPages(scenes, pages => pages.map(page => ({ ...page, panels: page.panels.filter(panel => panel.id !== id) })));
+
+// Sentences of a dialogue, keeping their closing punctuation and quotes.
+const splitSentences = (text: string) => text.match(/[^。！？!?…\n]+[。！？!?…]*[』」"”]?\n?/g)?.map(part => part.trim()).filter(Boolean) || [];
+
+/** Splits a panel in two: both keep the scene, the dialogue is divided between them. */
+export const splitPanel = (scenes: WorkshopScene[], id: string) =>
+  editPages(scenes, pages => {
+    const found = locatePanel(pages, id);
+    if (!found) return pages;
+    const panel = found.page.panels[found.index];
+    const sentences = splitSentences(panel.dialogue || '');
+    const half = Math.ceil(sentences.length / 2);
+    found.page.panels.splice(
+      found.index,
+      1,
+      { ...panel, dialogue: sentences.length > 1 ? sentences.slice(0, half).join('') : panel.dialogue },
+      {
+        ...panel,
+        id: `scene-${generateId()}`,
+        dialogue: sentences.length > 1 ? sentences.slice(half).join('') : '',
+        generatedImageUrl: undefined,
+        lastUsedPrompt: undefined
+      }
+    );
+    return pages;
+  });
+
+const joinText = (a: string, b: string, separator: string) => [a, b].map(text => (text || '').trim()).filter(Boolean).join(separator);
+
+/** Merges a panel with the next one on its page into a single panel. */
+export const mergePanelWithNext = (scenes: WorkshopScene[], id: string) =>
+  editPages(scenes, pages => {
+    const found = locatePanel(pages, id);
+    const next = found?.page.panels[found.index + 1];
+    if (!found || !next) return pages;
+    const panel = found.page.panels[found.index];
+    found.page.panels.splice(found.index, 2, {
+      ...panel,
+      description: joinText(panel.description, next.description, '；'),
+      dialogue: joinText(panel.dialogue, next.dialogue, '\n'),
+      visualPrompt: joinText(panel.visualPrompt, next.visualPrompt, ' Then: '),
+      charactersInScene: Array.from(new Set([...panel.charactersInScene, ...next.charactersInScene]))
+    });
+    return pages;
+  });
+
+/**
+ * Moves a panel to position `index` of page `pageNumber` (its current page or another one);
+ * `index` counts the target page's panels before the move.
+ */
+export const movePanel = (scenes: WorkshopScene[], id: string, pageNumber: number, index: number) =>
+  editPages(scenes, pages => {
+    const found = locatePanel(pages, id);
+    const target = pages.find(page => page.pageNumber === pageNumber);
+    if (!found || !target) return pages;
+    const [panel] = found.page.panels.splice(found.index, 1);
+    const at = found.page === target && found.index < index ? index - 1 : index;
+    target.panels.splice(Math.max(0, Math.min(at, target.panels.length)), 0, panel);
+    return pages;
+  });
+
+/** Adds a page holding one blank panel after page `afterPageNumber` (0 for the front). */
+export const insertPage = (scenes: WorkshopScene[], afterPageNumber: number) =>
+  editPages(scenes, pages => {
+    const at = pages.findIndex(page => page.pageNumber === afterPageNumber) + 1;
+    const neighbour = pages[at - 1]?.panels.slice(-1)[0];
+    pages.splice(at, 0, { pageNumber: 0, panels: [createBlankPanel(neighbour?.location)] });
+    return pages;
+  });
+
+export const deletePage = (scenes: WorkshopScene[], pageNumber: number) =>
+  editPages(scenes, pages => pages.filter(page => page.pageNumber !== pageNumber));
+
+/**
+ * Puts `replacement` (scenes grouped by their own page numbers) in place of pages
+ * `fromPage`–`toPage`; the replaced pages count as removed in `pageMap`.
+ */
+export const replacePages = (scenes: WorkshopScene[], fromPage: number, toPage: number, replacement: WorkshopScene[]) =>
+  editPages(scenes, pages => {
+    const kept = pages.filter(page => page.pageNumber < fromPage || page.pageNumber > toPage);
+    const at = kept.filter(page => page.pageNumber < fromPage).length;
+    kept.splice(at, 0, ...groupStoryboardPages(replacement).map(page => ({ ...page, pageNumber: 0 })));
+    return kept;
+  });
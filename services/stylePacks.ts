@@ -0,0 +1,29 @@
+import { SceneReference } from '../types';
+
+/** Pack used for references imported before packs existed or without a folder name. */
+export const DEFAULT_STYLE_PACK = '默认画风';
+
+export interface StylePack {
+  name: string;
+  references: SceneReference[];
+}
+
+export const getStylePack = (ref: Pick<SceneReference, 'pack'>) => ref.pack || DEFAULT_STYLE_PACK;
+
+export const getStyleRefKey = (ref: Pick<SceneReference, 'pack' | 'name'>) => `${getStylePack(ref)}/${ref.name}`;
+
+/** Groups references by pack, keeping the order in which packs first appear. */
+export const groupStylePacks = (references: SceneReference[]): StylePack[] => {
+  const packs = new Map<string, SceneReference[]>();
+  references.forEach(ref => {
+    const name = getStylePack(ref);
+    packs.set(name, [...(packs.get(name) || []), ref]);
+  });
+  return Array.from(packs.entries()).map(([name, refs]) => ({ name, references: refs }));
+};
+
+/** The pack to inject: the selected one if it still exists, otherwise the first pack. */
+export const resolveActiveStylePack = (references: SceneReference[], selected: string | null) => {
+  const packs = groupStylePacks(references);
+  return packs.find(pack => pack.name === selected) || packs[0] || null;
+};
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { getArtStylePreset, resolvePresetStyleReferences } from '../services/artStyles';
+import { groupStylePacks } from '../services/stylePacks';
+import { makeSceneRef } from './fixtures';
+
+describe('art-style presets', () => {
+  const selected = [makeSceneRef('海报', { pack: '3D' })];
+  const packs = groupStylePacks([...selected, makeSceneRef('山水', { pack: '水墨' })]);
+
+  it('falls back to the default preset for unknown ids', () => {
+    expect(getArtStylePreset('missing').id).toBe('cg3d');
+    expect(getArtStylePreset(undefined).id).toBe('cg3d');
+  });
+
+  it('renders with the bundled pack when it exists, else with the selected pack', () => {
+    expect(resolvePresetStyleReferences(getArtStylePreset('inkWash'), packs, selected).map(ref => ref.name)).toEqual(['山水']);
+    expect(resolvePresetStyleReferences(getArtStylePreset('manga'), packs, selected)).toBe(selected);
+    expect(resolvePresetStyleReferences(getArtStylePreset('cg3d'), packs, selected)).toBe(selected);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildThreadHistory,
+  createConversation,
+  DEFAULT_CONVERSATION_NAME,
+  deriveConversationName,
+  getLatestLeaf,
+  getSiblings,
+  getThread,
+  linkLegacyMessages,
+  pickActiveConversation
+} from '../services/chatConversations';
+import { ChatMessage } from '../types';
+
+const meta = (id: string, projectId?: string, updatedAt = 0) => ({ id, name: id, projectId, createdAt: 0, updatedAt });
+
+const message = (id: string, role: ChatMessage['role'], parentId?: string, overrides: Partial<ChatMessage> = {}): ChatMessage => ({
+  id,
+  role,
+  parts: [{ text: id }],
+  timestamp: 0,
+  parentId,
+  ...overrides
+});
+
+const turn = (user: string, model: string) => [
+  { role: 'user', parts: [{ text: user }] },
+  { role: 'model', parts: [{ text: model }] }
+];
+
+// u1 → m1 → u2 → m2, with u2 edited into u2b (→ m2b) and m2 regenerated as m2c.
+const tree = [
+  message('u1', 'user'),
+  message('m1', 'model', 'u1', { context: turn('u1', 'm1') }),
+  message('u2', 'user', 'm1'),
+  message('m2', 'model', 'u2', { context: turn('u2', 'm2') }),
+  message('u2b', 'user', 'm1'),
+  message('m2b', 'model', 'u2b', { context: turn('u2b', 'm2b') }),
+  message('m2c', 'model', 'u2', { context: turn('u2', 'm2c') })
+];
+const ids = (messages: ChatMessage[]) => messages.map(item => item.id);
+
+describe('deriveConversationName', () => {
+  it('uses the first message on one line', () => {
+    expect(deriveConversationName('  @韩立\n画一张 全身像 ')).toBe('@韩立 画一张 全身像');
+  });
+
+  it('trims long messages by character, not by UTF-16 unit', () => {
+    const name = deriveConversationName('韩'.repeat(30));
+    expect(Array.from(name)).toHaveLength(25);
+    expect(name.endsWith('…')).toBe(true);
+  });
+
+  it('falls back to the default name for empty text', () => {
+    expect(deriveConversationName('   ')).toBe(DEFAULT_CONVERSATION_NAME);
+  });
+});
+
+describe('pickActiveConversation', () => {
+  const conversations = [meta('b', '凡人修仙传', 2), meta('a', undefined, 1), meta('c', '凡人修仙传', 0)];
+
+  it('keeps the remembered conversation when it belongs to the project', () => {
+    expect(pickActiveConversation(conversations, '凡人修仙传', 'c')?.id).toBe('c');
+  });
+
+  it("falls back to the project's first listed conversation", () => {
+    expect(pickActiveConversation(conversations, '凡人修仙传', 'a')?.id).toBe('b');
+    expect(pickActiveConversation(conversations, '', null)?.id).toBe('a');
+    expect(pickActiveConversation(conversations, '其他', null)).toBeNull();
+  });
+});
+
+describe('createConversation', () => {
+  it('starts empty with the default name', () => {
+    expect(createConversation('凡人修仙传', 5)).toMatchObject({
+      name: DEFAULT_CONVERSATION_NAME,
+      projectId: '凡人修仙传',
+      createdAt: 5,
+      updatedAt: 5,
+      messages: [],
+      history: []
+    });
+  });
+});
+
+describe('conversation branches', () => {
+  it('shows the thread from the root to the active leaf', () => {
+    expect(ids(getThread(tree, 'm2b'))).toEqual(['u1', 'm1', 'u2b', 'm2b']);
+    expect(ids(getThread(tree, undefined))).toEqual([]);
+  });
+
+  it('lists edits and regenerations as siblings in creation order', () => {
+    expect(ids(getSiblings(tree, tree[2]))).toEqual(['u2', 'u2b']);
+    expect(ids(getSiblings(tree, tree[3]))).toEqual(['m2', 'm2c']);
+    expect(ids(getSiblings(tree, tree[0]))).toEqual(['u1']);
+  });
+
+  it('opens a branch at its newest reply', () => {
+    expect(getLatestLeaf(tree, 'u2')).toBe('m2c');
+    expect(getLatestLeaf(tree, 'm2b')).toBe('m2b');
+  });
+
+  it('rebuilds the model history of a thread without the other branches', () => {
+    expect(buildThreadHistory(getThread(tree, 'm2c'))).toEqual([...turn('u1', 'm1'), ...turn('u2', 'm2c')]);
+  });
+
+  it('chains conversations saved before branching and hands out their history', () => {
+    const legacy = [
+      message('u1', 'user'),
+      message('m1', 'model'),
+      message('u2', 'user'),
+      message('e2', 'model', undefined, { isError: true }),
+      message('u3', 'user'),
+      message('m3', 'model')
+    ];
+    const linked = linkLegacyMessages(legacy, [...turn('u1', 'm1'), ...turn('u3', 'm3')]);
+
+    expect(ids(getThread(linked, 'm3'))).toEqual(ids(legacy));
+    expect(linked[3].context).toBeUndefined();
+    expect(linked[5].context).toEqual(turn('u3', 'm3'));
+    expect(linkLegacyMessages(tree, [])).toBe(tree);
+  });
+});
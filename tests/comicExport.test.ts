@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { buildComicInfo, crc32, createPdf, createZip, exportFileName } from '../services/comicExport';
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+const latin1 = (data: Uint8Array) => Array.from(data, byte => String.fromCharCode(byte)).join('');
+
+// Reads entry names and contents back through the central directory, as an unzip tool would.
+const readZip = (zip: Uint8Array) => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let cursor = view.getUint32(end + 16, true);
+  const entries: Array<{ name: string; data: string; crc: number }> = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(cursor, true)).toBe(0x02014b50);
+    const crc = view.getUint32(cursor + 16, true);
+    const size = view.getUint32(cursor + 20, true);
+    const nameLength = view.getUint16(cursor + 28, true);
+    const localOffset = view.getUint32(cursor + 42, true);
+    const name = new TextDecoder().decode(zip.slice(cursor + 46, cursor + 46 + nameLength));
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true);
+    entries.push({ name, crc, data: new TextDecoder().decode(zip.slice(dataStart, dataStart + size)) });
+    cursor += 46 + nameLength;
+  }
+  return entries;
+};
+
+describe('createZip', () => {
+  it('computes the standard CRC-32', () => {
+    expect(crc32(bytes('hello'))).toBe(0x3610a686);
+  });
+
+  it('writes entries that read back through the central directory', () => {
+    const zip = createZip([{ name: '001.jpg', data: bytes('page one') }, { name: '漫画.xml', data: bytes('<x/>') }]);
+
+    expect(readZip(zip)).toEqual([
+      { name: '001.jpg', data: 'page one', crc: crc32(bytes('page one')) },
+      { name: '漫画.xml', data: '<x/>', crc: crc32(bytes('<x/>')) }
+    ]);
+  });
+});
+
+describe('buildComicInfo', () => {
+  it('lists the pages with the cover first and escapes the metadata', () => {
+    const xml = buildComicInfo({ title: '破阵 <一>', languageISO: 'zh' }, [
+      { width: 1080, height: 1920, size: 100 },
+      { width: 1080, height: 1920, size: 200 }
+    ]);
+
+    expect(xml).toContain('<Title>破阵 &lt;一&gt;</Title>');
+    expect(xml).toContain('<PageCount>2</PageCount>');
+    expect(xml).not.toContain('<Summary>');
+    expect(xml).toContain('<Page Image="0" Type="FrontCover" ImageSize="100" ImageWidth="1080" ImageHeight="1920" />');
+    expect(xml).toContain('<Page Image="1" ImageSize="200" ImageWidth="1080" ImageHeight="1920" />');
+  });
+});
+
+describe('createPdf', () => {
+  it('writes one page per image and an xref pointing at every object', () => {
+    const pdf = latin1(createPdf([
+      { data: bytes('jpeg-1'), width: 1080, height: 1920 },
+      { data: bytes('jpeg-2'), width: 800, height: 600 }
+    ], '破阵'));
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('/Count 2');
+    expect(pdf).toContain('/MediaBox [0 0 810 1440]');
+    expect(pdf).toContain('/Title <FEFF78349635>');
+    const xrefOffset = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    const offsets = pdf.slice(xrefOffset).match(/^\d{10} 00000 n $/gm)!.map(line => Number(line.slice(0, 10)));
+    expect(offsets).toHaveLength(9);
+    offsets.forEach((offset, index) => expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true));
+  });
+});
+
+describe('exportFileName', () => {
+  it('keeps the session name and drops characters file systems reject', () => {
+    expect(exportFileName('第一章: 破阵/上', 'cbz')).toBe('第一章_ 破阵_上.cbz');
+    expect(exportFileName('  ', 'png')).toBe('comic.zip');
+  });
+});
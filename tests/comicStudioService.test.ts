@@ -0,0 +1,341 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  buildWorkshopImageParts,
+  extractWorkshopEntities,
+  flattenStoryboardPages,
+  formatPartsTrace,
+  generateWorkshopStoryboard,
+  mergeExtractedEntities,
+  rewriteStoryboardPages,
+  WorkshopCharacter,
+  WorkshopImageRef,
+  WorkshopSession
+} from '../services/comicStudioService';
+import { setModelProvider } from '../services/modelProvider';
+import { DEFAULT_ART_STYLE } from '../services/promptTemplates';
+import { createRecordingProvider } from './fakeModelClient';
+
+const ref = (data: string, name?: string): WorkshopImageRef => ({ data, mimeType: 'image/jpeg', ...(name ? { name } : {}) });
+const texts = (parts: Array<{ text?: string }>) => parts.map(part => part.text ?? '<image>');
+
+describe('buildWorkshopImageParts', () => {
+  it('puts style refs, then character refs, then the scene prompt', () => {
+    const parts = buildWorkshopImageParts('hero stands', [ref('char-data', '@韩立')], '9:16', [ref('style-data', '水墨')], true);
+
+    expect(texts(parts)).toEqual([
+      '--- Style Reference (Global Visual Tone) ---',
+      '[Style Reference 1: 水墨]',
+      '<image>',
+      '--- End of Style Reference ---',
+      '--- Visual References (use these images as the definitive style + identity anchors) ---',
+      '[Character Reference 1: @韩立]',
+      '<image>',
+      '--- End of Visual References ---',
+      'Render a single 9:16 frame. Scene prompt: hero stands'
+    ]);
+  });
+
+  it('skips the style block after the first turn', () => {
+    const parts = buildWorkshopImageParts('p', [], '16:9', [ref('style-data', '水墨')], false);
+    expect(texts(parts)).toEqual(['Render a single 16:9 frame. Scene prompt: p']);
+  });
+
+  it('deduplicates named references with the same data', () => {
+    const parts = buildWorkshopImageParts('p', [ref('same', '@韩立'), ref('same', '@韩立'), ref('same', '@南宫婉')]);
+    expect(texts(parts).filter(text => text.startsWith('[Character Reference'))).toEqual([
+      '[Character Reference 1: @韩立]',
+      '[Character Reference 2: @南宫婉]'
+    ]);
+  });
+
+  it('keeps unnamed references apart by position', () => {
+    const parts = buildWorkshopImageParts('p', [ref('same'), ref('same')]);
+    expect(texts(parts).filter(text => text.startsWith('[Character Reference'))).toHaveLength(2);
+  });
+});
+
+describe('formatPartsTrace', () => {
+  it('reduces images to their type and size', () => {
+    expect(formatPartsTrace([{ text: 'hello' }, { inlineData: { mimeType: 'image/png', data: 'abcd' } }, {}])).toBe(
+      'TEXT: hello\nIMAGE: image/png, bytes=4\nPART: [unknown]'
+    );
+  });
+});
+
+describe('flattenStoryboardPages', () => {
+  it('numbers scenes continuously across pages', () => {
+    const scenes = flattenStoryboardPages(
+      [
+        {
+          pageNumber: 1,
+          panels: [
+            { panelNumber: 1, location: '山门', panelLine: '韩立登场', dialogue: '……', charactersInPanel: ['@韩立'], visualPrompt: 'wide shot' },
+            { panelNumber: 2, location: '山门', panelLine: '回头', dialogue: '', charactersInPanel: [], visualPrompt: 'close-up' }
+          ]
+        },
+        {
+          pageNumber: 2,
+          panels: [
+            { panelNumber: 1, location: '洞府', panelLine: '打坐', dialogue: '', charactersInPanel: ['@韩立'], visualPrompt: 'interior' }
+          ]
+        }
+      ],
+      42
+    );
+
+    expect(scenes.map(scene => [scene.id, scene.sceneNumber, scene.pageNumber, scene.panelNumber])).toEqual([
+      ['scene-42-0', 1, 1, 1],
+      ['scene-42-1', 2, 1, 2],
+      ['scene-42-2', 3, 2, 1]
+    ]);
+    expect(scenes[0]).toMatchObject({
+      location: '山门',
+      description: '韩立登场',
+      dialogue: '……',
+      charactersInScene: ['@韩立'],
+      visualPrompt: 'wide shot'
+    });
+  });
+
+  it('tolerates missing pages and panels', () => {
+    expect(flattenStoryboardPages(null)).toEqual([]);
+    expect(flattenStoryboardPages([{ pageNumber: 1 }, null])).toEqual([]);
+    expect(flattenStoryboardPages([{ pageNumber: 1, panels: [{ panelNumber: 1 }] }])[0].charactersInScene).toEqual([]);
+  });
+});
+
+describe('mergeExtractedEntities', () => {
+  const character = (name: string, overrides: Partial<WorkshopCharacter> = {}): WorkshopCharacter => ({
+    id: name,
+    name,
+    description: '',
+    appearance: '',
+    role: 'supporting',
+    ...overrides
+  });
+
+  it('joins a character found again by name or alias and keeps the more detailed appearance', () => {
+    const { characters, items } = mergeExtractedEntities([
+      { characters: [character('@韩立', { description: '主角', appearance: '青袍' })], items: [{ id: 'i1', name: '逆星盘', description: '法宝' }] },
+      {
+        characters: [
+          character('@韩老魔', { aliases: ['韩立'], appearance: '青色长袍，面容普通，目光沉静' }),
+          character('@玲珑', { role: 'protagonist' })
+        ],
+        items: [{ id: 'i2', name: '逆星盘 ', description: '重复' }]
+      }
+    ]);
+
+    expect(characters.map(c => [c.name, c.description, c.appearance, c.aliases])).toEqual([
+      ['@韩立', '主角', '青色长袍，面容普通，目光沉静', ['韩老魔']],
+      ['@玲珑', '', '', undefined]
+    ]);
+    expect(items.map(item => item.id)).toEqual(['i1']);
+  });
+});
+
+describe('workshop calls through the model provider', () => {
+  let recording: ReturnType<typeof createRecordingProvider>;
+  let session: WorkshopSession;
+
+  beforeEach(() => {
+    recording = createRecordingProvider();
+    setModelProvider(recording.provider);
+    session = new WorkshopSession();
+  });
+
+  afterEach(() => {
+    setModelProvider(null);
+  });
+
+  it('injects style refs only on the first render of a session', async () => {
+    const styleRefs = [ref('style-data', '水墨')];
+    const first = await session.generateImage('p1', [ref('char-data', '@韩立')], '16:9', styleRefs);
+    await session.generateImage('p2', [ref('char-data', '@韩立')], '16:9', styleRefs);
+
+    const [firstCall, secondCall] = recording.calls;
+    expect(firstCall.kind).toBe('image');
+    expect(texts(firstCall.request.contents as any[])).toContain('[Style Reference 1: 水墨]');
+    expect(texts(secondCall.request.contents as any[])).not.toContain('[Style Reference 1: 水墨]');
+    expect(secondCall.request.history).toHaveLength(2);
+    expect(session.getHistory()).toHaveLength(4);
+    expect(first.imageUrl.startsWith('data:image/svg+xml;base64,')).toBe(true);
+    expect(first.trace.split('\n')[0]).toBe('TEXT: --- Style Reference (Global Visual Tone) ---');
+  });
+
+  it('keeps each session to its own history', async () => {
+    const other = new WorkshopSession();
+    await session.generateImage('p1', [], '16:9');
+
+    await other.generateImage('q1', [], '16:9');
+
+    expect(recording.calls[1].request.history).toEqual([]);
+    expect(other.getHistory()).toHaveLength(2);
+    expect(session.getHistory()).toHaveLength(2);
+  });
+
+  it('continues a restored history and sends the style again only when it changed', async () => {
+    await session.generateImage('p1', [], '16:9', [ref('ink', '水墨')]);
+    const restored = new WorkshopSession(session.getHistory());
+
+    await restored.generateImage('p2', [], '16:9', [ref('ink', '水墨')]);
+    await restored.generateImage('p3', [], '16:9', [ref('oil', '油画')]);
+
+    expect(recording.calls[1].request.history).toHaveLength(2);
+    expect(texts(recording.calls[1].request.contents as any[])).not.toContain('[Style Reference 1: 水墨]');
+    expect(texts(recording.calls[2].request.contents as any[])).toContain('[Style Reference 1: 油画]');
+  });
+
+  it('keeps turns taken before a late saved history arrives', async () => {
+    await session.generateImage('p1', [], '16:9');
+    const reopened = new WorkshopSession();
+
+    await reopened.generateImage('p2', [], '16:9');
+    reopened.restoreHistory(session.getHistory());
+    await reopened.generateImage('p3', [], '16:9');
+
+    const history = recording.calls[2].request.history as any[];
+    expect(history.map(turn => turn.role)).toEqual(['user', 'model', 'user', 'model']);
+    expect(texts(history[0].parts).join('\n')).toContain('p1');
+    expect(texts(history[2].parts).join('\n')).toContain('p2');
+    expect(reopened.getHistory()).toHaveLength(6);
+  });
+
+  it('fills the art style of the session into the system instruction', async () => {
+    await session.generateImage('p1', [], '16:9');
+    session.setArtStyle('风格采用中国水墨画');
+    const { trace } = await session.generateImage('p2', [], '16:9');
+
+    expect(recording.calls[0].request.systemInstruction).toContain(DEFAULT_ART_STYLE);
+    expect(recording.calls[1].request.systemInstruction).toContain('风格采用中国水墨画');
+    expect(recording.calls[1].request.systemInstruction).not.toContain(DEFAULT_ART_STYLE);
+    expect(trace.split('\n').pop()).toBe('STYLE: 风格采用中国水墨画');
+  });
+
+  it('starts over after a reset, style references included', async () => {
+    await session.generateImage('p1', [], '16:9', [ref('ink', '水墨')]);
+    session.resetHistory();
+
+    await session.generateImage('p2', [], '16:9', [ref('ink', '水墨')]);
+
+    expect(recording.calls[1].request.history).toEqual([]);
+    expect(texts(recording.calls[1].request.contents as any[])).toContain('[Style Reference 1: 水墨]');
+  });
+
+  it('passes aspect ratio and resolution as image config', async () => {
+    await session.generateImage('p', [], '9:16', [], '2K');
+    const [call] = recording.calls;
+    expect(call.kind === 'image' && call.request.imageConfig).toEqual({ aspectRatio: '9:16', resolution: '2K' });
+  });
+
+  it('flattens the storyboard returned for the schema', async () => {
+    const { scenes } = await generateWorkshopStoryboard('章节正文', []);
+
+    expect(recording.calls[0].kind).toBe('json');
+    expect(recording.calls[0].request.task).toBe('storyboard');
+    // The fake answers two pages with two panels each.
+    expect(scenes.map(scene => [scene.sceneNumber, scene.pageNumber, scene.panelNumber])).toEqual([
+      [1, 1, 1],
+      [2, 1, 2],
+      [3, 2, 1],
+      [4, 2, 2]
+    ]);
+  });
+
+  it('leaves the session history untouched when a render is cancelled', async () => {
+    await session.generateImage('p1', [], '16:9');
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      session.generateImage('p2', [], '16:9', [], undefined, { signal: controller.signal })
+    ).rejects.toMatchObject({ name: 'AbortError' });
+    expect(session.getHistory()).toHaveLength(2);
+    expect(recording.calls[1].request.signal).toBe(controller.signal);
+  });
+
+  it('passes the signal and timeout through to the storyboard call', async () => {
+    const controller = new AbortController();
+    await generateWorkshopStoryboard('章节正文', [], { signal: controller.signal, timeoutMs: 1000 });
+
+    expect(recording.calls[0].request).toMatchObject({ signal: controller.signal, timeoutMs: 1000 });
+  });
+
+  it('storyboards a long text chunk by chunk, continuing pages and carrying over the last panels', async () => {
+    const chapter = (title: string, char: string) => `${title}\n${`${char.repeat(99)}\n`.repeat(50)}`;
+    const novel = chapter('第一章 起', '甲') + chapter('第二章 承', '乙');
+    const progress: number[] = [];
+
+    const { scenes } = await generateWorkshopStoryboard(novel, [], { onChunk: ({ chunk }) => progress.push(chunk.end) });
+
+    expect(recording.calls).toHaveLength(2);
+    expect(progress).toEqual([novel.indexOf('第二章'), novel.length]);
+    expect(scenes.map(scene => [scene.sceneNumber, scene.pageNumber])).toEqual([
+      [1, 1], [2, 1], [3, 2], [4, 2], [5, 3], [6, 3], [7, 4], [8, 4]
+    ]);
+    const secondPrompt = recording.calls[1].request.contents as string;
+    expect(secondPrompt).toContain('上一段最后的分镜');
+    expect(secondPrompt).toContain('Page 2 Panel');
+    expect(secondPrompt).not.toContain('甲');
+  });
+
+  it('continues a storyboard from an offset after the existing scenes', async () => {
+    const { scenes: first } = await generateWorkshopStoryboard('第一段', []);
+
+    const { scenes } = await generateWorkshopStoryboard('第一段第二段', [], { from: 3, previousScenes: first });
+
+    expect(recording.calls[1].request.contents).toContain('第二段');
+    expect(recording.calls[1].request.contents).not.toContain('第一段\n');
+    expect(scenes[0]).toMatchObject({ sceneNumber: 5, pageNumber: 3 });
+  });
+
+  it('rewrites a page with its neighbours, its own novel excerpt and the instruction', async () => {
+    const chapter = (title: string, char: string) => `${title}\n${`${char.repeat(99)}\n`.repeat(50)}`;
+    const novel = chapter('第一章 起', '甲') + chapter('第二章 承', '乙');
+    const { scenes: storyboard } = await generateWorkshopStoryboard(novel, []);
+
+    const { scenes, template } = await rewriteStoryboardPages(novel, [], storyboard, 3, 3, { instruction: '动作戏更激烈' });
+
+    const request = recording.calls[2].request;
+    const prompt = request.contents as string;
+    expect(request).toMatchObject({ task: 'storyboard' });
+    expect(template).toEqual({ id: 'storyboardPage', version: 1 });
+    expect(prompt).toContain('重写漫画分镜脚本的第 3 页');
+    expect(prompt).toMatch(/前一页[^]*Page 2 Panel 1[^]*需要重写的现有分镜[^]*Page 3 Panel 1[^]*后一页[^]*Page 4 Panel 1/);
+    expect(prompt).toContain('动作戏更激烈');
+    expect(prompt).toContain('乙');
+    expect(prompt).not.toContain('甲');
+    expect(scenes[0]).toMatchObject({ pageNumber: 1, panelNumber: 1, source: storyboard[4].source });
+  });
+
+  it('extracts a long text per chunk into one de-duplicated list', async () => {
+    const single = await extractWorkshopEntities('第一章 起\n短文');
+    const long = await extractWorkshopEntities(`第一章 起\n${'甲'.repeat(6000)}\n第二章 承\n${'乙'.repeat(6000)}\n`);
+
+    expect(recording.calls).toHaveLength(3);
+    expect(long.characters).toHaveLength(single.characters.length);
+    expect(long.items).toHaveLength(single.items.length);
+  });
+
+  it('surfaces the refusal text when the model answers without an image', async () => {
+    recording.provider.generateImage = async () => ({
+      content: { role: 'model', parts: [{ text: '我无法生成这张图片。' }] },
+      parts: [{ text: '我无法生成这张图片。' }],
+      text: '我无法生成这张图片。',
+      finishReason: 'STOP'
+    });
+
+    await expect(session.generateImage('p', [], '16:9')).rejects.toMatchObject({
+      name: 'ModelError',
+      kind: 'emptyImage',
+      detail: '我无法生成这张图片。'
+    });
+    expect(session.getHistory()).toEqual([]);
+  });
+
+  it('reports a storyboard that is not a page array as a schema error', async () => {
+    recording.provider.generateJson = async () => ({ pages: [] }) as any;
+
+    await expect(generateWorkshopStoryboard('章节正文', [])).rejects.toMatchObject({ kind: 'schemaParse' });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { buildWorkshopImageParts } from '../services/comicStudioService';
+import { compactHistory, estimatePartsSize, formatContextSize } from '../services/contextBudget';
+import { ModelContent } from '../services/modelProvider';
+
+const image = (data: string) => ({ inlineData: { mimeType: 'image/png', data } });
+const turn = (prompt: string, userImages: Array<{ text?: string; inlineData?: any }>, reply: string): ModelContent[] => [
+  { role: 'user', parts: [...userImages, { text: prompt }] },
+  { role: 'model', parts: [image(reply)] }
+];
+const notes = (history: ModelContent[]) =>
+  history.flatMap(content => content.parts.filter(part => part.text?.startsWith('[Image')).map(part => part.text));
+const imageCount = (history: ModelContent[]) => history.flatMap(content => content.parts).filter(part => part.inlineData).length;
+
+// Every image is estimated at a flat 1120 tokens, so a budget of 2000 holds one image.
+const TIGHT = { maxHistoryTokens: 2000, keepRecentTurns: 1 };
+
+describe('estimatePartsSize', () => {
+  it('counts images at a flat rate and text by script', () => {
+    expect(estimatePartsSize([{ text: 'abcdefgh' }, { text: '韩立' }, image('x'.repeat(400))])).toEqual({
+      tokens: 2 + 2 + 1120,
+      bytes: 8 + 6 + 400,
+      images: 1
+    });
+  });
+
+  it('formats sizes for the trace', () => {
+    expect(formatContextSize({ tokens: 12345, bytes: 3 * 1024 * 1024, images: 2 })).toBe('≈ 12,345 tokens · 3.0 MB · 2 张图');
+  });
+});
+
+describe('compactHistory', () => {
+  it('sends a history within budget unchanged', () => {
+    const history = turn('第一格', [], 'render-1');
+
+    const { history: sent, usage } = compactHistory(history, [{ text: '第二格' }], TIGHT);
+
+    expect(sent).toBe(history);
+    expect(usage.omittedImages).toBe(0);
+    expect(usage.sentHistory).toEqual(usage.history);
+  });
+
+  it('drops old images first that the turn sends again', () => {
+    const history = [...turn('第一格', [{ text: '[Character Reference 1: 韩立]' }, image('hanli')], 'render-1'), ...turn('第二格', [], 'render-2')];
+
+    const { history: sent, usage } = compactHistory(history, [{ text: '[Character Reference 1: 韩立]' }, image('hanli')], {
+      ...TIGHT,
+      maxHistoryTokens: 2500
+    });
+
+    expect(notes(sent)).toEqual(['[Image omitted: [Character Reference 1: 韩立] is sent again later]']);
+    expect(imageCount(sent)).toBe(2);
+    expect(usage.sentHistory.tokens).toBeLessThan(usage.history.tokens);
+  });
+
+  it('replaces the images of the oldest turns but keeps text, style references and recent turns', () => {
+    const style = buildWorkshopImageParts('', [], '1:1', [{ data: 'ink', mimeType: 'image/png', name: '水墨' }], true)
+      .filter(part => !part.text?.startsWith('Render'));
+    const history = [
+      ...turn('第一格', style, 'render-1'),
+      ...turn('第二格', [], 'render-2'),
+      ...turn('第三格', [], 'render-3')
+    ];
+
+    const { history: sent, usage } = compactHistory(history, [{ text: '第四格' }], TIGHT);
+
+    expect(sent[0].parts.some(part => part.inlineData?.data === 'ink')).toBe(true);
+    expect(sent[0].parts.some(part => part.text === '第一格')).toBe(true);
+    expect(sent[1].parts[0].text).toBe('[Image generated in an earlier turn, omitted to save context]');
+    expect(sent[3].parts[0].text).toBe('[Image generated in an earlier turn, omitted to save context]');
+    expect(sent.slice(4)).toEqual(history.slice(4));
+    expect(usage.omittedImages).toBe(2);
+    expect(history[1].parts[0].inlineData).toBeDefined();
+  });
+
+  it('keeps a thought signature when the image is left out', () => {
+    const history: ModelContent[] = [
+      { role: 'user', parts: [{ text: '第一格' }] },
+      { role: 'model', parts: [{ ...image('render-1'), thoughtSignature: 'sig' }] },
+      ...turn('第二格', [], 'render-2')
+    ];
+
+    const { history: sent } = compactHistory(history, [], { maxHistoryTokens: 1, keepRecentTurns: 1 });
+
+    expect(sent[1].parts[0]).toEqual({ thoughtSignature: 'sig', text: '[Image generated in an earlier turn, omitted to save context]' });
+  });
+
+  it('never compacts with a budget of 0', () => {
+    const history = [...turn('第一格', [], 'render-1'), ...turn('第二格', [], 'render-2')];
+    expect(compactHistory(history, [], { maxHistoryTokens: 0, keepRecentTurns: 0 }).history).toBe(history);
+  });
+});
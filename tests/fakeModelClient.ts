@@ -0,0 +1,47 @@
+import { FakeProvider } from '../services/fakeProvider';
+import {
+  DEFAULT_MODELS,
+  ImageRequest,
+  JsonRequest,
+  ModelProvider,
+  ModelRequest
+} from '../services/modelProvider';
+
+export type RecordedCall =
+  | { kind: 'text'; request: ModelRequest }
+  | { kind: 'json'; request: JsonRequest }
+  | { kind: 'image'; request: ImageRequest };
+
+// AbortSignals can't be cloned; whether one was passed is all a test needs.
+const snapshot = <T extends ModelRequest>({ signal, ...request }: T) =>
+  ({ ...structuredClone(request), ...(signal ? { signal } : {}) }) as T;
+
+/**
+ * Fake model client for tests: answers like `FakeProvider` and keeps a snapshot of every
+ * request (history is cloned, since callers append to it after the call).
+ */
+export const createRecordingProvider = () => {
+  const fake = new FakeProvider(DEFAULT_MODELS, 0);
+  const calls: RecordedCall[] = [];
+  const provider: ModelProvider = {
+    id: 'fake',
+    requiresApiKey: false,
+    generateText: request => {
+      calls.push({ kind: 'text', request: snapshot(request) });
+      return fake.generateText(request);
+    },
+    streamText: (request, onUpdate) => {
+      calls.push({ kind: 'text', request: snapshot(request) });
+      return fake.streamText(request, onUpdate);
+    },
+    generateJson: request => {
+      calls.push({ kind: 'json', request: snapshot(request) });
+      return fake.generateJson(request);
+    },
+    generateImage: request => {
+      calls.push({ kind: 'image', request: snapshot(request) });
+      return fake.generateImage(request);
+    }
+  };
+  return { provider, calls };
+};
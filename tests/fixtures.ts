@@ -0,0 +1,41 @@
+import { Attachment, CharacterProfile, Entity, EntityView, SceneReference } from '../types';
+import { createEmptyProfile } from '../services/characterProfiles';
+
+export const makeEntity = (name: string, overrides: Partial<Entity> = {}): Entity => ({
+  id: `id-${name}`,
+  name,
+  imagePreview: '',
+  base64: `${name}-front`,
+  mimeType: 'image/png',
+  ...overrides
+});
+
+export const makeView = (label: EntityView['label'], base64: string, caption?: string): EntityView => ({
+  id: `view-${label}-${caption || ''}`,
+  label,
+  ...(caption ? { caption } : {}),
+  imagePreview: '',
+  base64,
+  mimeType: 'image/jpeg'
+});
+
+export const makeProfile = (overrides: Partial<CharacterProfile> = {}): CharacterProfile => ({
+  ...createEmptyProfile(),
+  ...overrides
+});
+
+export const makeSceneRef = (name: string, overrides: Partial<SceneReference> = {}): SceneReference => ({
+  id: `ref-${name}`,
+  name,
+  imagePreview: '',
+  base64: `${name}-style`,
+  mimeType: 'image/png',
+  ...overrides
+});
+
+export const makeAttachment = (base64: string): Attachment => ({
+  file: {} as File,
+  previewUrl: '',
+  base64,
+  mimeType: 'image/webp'
+});
@@ -0,0 +1,264 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { buildChatParts, GeminiService, historyHasStyleReferences } from '../services/geminiService';
+import { FakeProvider } from '../services/fakeProvider';
+import { DEFAULT_MODELS, setModelProvider } from '../services/modelProvider';
+import { toStreamResponse } from '../services/modelStream';
+import { DEFAULT_TIMEOUTS, withTimeouts } from '../services/modelTimeouts';
+import { ChatMessage } from '../types';
+import { createRecordingProvider } from './fakeModelClient';
+import { makeAttachment, makeEntity, makeProfile, makeSceneRef, makeView } from './fixtures';
+
+const texts = (parts: Array<{ text?: string }>) => parts.map(part => part.text ?? '<image>');
+const images = (parts: Array<{ inlineData?: { data: string } }>) =>
+  parts.filter(part => part.inlineData).map(part => part.inlineData!.data);
+
+describe('buildChatParts', () => {
+  it('orders style block, mention block, attachments, then the user text', () => {
+    const parts = buildChatParts(
+      '@韩立 出场',
+      [makeAttachment('upload')],
+      [makeEntity('韩立')],
+      [makeSceneRef('水墨')],
+      true
+    );
+
+    expect(texts(parts)).toEqual([
+      '--- Style Reference (Global Visual Tone) ---\n',
+      '[Style Reference 1: 水墨]',
+      '<image>',
+      '--- End of Style Reference ---\n',
+      '--- Neural Knowledge Injection (Contextual References) ---\n',
+      '[Visual Reference: 韩立 · 正面]',
+      '<image>',
+      '--- End of Reference Injection ---\n',
+      '<image>',
+      '@韩立 出场'
+    ]);
+    expect(images(parts)).toEqual(['水墨-style', '韩立-front', 'upload']);
+  });
+
+  it('leaves style references out unless they are being injected', () => {
+    const parts = buildChatParts('hi', [], [], [makeSceneRef('水墨')], false);
+    expect(texts(parts)).toEqual(['hi']);
+  });
+
+  it('deduplicates style references and mentions by id', () => {
+    const hanLi = makeEntity('韩立');
+    const parts = buildChatParts('@韩立 @韩立', [], [hanLi, { ...hanLi }], [makeSceneRef('水墨'), makeSceneRef('水墨')], true);
+
+    expect(texts(parts).filter(text => text.startsWith('[Style Reference'))).toHaveLength(1);
+    expect(texts(parts).filter(text => text.startsWith('[Visual Reference'))).toHaveLength(1);
+  });
+
+  it('notes offline data instead of sending empty images', () => {
+    const parts = buildChatParts(
+      '@南宫婉',
+      [],
+      [makeEntity('南宫婉', { base64: '' })],
+      [makeSceneRef('水墨', { base64: '' })],
+      true
+    );
+
+    expect(images(parts)).toEqual([]);
+    expect(texts(parts)).toContain('[Note: Style data for 水墨 is currently offline.]');
+    expect(texts(parts)).toContain('[Visual Reference: 南宫婉]');
+    expect(texts(parts)).toContain('[Note: Visual data for 南宫婉 is currently offline.]');
+  });
+
+  it('adds the views whose shot cues appear in the text after the front anchor', () => {
+    const hanLi = makeEntity('韩立', { views: [makeView('fullBody', 'full'), makeView('back', 'back')] });
+
+    expect(images(buildChatParts('@韩立 坐着喝茶', [], [hanLi]))).toEqual(['韩立-front']);
+    expect(images(buildChatParts('@韩立 全身站立', [], [hanLi]))).toEqual(['韩立-front', 'full']);
+    expect(texts(buildChatParts('@韩立 背影', [], [hanLi]))).toContain('[Visual Reference: 韩立 · 背面]');
+  });
+
+  it('puts the character profile ahead of the reference images', () => {
+    const hanLi = makeEntity('韩立', { profile: makeProfile({ aliases: ['韩老魔'], faction: '黄枫谷' }) });
+    const parts = texts(buildChatParts('@韩老魔', [], [hanLi]));
+
+    const profileIndex = parts.findIndex(text => text.startsWith('[Character Profile: 韩立]'));
+    expect(profileIndex).toBeGreaterThan(0);
+    expect(parts[profileIndex]).toContain('别名: 韩老魔');
+    expect(parts[profileIndex]).toContain('阵营: 黄枫谷');
+    expect(parts[profileIndex + 1]).toBe('[Visual Reference: 韩立 · 正面]');
+  });
+
+  it('drops whitespace-only text', () => {
+    expect(buildChatParts('   ', [makeAttachment('upload')])).toEqual([
+      { inlineData: { mimeType: 'image/webp', data: 'upload' } }
+    ]);
+  });
+});
+
+describe('GeminiService.sendMessage', () => {
+  afterEach(() => setModelProvider(null));
+
+  it('sends the assembled parts and carries them into the next turn', async () => {
+    const { provider, calls } = createRecordingProvider();
+    setModelProvider(provider);
+    const service = new GeminiService();
+    const hanLi = makeEntity('韩立');
+
+    const first = await service.sendMessage('@韩立 你好', [], [hanLi], [hanLi], [makeSceneRef('水墨')], true);
+    await service.sendMessage('继续', [], [hanLi]);
+
+    expect(calls.map(call => call.kind)).toEqual(['text', 'text']);
+    const [firstCall, secondCall] = calls;
+    expect(firstCall.request.contents).toEqual(
+      buildChatParts('@韩立 你好', [], [hanLi], [makeSceneRef('水墨')], true)
+    );
+    expect(firstCall.request.history).toEqual([]);
+    expect(firstCall.request.systemInstruction).toContain('KNOWLEDGE INJECTION');
+    expect(first.trace).toEqual(firstCall.request.contents);
+
+    expect(secondCall.request.contents).toEqual([{ text: '继续' }]);
+    expect(secondCall.request.history).toHaveLength(2);
+    expect(secondCall.request.history?.[0]).toEqual({ role: 'user', parts: firstCall.request.contents });
+    expect(service.getHistory()).toHaveLength(4);
+  });
+
+  it('continues a restored history without sharing it', async () => {
+    const { provider, calls } = createRecordingProvider();
+    setModelProvider(provider);
+    const saved = [
+      { role: 'user', parts: [{ text: '你好' }] },
+      { role: 'model', parts: [{ text: '你好！' }] }
+    ];
+    const service = new GeminiService(saved);
+
+    await service.sendMessage('继续', [], []);
+
+    expect(calls[0].request.history).toEqual(saved);
+    expect(service.getHistory()).toHaveLength(4);
+    expect(saved).toHaveLength(2);
+  });
+
+  it('keeps the history entries of a turn on the reply', async () => {
+    const { provider } = createRecordingProvider();
+    setModelProvider(provider);
+    const service = new GeminiService();
+
+    const message = await service.sendMessage('你好', [], []);
+
+    expect(message.context).toEqual(service.getHistory());
+    expect(message.context?.[0]).toEqual({ role: 'user', parts: [{ text: '你好' }] });
+  });
+
+  it('continues from a reset history when a turn is edited', async () => {
+    const { provider, calls } = createRecordingProvider();
+    setModelProvider(provider);
+    const service = new GeminiService();
+    const first = await service.sendMessage('第一句', [], []);
+    await service.sendMessage('第二句', [], []);
+
+    service.resetHistory(first.context);
+    await service.sendMessage('改过的第二句', [], []);
+
+    expect(calls[2].request.history).toEqual(first.context);
+    expect(service.getHistory()).toHaveLength(4);
+  });
+
+  it('sends a compacted history but keeps the full one', async () => {
+    const { provider, calls } = createRecordingProvider();
+    setModelProvider(provider);
+    const service = new GeminiService([], { maxHistoryTokens: 1, keepRecentTurns: 0 });
+    await service.sendMessage('看图', [makeAttachment('photo')], []);
+
+    const reply = await service.sendMessage('继续', [], []);
+
+    expect(images(calls[1].request.history![0].parts)).toEqual([]);
+    expect(images(service.getHistory()[0].parts)).toEqual(['photo']);
+    expect(reply.contextUsage?.omittedImages).toBeGreaterThan(0);
+  });
+
+  it('returns the model parts as a chat message', async () => {
+    const { provider } = createRecordingProvider();
+    setModelProvider(provider);
+
+    const message = await new GeminiService().sendMessage('画一张图', [], []);
+
+    expect(message.role).toBe('model');
+    expect(message.parts[0].text).toContain('[fake:');
+    expect(message.parts[1].inlineData?.mimeType).toBe('image/svg+xml');
+  });
+
+  it('streams growing snapshots of the same message', async () => {
+    const { provider } = createRecordingProvider();
+    setModelProvider(provider);
+    const updates: ChatMessage[] = [];
+
+    const message = await new GeminiService().sendMessage('画一张图', [], [], [], [], false, {
+      onUpdate: update => updates.push(update)
+    });
+
+    expect(updates.length).toBeGreaterThan(2);
+    expect(new Set(updates.map(update => update.id))).toEqual(new Set([message.id]));
+    expect(updates.every(update => update.isStreaming)).toBe(true);
+    const texts = updates.map(update => update.parts[0]?.text || '');
+    texts.slice(1).forEach((text, i) => expect(text.startsWith(texts[i])).toBe(true));
+    // The image only shows up once it is complete, after the text.
+    expect(updates[updates.length - 1].parts[1]?.inlineData).toBeDefined();
+    expect(updates[updates.length - 2].parts[1]).toBeUndefined();
+    expect(message.isStreaming).toBeUndefined();
+  });
+
+  it('keeps the partial reply in history when stopped mid-stream', async () => {
+    setModelProvider(new FakeProvider(DEFAULT_MODELS, 5));
+    const service = new GeminiService();
+    const controller = new AbortController();
+    let updates = 0;
+
+    const message = await service.sendMessage('你好', [], [], [], [], false, {
+      signal: controller.signal,
+      onUpdate: () => {
+        updates += 1;
+        if (updates === 2) controller.abort();
+      }
+    });
+
+    expect(message.isStopped).toBe(true);
+    expect(message.parts).toHaveLength(1);
+    const history = service.getHistory();
+    expect(history).toHaveLength(2);
+    expect(history[1]).toEqual({ role: 'model', parts: message.parts });
+  });
+
+  it('adds nothing to history when stopped before the first chunk', async () => {
+    setModelProvider(new FakeProvider(DEFAULT_MODELS, 5));
+    const service = new GeminiService();
+    const controller = new AbortController();
+    controller.abort();
+
+    const message = await service.sendMessage('你好', [], [], [], [], false, { signal: controller.signal });
+
+    expect(message).toMatchObject({ isStopped: true, parts: [] });
+    expect(service.getHistory()).toEqual([]);
+  });
+
+  it('marks a reply cut off by the chat timeout and keeps what arrived', async () => {
+    // Sends one chunk, then stalls like a stream that stopped delivering.
+    const stalling = new FakeProvider(DEFAULT_MODELS, 0);
+    stalling.streamText = async (_request, onUpdate) => {
+      onUpdate(toStreamResponse([{ text: '半句' }]));
+      return new Promise(() => {});
+    };
+    setModelProvider(withTimeouts(stalling, DEFAULT_TIMEOUTS));
+    const service = new GeminiService();
+
+    const message = await service.sendMessage('你好', [], [], [], [], false, { timeoutMs: 20 });
+
+    expect(message).toMatchObject({ isStopped: true, isTimedOut: true, parts: [{ text: '半句' }] });
+    expect(service.getHistory()[1]).toEqual({ role: 'model', parts: [{ text: '半句' }] });
+  });
+});
+
+describe('historyHasStyleReferences', () => {
+  it('finds the style block only in histories that sent it', () => {
+    const withStyle = [{ role: 'user', parts: buildChatParts('画', [], [], [makeSceneRef('水墨')], true) }];
+    const withoutStyle = [{ role: 'user', parts: buildChatParts('画', [], [], [makeSceneRef('水墨')], false) }];
+
+    expect(historyHasStyleReferences(withStyle)).toBe(true);
+    expect(historyHasStyleReferences(withoutStyle)).toBe(false);
+  });
+});
@@ -0,0 +1,77 @@
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { registerKnowledgeBaseApi } from '../server/knowledgeBaseApi';
+
+const PNG = Buffer.from('png').toString('base64');
+
+// Mounts the middlewares the way connect does: the route prefix is stripped from `req.url`.
+const createApi = (rootDir: string) => {
+  const routes: Array<{ prefix: string; handler: (req: any, res: any, next: () => void) => Promise<void> }> = [];
+  registerKnowledgeBaseApi({ use: (prefix: string, handler: any) => routes.push({ prefix, handler }) }, rootDir);
+
+  return async (method: string, url: string, body?: unknown) => {
+    const route = routes.find(item => url === item.prefix || url.startsWith(`${item.prefix}/`) || url.startsWith(`${item.prefix}?`));
+    if (!route) throw new Error(`No route for ${url}`);
+    const req: any = Object.assign(new EventEmitter(), { method, url: url.slice(route.prefix.length) || '/' });
+    const result = new Promise<{ status: number; body: string }>(resolve => {
+      const res: any = {
+        statusCode: 200,
+        setHeader: () => undefined,
+        end: (text = '') => resolve({ status: res.statusCode, body: text })
+      };
+      route.handler(req, res, () => resolve({ status: 404, body: 'next' }));
+    });
+    req.emit('data', Buffer.from(body === undefined ? '' : JSON.stringify(body)));
+    req.emit('end');
+    return result;
+  };
+};
+
+describe('knowledge base API', () => {
+  let rootDir: string;
+  let request: ReturnType<typeof createApi>;
+
+  beforeEach(async () => {
+    rootDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'kb-api-'));
+    await fs.promises.writeFile(path.join(rootDir, 'keep.txt'), 'outside the knowledge base');
+    request = createApi(rootDir);
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('saves a portrait into the project folder', async () => {
+    const response = await request('POST', '/api/knowledge-base/save', { name: '韩立', project: '凡人', base64: PNG });
+
+    expect(response.status).toBe(200);
+    expect(JSON.parse(response.body)).toMatchObject({ name: '韩立', project: '凡人', path: 'KnowledgeBase/凡人/韩立.png' });
+    expect(fs.existsSync(path.join(rootDir, 'KnowledgeBase/凡人/韩立.png'))).toBe(true);
+  });
+
+  it('rejects project ids that would leave the knowledge base', async () => {
+    for (const project of ['..', '.']) {
+      expect((await request('POST', '/api/knowledge-base/projects', { name: project })).status).toBe(400);
+      expect((await request('POST', '/api/knowledge-base/save', { name: '韩立', project, base64: PNG })).status).toBe(400);
+      expect((await request('PATCH', `/api/knowledge-base/characters/韩立?project=${project}`, { profile: {} })).status).toBe(400);
+    }
+
+    expect(fs.readdirSync(rootDir).sort()).toEqual(['keep.txt']);
+  });
+
+  it('rejects style packs and names that would leave the style folder', async () => {
+    await request('POST', '/api/knowledge-base/styles', { pack: '水墨', name: '山水', base64: PNG });
+
+    for (const segment of ['..', '.']) {
+      expect((await request('POST', '/api/knowledge-base/styles', { pack: segment, name: '山水', base64: PNG })).status).toBe(400);
+      expect((await request('POST', '/api/knowledge-base/styles', { pack: '水墨', name: segment, base64: PNG })).status).toBe(400);
+      expect((await request('DELETE', `/api/knowledge-base/styles/${segment.replace(/\./g, '%2E')}`)).status).not.toBe(200);
+    }
+
+    expect(fs.existsSync(path.join(rootDir, 'KnowledgeBase/_styles/水墨/山水.png'))).toBe(true);
+    expect(fs.existsSync(path.join(rootDir, 'keep.txt'))).toBe(true);
+  });
+});
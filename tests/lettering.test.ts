@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { flattenStoryboardPages } from '../services/comicStudioService';
+import {
+  balloonShape,
+  balloonTail,
+  createLettering,
+  layoutGlyphs,
+  parseDialogue,
+  placePageLettering,
+  wrapLetteringText
+} from '../services/lettering';
+import { layoutPanels } from '../services/pageLayouts';
+
+const page = { width: 1000, height: 2000 };
+
+describe('parseDialogue', () => {
+  it('tells speech, thoughts, narration and sound effects apart', () => {
+    expect(parseDialogue('韩立：『先看看阵眼在哪。』\n（这阵法有古怪）\n旁白：三日之后\n音效：轰！\n『你是谁？』『在下韩立。』')).toEqual([
+      { kind: 'speech', text: '先看看阵眼在哪。', speaker: '韩立' },
+      { kind: 'thought', text: '这阵法有古怪' },
+      { kind: 'narration', text: '三日之后' },
+      { kind: 'sfx', text: '轰！' },
+      { kind: 'speech', text: '你是谁？' },
+      { kind: 'speech', text: '在下韩立。' }
+    ]);
+  });
+
+  it('reads a marked inner voice as a thought and skips empty dialogue', () => {
+    expect(parseDialogue('@玲珑（心想）：「他竟然看穿了」')).toEqual([{ kind: 'thought', text: '他竟然看穿了', speaker: '玲珑' }]);
+    expect(parseDialogue('（无）\n『』\n')).toEqual([]);
+  });
+});
+
+describe('lettering geometry', () => {
+  it('wraps long lines into balanced lines or columns', () => {
+    expect(wrapLetteringText({ kind: 'speech', vertical: false, text: '一二三四五六七八九十甲乙' })).toEqual(['一二三四五六', '七八九十甲乙']);
+    expect(wrapLetteringText({ kind: 'speech', vertical: true, text: '一二三四五六七八九' })).toEqual(['一二三四五', '六七八九']);
+    expect(wrapLetteringText({ kind: 'sfx', vertical: false, text: '轰隆隆隆隆隆隆隆隆隆隆隆' })).toHaveLength(1);
+  });
+
+  it('sets vertical text in columns from right to left with vertical punctuation', () => {
+    const item = { ...createLettering('speech', '一二三四五六七八九，'), vertical: true, x: 0.5, y: 0.5, fontSize: 0.02 };
+    const glyphs = layoutGlyphs(item, page);
+
+    expect(glyphs[0].x).toBeGreaterThan(glyphs[5].x);
+    expect(glyphs[1].y).toBeGreaterThan(glyphs[0].y);
+    expect(glyphs[9].char).toBe('︐');
+  });
+
+  it('points a tail outside the balloon and drops it when the tip is inside', () => {
+    const item = { ...createLettering('speech', '你好', 0.5, 0.5), tail: { x: 0.5, y: 0.6 } };
+    const shape = balloonShape(item, page);
+    const tail = balloonTail(item, page);
+
+    expect(shape?.type).toBe('ellipse');
+    expect(tail).toMatchObject({ type: 'wedge' });
+    expect(balloonTail({ ...item, tail: { x: 0.5, y: 0.5 } }, page)).toBeNull();
+    expect(balloonTail({ ...item, kind: 'thought' }, page)).toMatchObject({ type: 'bubbles' });
+  });
+});
+
+describe('placePageLettering', () => {
+  it('places each line inside its own panel', () => {
+    const panels = flattenStoryboardPages([
+      { pageNumber: 1, panels: [{ panelLine: 'a', dialogue: '旁白：夜\n韩立：『走！』' }, { panelLine: 'b', dialogue: '音效：轰' }] }
+    ]);
+    const frames = layoutPanels('stacked', 2, { ...page, margin: 50, gutter: 20 });
+
+    const items = placePageLettering(panels, frames, page);
+
+    expect(items.map(item => item.kind)).toEqual(['narration', 'speech', 'sfx']);
+    items.forEach((item, index) => {
+      const frame = frames[index < 2 ? 0 : 1];
+      expect(item.x * page.width).toBeGreaterThanOrEqual(frame.x);
+      expect(item.x * page.width).toBeLessThanOrEqual(frame.x + frame.width);
+      expect(item.y * page.height).toBeGreaterThanOrEqual(frame.y);
+      expect(item.y * page.height).toBeLessThanOrEqual(frame.y + frame.height);
+    });
+    expect(items[1].y).toBeGreaterThan(items[0].y);
+    expect(items[1].tail!.y).toBeGreaterThan(items[1].y);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { buildMentionChunks } from '../services/mentions';
+import { makeEntity, makeProfile } from './fixtures';
+
+const hanLi = makeEntity('韩立', { profile: makeProfile({ aliases: ['韩老魔', '@韩跑跑'] }) });
+const liFeiyu = makeEntity('厉飞雨', { profile: makeProfile({ aliases: ['厉飞雨(化名)'] }) });
+const shared = [
+  makeEntity('甲', { profile: makeProfile({ aliases: ['师兄'] }) }),
+  makeEntity('乙', { profile: makeProfile({ aliases: ['师兄'] }) })
+];
+
+const summarize = (text: string, entities = [hanLi, liFeiyu]) =>
+  buildMentionChunks(text, entities).map(chunk =>
+    chunk.type === 'text'
+      ? chunk.value
+      : { mention: chunk.value, entity: chunk.entity?.name, candidates: chunk.candidates?.map(entity => entity.name) }
+  );
+
+describe('buildMentionChunks', () => {
+  it('returns the text as a single chunk without entities', () => {
+    expect(buildMentionChunks('@韩立', [])).toEqual([{ type: 'text', value: '@韩立' }]);
+  });
+
+  it('splits names and aliases out of the surrounding text', () => {
+    expect(summarize('让@韩立和@韩跑跑出场')).toEqual([
+      '让',
+      { mention: '@韩立', entity: '韩立', candidates: undefined },
+      '和',
+      { mention: '@韩跑跑', entity: '韩立', candidates: undefined },
+      '出场'
+    ]);
+  });
+
+  it('prefers the longest token at each @', () => {
+    expect(summarize('@厉飞雨(化名)来了')).toEqual([
+      { mention: '@厉飞雨(化名)', entity: '厉飞雨', candidates: undefined },
+      '来了'
+    ]);
+  });
+
+  it('keeps unknown mentions as text', () => {
+    expect(summarize('@路人 与 @韩立')).toEqual(['@路人 与 ', { mention: '@韩立', entity: '韩立', candidates: undefined }]);
+  });
+
+  it('reports every candidate for an ambiguous alias', () => {
+    expect(summarize('@师兄到了', shared)).toEqual([
+      { mention: '@师兄', entity: undefined, candidates: ['甲', '乙'] },
+      '到了'
+    ]);
+  });
+
+  it("lets a full name win over someone else's alias", () => {
+    const impostor = makeEntity('韩立的替身', { profile: makeProfile({ aliases: ['韩立'] }) });
+    expect(summarize('@韩立', [hanLi, impostor])).toEqual([{ mention: '@韩立', entity: '韩立', candidates: undefined }]);
+  });
+});
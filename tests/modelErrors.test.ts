@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { FakeProvider } from '../services/fakeProvider';
+import { describeModelError, ModelError, toModelError } from '../services/modelErrors';
+import { DEFAULT_MODELS, ModelProvider } from '../services/modelProvider';
+import { withRetries } from '../services/modelRetry';
+import { createAbortError, toStreamResponse } from '../services/modelStream';
+import { createTimeoutError } from '../services/modelTimeouts';
+
+const apiError = (status: number, message: string) => Object.assign(new Error(message), { status });
+
+const FAST_RETRIES = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 5 };
+
+// Fails `failures` times with `error`, then answers like the fake provider.
+const flakyProvider = (error: unknown, failures: number) => {
+  const fake = new FakeProvider(DEFAULT_MODELS, 0);
+  let attempts = 0;
+  const fail = <T>(answer: () => Promise<T>) => {
+    attempts += 1;
+    return attempts <= failures ? Promise.reject(error) : answer();
+  };
+  const provider: ModelProvider = {
+    id: 'fake',
+    requiresApiKey: false,
+    generateText: request => fail(() => fake.generateText(request)),
+    streamText: (request, onUpdate) => fail(() => fake.streamText(request, onUpdate)),
+    generateJson: request => fail(() => fake.generateJson(request)),
+    generateImage: request => fail(() => fake.generateImage(request))
+  };
+  return { provider, attempts: () => attempts };
+};
+
+describe('toModelError', () => {
+  it.each([
+    [apiError(400, '{"error":{"message":"API key not valid. Please pass a valid API key."}}'), 'auth'],
+    [apiError(404, 'Requested entity was not found.'), 'auth'],
+    [apiError(403, 'PERMISSION_DENIED'), 'auth'],
+    [apiError(429, 'RESOURCE_EXHAUSTED'), 'rateLimit'],
+    [apiError(503, 'The model is overloaded.'), 'network'],
+    [new TypeError('Failed to fetch'), 'network'],
+    [new SyntaxError('Unexpected end of JSON input'), 'schemaParse'],
+    [new Error('something odd'), 'unknown']
+  ])('classifies %s as %s', (error, kind) => {
+    expect(toModelError(error).kind).toBe(kind);
+  });
+
+  it('keeps the suggested retry delay of a 429', () => {
+    const error = apiError(429, '{"error":{"details":[{"@type":"type.googleapis.com/google.rpc.RetryInfo","retryDelay":"2.5s"}]}}');
+    expect(toModelError(error).retryAfterMs).toBe(2500);
+  });
+
+  it('returns model errors unchanged', () => {
+    const error = new ModelError('safety', 'blocked');
+    expect(toModelError(error)).toBe(error);
+  });
+});
+
+describe('describeModelError', () => {
+  it('quotes the model when it answered with text instead of an image', () => {
+    const message = describeModelError(new ModelError('emptyImage', 'no image', { detail: '我无法生成这张图片。' }));
+    expect(message).toContain('模型没有返回图片');
+    expect(message).toContain('模型回复：我无法生成这张图片。');
+  });
+
+  it('has specific messages for timeouts and rate limits', () => {
+    expect(describeModelError(createTimeoutError())).toBe('请求超时，请稍后重试。');
+    expect(describeModelError(apiError(429, 'quota exceeded'))).toContain('配额');
+  });
+});
+
+describe('withRetries', () => {
+  it('retries transient failures until the call succeeds', async () => {
+    const flaky = flakyProvider(apiError(503, 'UNAVAILABLE'), 2);
+
+    const response = await withRetries(flaky.provider, FAST_RETRIES).generateImage({ task: 'workshopImage', contents: 'p' });
+
+    expect(flaky.attempts()).toBe(3);
+    expect(response.parts[0].inlineData).toBeDefined();
+  });
+
+  it('gives up after the last attempt with a typed error', async () => {
+    const flaky = flakyProvider(apiError(429, 'RESOURCE_EXHAUSTED'), 5);
+
+    await expect(
+      withRetries(flaky.provider, FAST_RETRIES).generateJson({ task: 'storyboard', contents: 'x', schema: { type: 'STRING' } })
+    ).rejects.toMatchObject({ name: 'ModelError', kind: 'rateLimit' });
+    expect(flaky.attempts()).toBe(3);
+  });
+
+  it('does not retry auth failures, timeouts or aborts', async () => {
+    for (const error of [apiError(401, 'UNAUTHENTICATED'), createTimeoutError(), createAbortError()]) {
+      const flaky = flakyProvider(error, 1);
+      await expect(withRetries(flaky.provider, FAST_RETRIES).generateText({ task: 'chat', contents: 'x' })).rejects.toThrow();
+      expect(flaky.attempts()).toBe(1);
+    }
+  });
+
+  it('does not retry a stream once text has been shown', async () => {
+    let attempts = 0;
+    const provider: ModelProvider = {
+      ...flakyProvider(null, 0).provider,
+      streamText: async (_request, onUpdate) => {
+        attempts += 1;
+        onUpdate(toStreamResponse([{ text: '半' }]));
+        throw apiError(503, 'UNAVAILABLE');
+      }
+    };
+
+    await expect(withRetries(provider, FAST_RETRIES).streamText({ task: 'chat', contents: 'x' }, () => {})).rejects.toMatchObject({
+      kind: 'network'
+    });
+    expect(attempts).toBe(1);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { FakeProvider, splitIntoStreamChunks } from '../services/fakeProvider';
+import { DEFAULT_MODELS } from '../services/modelProvider';
+import { appendStreamParts, toStreamResponse } from '../services/modelStream';
+
+const image = { inlineData: { mimeType: 'image/png', data: 'AAAA' } };
+
+describe('appendStreamParts', () => {
+  it('joins consecutive text chunks into one part', () => {
+    const parts = appendStreamParts(appendStreamParts([], [{ text: '你好' }]), [{ text: '，世界' }]);
+    expect(parts).toEqual([{ text: '你好，世界' }]);
+  });
+
+  it('starts a new text part after an image', () => {
+    const parts = [{ text: 'before' }, image, { text: 'after' }].reduce(
+      (acc, part) => appendStreamParts(acc, [part]),
+      [] as ReturnType<typeof appendStreamParts>
+    );
+    expect(parts).toEqual([{ text: 'before' }, image, { text: 'after' }]);
+  });
+
+  it('leaves the previous snapshot untouched', () => {
+    const first = appendStreamParts([], [{ text: 'a' }]);
+    appendStreamParts(first, [{ text: 'b' }]);
+    expect(first).toEqual([{ text: 'a' }]);
+  });
+});
+
+describe('splitIntoStreamChunks', () => {
+  it('slices text by characters and keeps images whole', () => {
+    expect(splitIntoStreamChunks([{ text: '一二三四五' }, image], 2)).toEqual([
+      [{ text: '一二' }],
+      [{ text: '三四' }],
+      [{ text: '五' }],
+      [image]
+    ]);
+  });
+
+  it('reassembles to the original parts', () => {
+    const parts = [{ text: 'streamed reply' }, image];
+    const rebuilt = splitIntoStreamChunks(parts, 3).reduce(appendStreamParts, []);
+    expect(toStreamResponse(rebuilt)).toEqual({
+      content: { role: 'model', parts },
+      parts,
+      text: 'streamed reply'
+    });
+  });
+});
+
+describe('FakeProvider', () => {
+  it('paces one-shot answers so Stop can cancel them', async () => {
+    const provider = new FakeProvider(DEFAULT_MODELS, 50);
+    const controller = new AbortController();
+
+    const pending = provider.generateText({ task: 'chat', contents: '你好', signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
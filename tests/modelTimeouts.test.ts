@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { FakeProvider } from '../services/fakeProvider';
+import { DEFAULT_MODELS, ModelProvider } from '../services/modelProvider';
+import { DEFAULT_TIMEOUTS, resolveTimeoutConfig, withTimeouts } from '../services/modelTimeouts';
+
+const schema = { type: 'STRING' };
+
+// A provider whose calls never settle, like a request stuck on the network.
+const hangingProvider = (): ModelProvider => {
+  const never = () => new Promise<never>(() => {});
+  return {
+    id: 'fake',
+    requiresApiKey: false,
+    generateText: never,
+    streamText: never,
+    generateJson: never,
+    generateImage: never
+  };
+};
+
+describe('withTimeouts', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('passes results through and keeps the provider identity', async () => {
+    const provider = withTimeouts(new FakeProvider(DEFAULT_MODELS, 0));
+
+    expect(provider.id).toBe('fake');
+    expect(provider.requiresApiKey).toBe(false);
+    await expect(provider.generateJson({ task: 'storyboard', contents: 'x', schema })).resolves.toBe('value 1');
+  });
+
+  it('rejects with a TimeoutError once the task limit passes, even if the provider hangs', async () => {
+    const provider = withTimeouts(hangingProvider(), { ...DEFAULT_TIMEOUTS, extraction: 10 });
+
+    await expect(provider.generateJson({ task: 'extraction', contents: 'x', schema })).rejects.toMatchObject({
+      name: 'TimeoutError'
+    });
+  });
+
+  it('lets a request override the task limit', async () => {
+    const provider = withTimeouts(new FakeProvider(DEFAULT_MODELS, 50), { ...DEFAULT_TIMEOUTS, workshopImage: 5 });
+
+    await expect(provider.generateImage({ task: 'workshopImage', contents: 'x', timeoutMs: 0 })).resolves.toMatchObject({
+      parts: [expect.objectContaining({ inlineData: expect.anything() })]
+    });
+  });
+
+  it('reports a caller abort as an AbortError', async () => {
+    const provider = withTimeouts(hangingProvider());
+    const controller = new AbortController();
+
+    const pending = provider.generateImage({ task: 'workshopImage', contents: 'x', signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('measures streams from the last chunk, not the start', async () => {
+    // 20ms between chunks stays under the 60ms limit even though the whole reply takes longer.
+    const provider = withTimeouts(new FakeProvider(DEFAULT_MODELS, 20), { ...DEFAULT_TIMEOUTS, chat: 60 });
+    let updates = 0;
+
+    const response = await provider.streamText({ task: 'chat', contents: '你好' }, () => {
+      updates += 1;
+    });
+
+    expect(updates).toBeGreaterThan(3);
+    expect(response.text).toContain('[fake:');
+  });
+
+  it('reads per-task limits in seconds from the environment', () => {
+    vi.stubEnv('MODEL_TIMEOUT_CHAT', '5');
+    vi.stubEnv('MODEL_TIMEOUT_STORYBOARD', '0');
+    vi.stubEnv('MODEL_TIMEOUT_EXTRACTION', 'soon');
+
+    expect(resolveTimeoutConfig()).toEqual({
+      ...DEFAULT_TIMEOUTS,
+      chat: 5000,
+      storyboard: 0
+    });
+  });
+});
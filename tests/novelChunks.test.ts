@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { findChapterHeadings, formatCoverage, splitNovel } from '../services/novelChunks';
+
+const paragraph = (char: string, length: number) => `${char.repeat(length - 1)}\n`;
+
+describe('splitNovel', () => {
+  it('keeps a short text in one chunk', () => {
+    expect(splitNovel('第一章 起\n正文\n', { maxChars: 100, overlapChars: 10 })).toEqual([
+      { index: 0, start: 0, end: 9, overlap: 0, text: '第一章 起\n正文\n', heading: '第一章 起' }
+    ]);
+  });
+
+  it('cuts at chapter headings without overlap', () => {
+    const text = `第一章 起\n${paragraph('甲', 40)}第二章 承\n${paragraph('乙', 40)}`;
+
+    const chunks = splitNovel(text, { maxChars: 60, overlapChars: 10 });
+
+    expect(chunks.map(chunk => [chunk.heading, chunk.overlap, chunk.text.startsWith('第')])).toEqual([
+      ['第一章 起', 0, true],
+      ['第二章 承', 0, true]
+    ]);
+    expect(chunks[1].start).toBe(chunks[0].end);
+  });
+
+  it('cuts inside a chapter at a line break and repeats whole lines', () => {
+    const text = paragraph('甲', 30) + paragraph('乙', 30) + paragraph('丙', 30) + paragraph('丁', 30);
+
+    const chunks = splitNovel(text, { maxChars: 70, overlapChars: 35 });
+
+    expect(chunks[0].end).toBe(60);
+    expect(chunks[1].overlap).toBe(30);
+    expect(chunks[1].text.startsWith('乙')).toBe(true);
+    expect(chunks[chunks.length - 1].end).toBe(text.length);
+    chunks.forEach(chunk => expect(chunk.text.length).toBeLessThanOrEqual(70));
+  });
+
+  it('starts from an offset without overlapping it', () => {
+    const text = paragraph('甲', 30) + paragraph('乙', 30);
+    expect(splitNovel(text, { maxChars: 100, overlapChars: 10 }, 30)).toEqual([
+      { index: 0, start: 30, end: 60, overlap: 0, text: paragraph('乙', 30) }
+    ]);
+  });
+
+  it('finds chapter headings and formats coverage', () => {
+    expect(findChapterHeadings('序\n第一千零六十五章 大战再起\n正文').map(heading => heading.title)).toEqual(['第一千零六十五章 大战再起']);
+    expect(formatCoverage(8000, 12345)).toBe('已覆盖 8,000 / 12,345 字（64%）');
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { frameAspectRatio, layoutPanels, PAGE_LAYOUTS, PageGeometry, PanelFrame } from '../services/pageLayouts';
+
+const geometry: PageGeometry = { width: 1000, height: 2000, margin: 50, gutter: 20 };
+const box = (frame: PanelFrame) => [frame.x, frame.y, frame.width, frame.height].map(value => Math.round(value));
+
+describe('layoutPanels', () => {
+  it('stacks full-width rows separated by the gutter', () => {
+    expect(layoutPanels('stacked', 3, geometry).map(box)).toEqual([
+      [50, 50, 900, 620],
+      [50, 690, 900, 620],
+      [50, 1330, 900, 620]
+    ]);
+  });
+
+  it('lays out a two-column grid whose odd last panel spans the row', () => {
+    expect(layoutPanels('grid', 3, geometry).map(box)).toEqual([
+      [50, 50, 440, 940],
+      [510, 50, 440, 940],
+      [50, 1010, 900, 940]
+    ]);
+  });
+
+  it('opens with a splash panel over a row of the rest', () => {
+    const frames = layoutPanels('splash', 4, geometry).map(box);
+
+    expect(frames[0]).toEqual([50, 50, 900, 1034]);
+    expect(frames.slice(1).map(([x, y, width]) => [x, y, width])).toEqual([[50, 1104, 287], [357, 1104, 287], [663, 1104, 287]]);
+  });
+
+  it('cuts diagonal rows along parallel slanted edges a gutter apart', () => {
+    const [first, second] = layoutPanels('diagonal', 2, geometry);
+    const [, , firstRight, firstLeft] = first.points;
+    const [secondLeft, secondRight] = second.points;
+
+    expect(secondLeft[1] - firstLeft[1]).toBe(20);
+    expect(secondRight[1] - firstRight[1]).toBe(20);
+    expect(firstLeft[1]).not.toBe(firstRight[1]);
+  });
+
+  it('gives a single panel the whole page in every layout', () => {
+    PAGE_LAYOUTS.forEach(layout => {
+      expect(layoutPanels(layout.id, 1, geometry).map(box)).toEqual([[50, 50, 900, 1900]]);
+    });
+    expect(layoutPanels('grid', 0, geometry)).toEqual([]);
+  });
+});
+
+describe('frameAspectRatio', () => {
+  it('picks the closest supported ratio', () => {
+    expect(frameAspectRatio({ width: 900, height: 620 })).toBe('4:3');
+    expect(frameAspectRatio({ width: 900, height: 480 })).toBe('16:9');
+    expect(frameAspectRatio({ width: 440, height: 940 })).toBe('9:16');
+    expect(frameAspectRatio({ width: 287, height: 300 })).toBe('1:1');
+  });
+});
@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  fillTemplate,
+  findUnknownVariables,
+  listPromptRevisions,
+  PROMPT_TEMPLATE_DEFINITIONS,
+  renderPrompt,
+  savePromptRevision
+} from '../services/promptTemplates';
+
+describe('fillTemplate', () => {
+  it('replaces known placeholders and leaves unknown ones as written', () => {
+    expect(fillTemplate('角色：{{ characters }}\n正文：{{text}} {{missing}}', { characters: '@韩立', text: '破阵' }))
+      .toBe('角色：@韩立\n正文：破阵 {{missing}}');
+  });
+
+  it('leaves names inherited from Object.prototype as written', () => {
+    expect(fillTemplate('{{constructor}} {{toString}}', {})).toBe('{{constructor}} {{toString}}');
+  });
+
+  it('lists placeholders the template does not define', () => {
+    expect(findUnknownVariables('storyboard', '{{text}} {{characters}} {{style}} {{style}}')).toEqual(['style']);
+  });
+});
+
+describe('prompt revisions', () => {
+  let storage: Map<string, string>;
+
+  beforeEach(() => {
+    storage = new Map();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value)
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('renders the built-in text as version 1', () => {
+    expect(renderPrompt('extraction', { text: '章节正文' }, 'novel-a')).toEqual({
+      id: 'extraction',
+      version: 1,
+      text: PROMPT_TEMPLATE_DEFINITIONS.extraction.defaultText.replace('{{text}}', '章节正文')
+    });
+  });
+
+  it('saves edits as new versions per project', () => {
+    savePromptRevision('extraction', '提取人物：{{text}}', 'novel-a', 100);
+    savePromptRevision('extraction', '提取人物：{{text}}', 'novel-a', 200);
+    savePromptRevision('extraction', '提取人物与物品：{{text}}', 'novel-a', 300);
+
+    expect(listPromptRevisions('extraction', 'novel-a').map(revision => [revision.version, revision.createdAt])).toEqual([
+      [1, 0],
+      [2, 100],
+      [3, 300]
+    ]);
+    expect(renderPrompt('extraction', { text: '正文' }, 'novel-a')).toEqual({ id: 'extraction', version: 3, text: '提取人物与物品：正文' });
+    expect(renderPrompt('extraction', { text: '正文' }, 'novel-b').version).toBe(1);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { flattenStoryboardPages, WorkshopScene } from '../services/comicStudioService';
+import {
+  deletePage,
+  deletePanel,
+  insertPage,
+  insertPanel,
+  mergePanelWithNext,
+  movePanel,
+  replacePages,
+  splitPanel,
+  updatePanel
+} from '../services/storyboardEditor';
+
+// Two pages: p1 holds a and b, p2 holds c and d.
+const storyboard = () =>
+  flattenStoryboardPages(
+    [
+      { pageNumber: 1, panels: [{ panelNumber: 1, panelLine: 'a', dialogue: '一。二！', charactersInPanel: ['@韩立'] }, { panelNumber: 2, panelLine: 'b', dialogue: '三', charactersInPanel: ['@玲珑'] }] },
+      { pageNumber: 2, panels: [{ panelNumber: 1, panelLine: 'c', dialogue: '' }, { panelNumber: 2, panelLine: 'd', dialogue: '' }] }
+    ],
+    1
+  );
+
+const layout = (scenes: WorkshopScene[]) => scenes.map(scene => `${scene.sceneNumber}:${scene.pageNumber}.${scene.panelNumber}:${scene.description}`);
+const idOf = (scenes: WorkshopScene[], description: string) => scenes.find(scene => scene.description === description)!.id;
+
+describe('storyboard edits', () => {
+  it('edits a panel in place', () => {
+    const scenes = storyboard();
+    const { scenes: next, pageMap } = updatePanel(scenes, idOf(scenes, 'b'), { dialogue: '改', charactersInScene: [] });
+
+    expect(next[1]).toMatchObject({ description: 'b', dialogue: '改', charactersInScene: [] });
+    expect(pageMap).toEqual({ 1: 1, 2: 2 });
+  });
+
+  it('inserts and deletes panels, renumbering panels and scenes', () => {
+    const scenes = storyboard();
+    const inserted = insertPanel(scenes, 1, 1).scenes;
+
+    expect(layout(inserted)).toEqual(['1:1.1:a', '2:1.2:', '3:1.3:b', '4:2.1:c', '5:2.2:d']);
+    expect(layout(deletePanel(inserted, idOf(scenes, 'a')).scenes)).toEqual(['1:1.1:', '2:1.2:b', '3:2.1:c', '4:2.2:d']);
+  });
+
+  it('moves panels within and across pages and drops emptied pages', () => {
+    const scenes = storyboard();
+
+    expect(layout(movePanel(scenes, idOf(scenes, 'a'), 1, 2).scenes)).toEqual(['1:1.1:b', '2:1.2:a', '3:2.1:c', '4:2.2:d']);
+    expect(layout(movePanel(scenes, idOf(scenes, 'd'), 1, 0).scenes)).toEqual(['1:1.1:d', '2:1.2:a', '3:1.3:b', '4:2.1:c']);
+
+    const emptied = movePanel(movePanel(scenes, idOf(scenes, 'a'), 2, 0).scenes, idOf(scenes, 'b'), 2, 0);
+    expect(layout(emptied.scenes)).toEqual(['1:1.1:b', '2:1.2:a', '3:1.3:c', '4:1.4:d']);
+    expect(emptied.pageMap).toEqual({ 2: 1 });
+  });
+
+  it('splits a panel between its sentences and merges it back', () => {
+    const scenes = storyboard();
+    const split = splitPanel(scenes, idOf(scenes, 'a')).scenes;
+
+    expect(split.slice(0, 2).map(scene => [scene.description, scene.dialogue, scene.panelNumber])).toEqual([
+      ['a', '一。', 1],
+      ['a', '二！', 2]
+    ]);
+    expect(split[0].id).not.toBe(split[1].id);
+
+    const merged = mergePanelWithNext(scenes, idOf(scenes, 'a')).scenes;
+    expect(merged[0]).toMatchObject({ description: 'a；b', dialogue: '一。二！\n三', charactersInScene: ['@韩立', '@玲珑'] });
+    expect(layout(merged)).toEqual(['1:1.1:a；b', '2:2.1:c', '3:2.2:d']);
+  });
+
+  it('inserts and deletes pages, reporting where the old pages went', () => {
+    const scenes = storyboard();
+    const inserted = insertPage(scenes, 1);
+
+    expect(layout(inserted.scenes)).toEqual(['1:1.1:a', '2:1.2:b', '3:2.1:', '4:3.1:c', '5:3.2:d']);
+    expect(inserted.pageMap).toEqual({ 1: 1, 2: 3 });
+    expect(deletePage(scenes, 1).pageMap).toEqual({ 2: 1 });
+    expect(layout(insertPage([], 0).scenes)).toEqual(['1:1.1:']);
+  });
+
+  it('replaces a range of pages, dropping the replaced pages from the page map', () => {
+    const { scenes } = insertPage(storyboard(), 2);
+    const replacement = flattenStoryboardPages([{ pageNumber: 1, panels: [{ panelLine: 'x' }] }, { pageNumber: 2, panels: [{ panelLine: 'y' }] }]);
+
+    const { scenes: next, pageMap } = replacePages(scenes, 2, 2, replacement);
+
+    expect(layout(next)).toEqual(['1:1.1:a', '2:1.2:b', '3:2.1:x', '4:3.1:y', '5:4.1:']);
+    expect(pageMap).toEqual({ 1: 1, 3: 4 });
+  });
+});
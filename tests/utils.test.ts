@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { compressDataUrl, fitWithin1080p, parseDataUrl } from '../utils';
+
+describe('fitWithin1080p', () => {
+  it('leaves images inside the bounds untouched', () => {
+    expect(fitWithin1080p(800, 600)).toEqual({ width: 800, height: 600 });
+    expect(fitWithin1080p(1920, 1080)).toEqual({ width: 1920, height: 1080 });
+    expect(fitWithin1080p(1080, 1920)).toEqual({ width: 1080, height: 1920 });
+  });
+
+  it('scales landscape images down to 1920x1080 keeping the aspect ratio', () => {
+    expect(fitWithin1080p(3840, 2160)).toEqual({ width: 1920, height: 1080 });
+    expect(fitWithin1080p(4000, 3000)).toEqual({ width: 1440, height: 1080 });
+    expect(fitWithin1080p(4000, 1000)).toEqual({ width: 1920, height: 480 });
+  });
+
+  it('uses portrait bounds for tall images', () => {
+    expect(fitWithin1080p(3000, 4000)).toEqual({ width: 1080, height: 1440 });
+    expect(fitWithin1080p(1200, 1900)).toEqual({ width: 1080, height: 1710 });
+  });
+
+  it('treats square images as landscape', () => {
+    expect(fitWithin1080p(3000, 3000)).toEqual({ width: 1080, height: 1080 });
+  });
+});
+
+describe('compressDataUrl', () => {
+  it('rejects input that is not a base64 data URL', async () => {
+    expect(await compressDataUrl('')).toBeNull();
+    expect(await compressDataUrl('https://example.com/a.png')).toBeNull();
+  });
+});
+
+describe('parseDataUrl', () => {
+  it('splits the MIME type and payload', () => {
+    expect(parseDataUrl('data:image/jpeg;base64,AAAA')).toEqual({ base64: 'AAAA', mimeType: 'image/jpeg' });
+  });
+
+  it('defaults to PNG when the header has no MIME type', () => {
+    expect(parseDataUrl('data:;base64,AAAA')).toEqual({ base64: 'AAAA', mimeType: 'image/png' });
+  });
+
+  it('returns null for empty or non-base64 input', () => {
+    expect(parseDataUrl(undefined)).toBeNull();
+    expect(parseDataUrl(null)).toBeNull();
+    expect(parseDataUrl('data:image/svg+xml,<svg/>')).toBeNull();
+  });
+});
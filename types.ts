@@ -4,7 +4,14 @@ export interface ChatMessage {
   parts: ChatPart[];
   timestamp: number;
   isError?: boolean;
+  isStreaming?: boolean; // Still receiving parts from the model
+  isStopped?: boolean; // Cancelled by the user or a timeout; holds whatever arrived before the stop
+  isTimedOut?: boolean; // Stopped because the model went quiet past the chat timeout
   trace?: any[]; // The raw parts array sent to the API for this turn
+  parentId?: string; // Previous message in the thread; edits and regenerations become siblings under it
+  context?: Array<{ role: string; parts: any[] }>; // History entries this reply added (user turn + model turn)
+  contextUsage?: ContextUsage; // Estimated size of what was sent for this turn
+  promptTemplates?: Array<{ id: string; version: number }>; // Prompt template versions used for this turn
   groundingChunks?: Array<{
     web?: {
       uri: string;
@@ -13,6 +20,35 @@ export interface ChatMessage {
   }>;
 }
 
+/** Estimated size of model input; `bytes` is the request payload, images counted as base64. */
+export interface ContextSize {
+  tokens: number;
+  bytes: number;
+  images: number;
+}
+
+export interface ContextUsage {
+  turn: ContextSize; // The new parts of this turn
+  history: ContextSize; // The full stored history before the turn
+  sentHistory: ContextSize; // The history as sent, after compaction
+  omittedImages: number; // Old images replaced by a text note
+}
+
+/** A saved chat: the messages on screen plus the model history needed to continue it. */
+export interface ChatConversation {
+  id: string;
+  name: string;
+  projectId?: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: ChatMessage[];
+  history: Array<{ role: string; parts: any[] }>; // GeminiService history, restored on reopen
+  sceneRefsInjected?: boolean; // Whether the style pack is already part of the history
+  activeLeafId?: string; // Last message of the branch on screen; older saves are a single thread
+}
+
+export type ChatConversationMeta = Pick<ChatConversation, 'id' | 'name' | 'projectId' | 'createdAt' | 'updatedAt'>;
+
 export interface ChatPart {
   text?: string;
   inlineData?: {
@@ -28,12 +64,50 @@ export interface Attachment {
   mimeType: string;
 }
 
+export type EntityViewLabel = 'front' | 'profile' | 'back' | 'fullBody' | 'expressions' | 'outfit';
+
+export interface EntityView {
+  id: string;
+  label: EntityViewLabel;
+  caption?: string; // e.g. the outfit variant name
+  imagePreview: string;
+  base64: string;
+  mimeType: string;
+}
+
+export type CharacterRole = 'protagonist' | 'antagonist' | 'supporting';
+
+export interface CharacterRelationship {
+  target: string;
+  relation: string;
+}
+
+export interface CharacterProfile {
+  aliases: string[];
+  description: string;
+  appearance: string;
+  role?: CharacterRole;
+  faction?: string;
+  relationships: CharacterRelationship[];
+  tags: string[];
+  updatedAt?: number;
+}
+
 export interface Entity {
   id: string;
   name: string;
   imagePreview: string;
-  base64: string;
+  base64: string; // Primary portrait, used as the front view when no explicit one exists
   mimeType: string;
+  views?: EntityView[];
+  profile?: CharacterProfile;
+  project?: string; // Project (novel) namespace; absent for the root knowledge base
+}
+
+/** A novel/work whose characters live in `KnowledgeBase/<id>/`. */
+export interface KnowledgeProject {
+  id: string;
+  name: string;
 }
 
 export interface SceneReference {
@@ -42,6 +116,7 @@ export interface SceneReference {
   imagePreview: string;
   base64: string;
   mimeType: string;
+  pack?: string; // Style pack the reference belongs to; stored in `KnowledgeBase/_styles/<pack>/`
 }
 
 export type LoadingStatus = 'thinking' | 'generating' | 'searching' | 'idle';
@@ -18,6 +18,23 @@ const resolve1080pBounds = (width: number, height: number) => {
   return { maxWidth: 1080, maxHeight: 1920 };
 };
 
+/** Output size for `compressDataUrl`: scaled down (never up) to fit 1080p in the image's orientation. */
+export const fitWithin1080p = (width: number, height: number) => {
+  const { maxWidth, maxHeight } = resolve1080pBounds(width, height);
+  if (width <= maxWidth && height <= maxHeight) return { width, height };
+  const ratio = Math.min(maxWidth / width, maxHeight / height);
+  return { width: Math.round(width * ratio), height: Math.round(height * ratio) };
+};
+
+/** Splits a base64 data URL; the MIME type defaults to PNG when the header lacks one. */
+export const parseDataUrl = (dataUrl?: string | null) => {
+  if (!dataUrl || !dataUrl.includes('base64,')) return null;
+  const [meta, data] = dataUrl.split(',');
+  const match = meta.match(/data:(.*);base64/);
+  const mimeType = match?.[1] || 'image/png';
+  return { base64: data, mimeType };
+};
+
 export const compressDataUrl = async (
   dataUrl: string,
   quality = 0.85
@@ -27,15 +44,7 @@ export const compressDataUrl = async (
     const img = new Image();
     img.src = dataUrl;
     img.onload = () => {
-      let width = img.width;
-      let height = img.height;
-      const { maxWidth, maxHeight } = resolve1080pBounds(width, height);
-
-      if (width > maxWidth || height > maxHeight) {
-        const ratio = Math.min(maxWidth / width, maxHeight / height);
-        width = Math.round(width * ratio);
-        height = Math.round(height * ratio);
-      }
+      const { width, height } = fitWithin1080p(img.width, img.height);
 
       const canvas = document.createElement('canvas');
       canvas.width = width;
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// Kept apart from vite.config.ts so unit tests don't load the dev-server middlewares.
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+    environment: 'node'
+  }
+});